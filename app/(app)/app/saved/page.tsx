@@ -0,0 +1,232 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo, useRef, useSyncExternalStore } from 'react';
+import { useRouter } from 'next/navigation';
+import { ContentColumn } from '../../../components/ContentColumn';
+import { EmptyState } from '../../../components/EmptyState';
+import { ReaderView } from '../../../components/ReaderView';
+import { VideoPlayerModal } from '../../../components/VideoPlayerModal';
+import { SystemToast } from '../../../components/SystemToast';
+import { BottomTabBar } from '../../../components/BottomTabBar';
+import { Article } from '../../../types/article';
+import {
+  SavedArticle,
+  parseSavedItems,
+  getSavedItemsSnapshot,
+  subscribeSavedItems,
+  removeSavedItem,
+} from '../../../lib/savedItems';
+import { markAsRead } from '../../../lib/readState';
+import { markVideoWatched } from '../../../lib/videoWatchedState';
+import { getRelativeTime, formatDate, normalizeTitle } from '../../../lib/utils';
+import { emitAppReady } from '../../../lib/appReady';
+import { trackEvent } from '../../../lib/analytics';
+
+/**
+ * Saved-for-later list. Saved items never expire.
+ * Articles open inline in ReaderView from their stored content, so this
+ * screen keeps working offline once its page shell is cached.
+ */
+export default function SavedPage() {
+  const router = useRouter();
+  // Server snapshot is null: the list renders after hydration
+  const rawItems = useSyncExternalStore(subscribeSavedItems, getSavedItemsSnapshot, () => null);
+  const items = useMemo(() => parseSavedItems(rawItems), [rawItems]);
+  const [openArticle, setOpenArticle] = useState<Article | null>(null);
+  const [selectedVideo, setSelectedVideo] = useState<{ id: string; title: string; url: string } | null>(null);
+  const [toast, setToast] = useState({ message: '', visible: false });
+  const toastTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  const showToast = useCallback((message: string) => {
+    if (toastTimeoutRef.current) {
+      clearTimeout(toastTimeoutRef.current);
+    }
+    setToast({ message, visible: true });
+    toastTimeoutRef.current = setTimeout(() => {
+      setToast(prev => ({ ...prev, visible: false }));
+    }, 2000);
+  }, []);
+
+  useEffect(() => {
+    // Signal splash overlay that first meaningful paint is ready
+    emitAppReady();
+
+    return () => {
+      if (toastTimeoutRef.current) {
+        clearTimeout(toastTimeoutRef.current);
+      }
+    };
+  }, []);
+
+  const handleOpenArticle = (item: SavedArticle) => {
+    const { article } = item;
+    markAsRead(article.id);
+    setOpenArticle({
+      id: article.id,
+      title: normalizeTitle(article.title, article.sourceName),
+      source: article.sourceName,
+      author: article.author,
+      timeAgo: article.publishedAt ? getRelativeTime(article.publishedAt) : '',
+      date: article.publishedAt ? formatDate(article.publishedAt) : '',
+      isRead: true,
+      url: article.url,
+      publishedAt: article.publishedAt,
+      sourceDomain: article.sourceDomain,
+      thumbnail: article.thumbnail,
+    });
+    trackEvent('saved_open', { kind: 'article', offline: !!item.content });
+  };
+
+  const handleRemove = (id: string) => {
+    removeSavedItem(id);
+    showToast('Removed from Saved');
+  };
+
+  if (openArticle) {
+    return <ReaderView article={openArticle} onBack={() => setOpenArticle(null)} />;
+  }
+
+  return (
+    <div className="flex flex-col h-[100dvh] md:h-screen bg-background text-foreground">
+      {/* Header wrapper - static, outside scroll container */}
+      <div className="shrink-0 bg-background pt-[env(safe-area-inset-top)]">
+        <header className="relative flex items-center justify-end px-4 pt-2 pb-1 sm:pt-2.5 sm:pb-1 border-b border-border bg-background">
+          {/* Centered title */}
+          <h1 className="absolute left-1/2 -translate-x-1/2 text-xl font-semibold">Saved</h1>
+          {/* Right controls */}
+          <div className="-mr-3 flex items-center">
+            <button
+              onClick={() => router.push('/app/settings?from=saved')}
+              className="p-3 min-w-[48px] min-h-[48px] flex items-center justify-center rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 active:bg-zinc-200 dark:active:bg-zinc-700 transition-colors"
+              aria-label="Settings"
+              style={{ touchAction: 'manipulation' }}
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"
+                />
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+                />
+              </svg>
+            </button>
+          </div>
+        </header>
+      </div>
+
+      {/* Saved list - full-width scroll container with centered content */}
+      <div className="flex-1 overflow-y-auto overflow-x-hidden overscroll-y-contain">
+        <ContentColumn>
+          {items.length === 0 ? (
+            <EmptyState
+              icon="🔖"
+              title="Nothing saved yet"
+              message="Tap Save on an article or video to keep it here. Saved items don't expire."
+            />
+          ) : (
+            <div>
+              {items.map((item, index) => {
+                const isLast = index === items.length - 1;
+
+                return (
+                  <div
+                    key={item.id}
+                    className={`flex items-center ${!isLast ? 'border-b border-zinc-200/50 dark:border-zinc-800/50' : ''}`}
+                  >
+                    {item.kind === 'article' ? (
+                      <button
+                        type="button"
+                        onClick={() => handleOpenArticle(item)}
+                        className="flex-1 min-w-0 px-4 py-3.5 hover:bg-zinc-50 dark:hover:bg-zinc-900 active:bg-zinc-100 dark:active:bg-zinc-800 transition-colors text-left"
+                        style={{ touchAction: 'manipulation' }}
+                      >
+                        <h3 className="text-base font-medium leading-snug text-foreground">
+                          {normalizeTitle(item.article.title, item.article.sourceName)}
+                        </h3>
+                        <div className="mt-1.5 text-xs leading-tight text-zinc-500 dark:text-zinc-400 truncate">
+                          <span>{item.article.sourceName}</span>
+                          <span className="mx-1.5">·</span>
+                          <span>Saved {getRelativeTime(new Date(item.savedAt).toISOString())}</span>
+                          {!item.content && (
+                            <>
+                              <span className="mx-1.5">·</span>
+                              <span>Needs connection</span>
+                            </>
+                          )}
+                        </div>
+                      </button>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          markVideoWatched(item.video.id);
+                          setSelectedVideo({ id: item.video.id, title: item.video.title, url: item.video.url });
+                          trackEvent('saved_open', { kind: 'video' });
+                        }}
+                        className="flex-1 min-w-0 flex gap-3 px-4 py-3.5 hover:bg-zinc-50 dark:hover:bg-zinc-900 active:bg-zinc-100 dark:active:bg-zinc-800 transition-colors text-left"
+                        style={{ touchAction: 'manipulation' }}
+                      >
+                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                        <img
+                          src={item.video.thumbnail}
+                          alt=""
+                          width={120}
+                          height={68}
+                          className="shrink-0 w-[120px] h-[68px] rounded object-cover bg-zinc-100 dark:bg-zinc-800"
+                        />
+                        <div className="min-w-0 flex-1 overflow-hidden">
+                          <h3 className="text-base font-medium leading-snug text-foreground line-clamp-2">
+                            {item.video.title}
+                          </h3>
+                          <div className="mt-1.5 text-xs leading-tight text-zinc-500 dark:text-zinc-400 truncate">
+                            <span>{item.video.channelTitle}</span>
+                            <span className="mx-1.5">&middot;</span>
+                            <span>Saved {getRelativeTime(new Date(item.savedAt).toISOString())}</span>
+                          </div>
+                        </div>
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleRemove(item.id)}
+                      className="shrink-0 px-4 py-3 text-sm text-red-600 dark:text-red-400 transition-colors"
+                      style={{ touchAction: 'manipulation' }}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ContentColumn>
+      </div>
+
+      {/* Video player modal */}
+      {selectedVideo && (
+        <VideoPlayerModal
+          videoId={selectedVideo.id}
+          title={selectedVideo.title}
+          youtubeUrl={selectedVideo.url}
+          onClose={() => setSelectedVideo(null)}
+        />
+      )}
+
+      {/* Toast */}
+      <SystemToast message={toast.message} visible={toast.visible} />
+
+      {/* Bottom tab bar */}
+      <BottomTabBar />
+    </div>
+  );
+}
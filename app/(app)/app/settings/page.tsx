@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useMemo, Suspense } from 'react';
+import { useState, useEffect, useMemo, useRef, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { getTrustedDomains, removeTrustedDomain, resetToDefaults } from '../../../lib/trustedDomains';
 import {
@@ -17,7 +17,40 @@ import {
   setStoredThemePreference,
   applyTheme,
 } from '../../../lib/theme';
-import { markAllAsRead, clearAllReadState } from '../../../lib/readState';
+import { markAllAsRead, clearAllReadState, purgeExpiredReadState } from '../../../lib/readState';
+import { purgeExpiredVideoWatchedState } from '../../../lib/videoWatchedState';
+import {
+  TimeWindow,
+  TIME_WINDOW_OPTIONS,
+  getStoredTimeWindow,
+  setStoredTimeWindow,
+} from '../../../lib/timeWindow';
+import { TEAM_PROFILES, getStoredTeamId, setStoredTeamId, getTeamProfile } from '../../../lib/teams';
+import {
+  isSyncEnabled,
+  enableSync,
+  pairWithCode,
+  createPairingCode,
+  disableSync,
+  syncNow,
+  getLastSyncedAt,
+} from '../../../lib/sync';
+import type { SyncPairingCode } from '../../../types/sync';
+import {
+  ImportMode,
+  createSettingsBackup,
+  getBackupFileName,
+  parseSettingsBackup,
+  applySettingsBackup,
+} from '../../../lib/settingsBackup';
+import { importOpml, exportOpml } from '../../../lib/opml';
+import {
+  OfflineUsage,
+  isOfflineModeEnabled,
+  setOfflineModeEnabled,
+  getOfflineUsage,
+} from '../../../lib/offlineArticles';
+import { formatBytes } from '../../../lib/utils';
 import { SystemToast } from '../../../components/SystemToast';
 import { emitAppReady } from '../../../lib/appReady';
 import { trackEvent } from '../../../lib/analytics';
@@ -29,6 +62,18 @@ function SettingsContent() {
   const [trustedVideoSources, setTrustedVideoSources] = useState<TrustedVideoSource[]>([]);
   const [sourcesTab, setSourcesTab] = useState<'articles' | 'videos'>('articles');
   const [themePreference, setThemePreference] = useState<ThemePreference>('system');
+  const [timeWindow, setTimeWindow] = useState<TimeWindow>('24h');
+  const [teamId, setTeamId] = useState<string>('');
+  const [syncEnabled, setSyncEnabled] = useState(false);
+  const [syncBusy, setSyncBusy] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const [pairingCode, setPairingCode] = useState<SyncPairingCode | null>(null);
+  const [pairCodeInput, setPairCodeInput] = useState('');
+  const [offlineEnabled, setOfflineEnabled] = useState(false);
+  const [offlineUsage, setOfflineUsage] = useState<OfflineUsage | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const importModeRef = useRef<ImportMode>('merge');
+  const opmlInputRef = useRef<HTMLInputElement>(null);
   const [mounted, setMounted] = useState(false);
 
   // UI-only alphabetical sorting (does not mutate storage order)
@@ -55,6 +100,37 @@ function SettingsContent() {
     setTrustedDomains(getTrustedDomains());
     setTrustedVideoSources(getTrustedVideoSources());
     setThemePreference(getStoredThemePreference());
+    setTimeWindow(getStoredTimeWindow());
+    setTeamId(getStoredTeamId());
+    setSyncEnabled(isSyncEnabled());
+    setLastSyncedAt(getLastSyncedAt());
+    setOfflineEnabled(isOfflineModeEnabled());
+  }, []);
+
+  // Keep offline storage usage current while downloads run
+  useEffect(() => {
+    const handleOfflineArticlesChange = () => {
+      getOfflineUsage().then(setOfflineUsage);
+    };
+
+    handleOfflineArticlesChange();
+    window.addEventListener('offlineArticlesChanged', handleOfflineArticlesChange);
+    return () => window.removeEventListener('offlineArticlesChanged', handleOfflineArticlesChange);
+  }, []);
+
+  // Pick up values applied by a background sync
+  useEffect(() => {
+    const handleSyncCompleted = () => {
+      setTrustedDomains(getTrustedDomains());
+      setTrustedVideoSources(getTrustedVideoSources());
+      setThemePreference(getStoredThemePreference());
+      setTimeWindow(getStoredTimeWindow());
+      setTeamId(getStoredTeamId());
+      setLastSyncedAt(getLastSyncedAt());
+    };
+
+    window.addEventListener('syncCompleted', handleSyncCompleted);
+    return () => window.removeEventListener('syncCompleted', handleSyncCompleted);
   }, []);
 
   // Signal splash overlay after first render (mounted triggers re-render, this effect fires after paint)
@@ -100,7 +176,33 @@ function SettingsContent() {
     });
   };
 
+  const handleTeamChange = (value: string) => {
+    if (value === teamId) return;
+    setTeamId(value);
+    setStoredTeamId(value);
+    // Trusted sources are team-specific: start from the new team's defaults
+    resetToDefaults();
+    resetVideoSourcesToDefaults();
+    setTrustedDomains(getTrustedDomains());
+    setTrustedVideoSources(getTrustedVideoSources());
+    showToast(`Following the ${getTeamProfile(value).shortName}`);
+    trackEvent('team_change', { team: value });
+  };
+
+  const handleTimeWindowChange = (value: TimeWindow) => {
+    setTimeWindow(value);
+    setStoredTimeWindow(value);
+    // Read/watched retention follows the window
+    purgeExpiredReadState();
+    purgeExpiredVideoWatchedState();
+    trackEvent('time_window_change', { window: value });
+  };
+
   const handleBack = () => {
+    if (fromParam === 'saved') {
+      router.push('/app/saved');
+      return;
+    }
     const basePath = fromParam === 'videos' ? '/app/videos' : '/app';
     router.push(`${basePath}?tab=${returnTab}`);
   };
@@ -132,6 +234,135 @@ function SettingsContent() {
     showToast('Articles Marked as Unread');
   };
 
+  const handleEnableSync = async () => {
+    setSyncBusy(true);
+    const ok = await enableSync();
+    setSyncBusy(false);
+    setSyncEnabled(isSyncEnabled());
+    showToast(ok ? 'Sync Turned On' : 'Sync Unavailable');
+    trackEvent('sync_enable', { ok });
+  };
+
+  const handlePair = async () => {
+    if (!pairCodeInput.trim()) return;
+    setSyncBusy(true);
+    const ok = await pairWithCode(pairCodeInput);
+    setSyncBusy(false);
+    setSyncEnabled(isSyncEnabled());
+    if (ok) setPairCodeInput('');
+    showToast(ok ? 'Device Paired' : 'Invalid or Expired Code');
+    trackEvent('sync_pair', { ok });
+  };
+
+  const handleShowPairingCode = async () => {
+    setSyncBusy(true);
+    const pairing = await createPairingCode();
+    setSyncBusy(false);
+    setPairingCode(pairing);
+    if (!pairing) showToast('Sync Unavailable');
+  };
+
+  const handleSyncNow = async () => {
+    setSyncBusy(true);
+    const ok = await syncNow();
+    setSyncBusy(false);
+    setSyncEnabled(isSyncEnabled());
+    showToast(ok ? 'Synced' : 'Sync Failed');
+  };
+
+  const handleDisableSync = () => {
+    disableSync();
+    setSyncEnabled(false);
+    setPairingCode(null);
+    setLastSyncedAt(null);
+    showToast('Sync Turned Off');
+    trackEvent('sync_disable');
+  };
+
+  const handleToggleOffline = async () => {
+    const enabled = !offlineEnabled;
+    setOfflineEnabled(enabled);
+    await setOfflineModeEnabled(enabled);
+    showToast(enabled ? 'Offline Reading On' : 'Downloads Removed');
+    trackEvent(enabled ? 'offline_enable' : 'offline_disable');
+  };
+
+  const downloadFile = (contents: string, type: string, fileName: string) => {
+    const url = URL.createObjectURL(new Blob([contents], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExport = () => {
+    const backup = createSettingsBackup();
+    downloadFile(JSON.stringify(backup, null, 2), 'application/json', getBackupFileName(backup));
+    trackEvent('settings_export');
+  };
+
+  const handleExportOpml = () => {
+    downloadFile(exportOpml(), 'text/x-opml', 'suns-reader-sources.opml');
+    trackEvent('opml_export');
+  };
+
+  const handleImportOpmlFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const result = importOpml(await file.text());
+      if (!result) {
+        showToast('Invalid OPML File');
+        return;
+      }
+
+      setTrustedDomains(getTrustedDomains());
+      setTrustedVideoSources(getTrustedVideoSources());
+      const added = result.domainsAdded + result.videoSourcesAdded;
+      showToast(added === 0 ? 'No New Sources' : `Added ${added} Source${added === 1 ? '' : 's'}`);
+      trackEvent('opml_import', { domainsAdded: result.domainsAdded, videoSourcesAdded: result.videoSourcesAdded });
+    } catch (error) {
+      console.error('Failed to import OPML:', error);
+      showToast('Import Failed');
+    } finally {
+      if (opmlInputRef.current) opmlInputRef.current.value = '';
+    }
+  };
+
+  const handleImportClick = (mode: ImportMode) => {
+    importModeRef.current = mode;
+    importInputRef.current?.click();
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    const mode = importModeRef.current;
+
+    try {
+      const backup = parseSettingsBackup(await file.text());
+      if (!backup) {
+        showToast('Invalid Backup File');
+        return;
+      }
+
+      applySettingsBackup(backup, mode);
+      setTrustedDomains(getTrustedDomains());
+      setTrustedVideoSources(getTrustedVideoSources());
+      setThemePreference(getStoredThemePreference());
+      setTimeWindow(getStoredTimeWindow());
+      setTeamId(getStoredTeamId());
+      showToast('Settings Imported');
+      trackEvent('settings_import', { mode });
+    } catch (error) {
+      console.error('Failed to import settings:', error);
+      showToast('Import Failed');
+    } finally {
+      // Allow re-selecting the same file
+      if (importInputRef.current) importInputRef.current.value = '';
+    }
+  };
+
   if (!mounted) {
     return null;
   }
@@ -168,6 +399,32 @@ function SettingsContent() {
       {/* Content - scroll container for contained scrolling */}
       <div className="flex-1 overflow-y-auto overscroll-y-contain pt-4 md:flex md:justify-center">
         <div className="w-full max-w-[420px] md:flex-none" style={{ paddingLeft: '24px', paddingRight: '24px' }}>
+          {/* Team Section */}
+          <SettingsSection
+            title="Team"
+            description="Pick the team you follow. Switching resets trusted sources to that team's defaults."
+          >
+            <div className="border border-border/30 rounded-lg bg-background overflow-hidden divide-y divide-border/20">
+              {TEAM_PROFILES.map(team => (
+                <label
+                  key={team.id}
+                  className="flex items-center gap-3 h-[44px] px-3 cursor-pointer hover:bg-zinc-50 dark:hover:bg-zinc-900 transition-colors"
+                  style={{ touchAction: 'manipulation' }}
+                >
+                  <input
+                    type="radio"
+                    name="team"
+                    value={team.id}
+                    checked={teamId === team.id}
+                    onChange={() => handleTeamChange(team.id)}
+                    className="w-4 h-4 text-accent accent-accent"
+                  />
+                  <span className="text-base font-medium text-foreground">{team.name}</span>
+                </label>
+              ))}
+            </div>
+          </SettingsSection>
+
           {/* Trusted Sources Section */}
           <SettingsSection
             title="Trusted Sources"
@@ -340,10 +597,214 @@ function SettingsContent() {
             </div>
           </SettingsSection>
 
+          {/* Time Window Section */}
+          <SettingsSection
+            title="Time Window"
+            description="How far back articles and videos go. Read status is kept for the same period."
+          >
+            <div className="border border-border/30 rounded-lg bg-background overflow-hidden divide-y divide-border/20">
+              {TIME_WINDOW_OPTIONS.map(option => (
+                <label
+                  key={option.value}
+                  className="flex items-center gap-3 h-[44px] px-3 cursor-pointer hover:bg-zinc-50 dark:hover:bg-zinc-900 transition-colors"
+                  style={{ touchAction: 'manipulation' }}
+                >
+                  <input
+                    type="radio"
+                    name="timeWindow"
+                    value={option.value}
+                    checked={timeWindow === option.value}
+                    onChange={() => handleTimeWindowChange(option.value)}
+                    className="w-4 h-4 text-accent accent-accent"
+                  />
+                  <span className="text-base font-medium text-foreground">{option.label}</span>
+                </label>
+              ))}
+            </div>
+          </SettingsSection>
+
+          {/* Offline Reading Section */}
+          <SettingsSection
+            title="Offline Reading"
+            description={
+              offlineEnabled
+                ? 'Unread Trusted articles download in the background when the feed loads, so they open without a connection.'
+                : 'Download unread Trusted articles in the background so the whole Trusted tab is readable offline.'
+            }
+          >
+            <div className="border border-border/30 rounded-lg bg-background overflow-hidden divide-y divide-border/20">
+              {offlineEnabled && offlineUsage && (
+                <div className="flex items-center justify-between h-[44px] px-3">
+                  <span className="text-base font-medium text-foreground">
+                    {offlineUsage.count} {offlineUsage.count === 1 ? 'article' : 'articles'} downloaded
+                  </span>
+                  <span className="text-sm text-zinc-500 dark:text-zinc-400">{formatBytes(offlineUsage.bytes)}</span>
+                </div>
+              )}
+              <button
+                onClick={handleToggleOffline}
+                className="flex items-center w-full h-[44px] px-3 text-left hover:bg-zinc-50 dark:hover:bg-zinc-900 transition-colors"
+                style={{ touchAction: 'manipulation' }}
+              >
+                {offlineEnabled ? (
+                  <span className="text-base font-medium text-red-600 dark:text-red-400">Turn off and remove downloads</span>
+                ) : (
+                  <span className="text-base font-medium text-accent">Turn on offline reading</span>
+                )}
+              </button>
+            </div>
+          </SettingsSection>
+
+          {/* Sync Section */}
+          <SettingsSection
+            title="Sync"
+            description={
+              syncEnabled
+                ? 'Trusted sources, read status and preferences sync across your paired devices.'
+                : 'Optionally sync trusted sources, read status and preferences across devices. No sign-up needed.'
+            }
+          >
+            <div className="border border-border/30 rounded-lg bg-background overflow-hidden divide-y divide-border/20">
+              {syncEnabled ? (
+                <>
+                  <button
+                    onClick={handleSyncNow}
+                    disabled={syncBusy}
+                    className="flex items-center justify-between w-full h-[44px] px-3 text-left hover:bg-zinc-50 dark:hover:bg-zinc-900 transition-colors disabled:opacity-50"
+                    style={{ touchAction: 'manipulation' }}
+                  >
+                    <span className="text-base font-medium text-accent">Sync now</span>
+                    {lastSyncedAt && (
+                      <span className="text-sm text-zinc-500 dark:text-zinc-400">
+                        Last synced {new Date(lastSyncedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                      </span>
+                    )}
+                  </button>
+                  {pairingCode ? (
+                    <div className="flex items-center justify-between h-[44px] px-3">
+                      <span className="text-base font-mono font-medium text-foreground tracking-widest">{pairingCode.code}</span>
+                      <span className="text-sm text-zinc-500 dark:text-zinc-400">Enter on your other device</span>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={handleShowPairingCode}
+                      disabled={syncBusy}
+                      className="flex items-center w-full h-[44px] px-3 text-left hover:bg-zinc-50 dark:hover:bg-zinc-900 transition-colors disabled:opacity-50"
+                      style={{ touchAction: 'manipulation' }}
+                    >
+                      <span className="text-base font-medium text-accent">Add another device</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={handleDisableSync}
+                    className="flex items-center w-full h-[44px] px-3 text-left hover:bg-zinc-50 dark:hover:bg-zinc-900 transition-colors"
+                    style={{ touchAction: 'manipulation' }}
+                  >
+                    <span className="text-base font-medium text-red-600 dark:text-red-400">Turn off on this device</span>
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button
+                    onClick={handleEnableSync}
+                    disabled={syncBusy}
+                    className="flex items-center w-full h-[44px] px-3 text-left hover:bg-zinc-50 dark:hover:bg-zinc-900 transition-colors disabled:opacity-50"
+                    style={{ touchAction: 'manipulation' }}
+                  >
+                    <span className="text-base font-medium text-accent">Turn on sync</span>
+                  </button>
+                  <div className="flex items-center gap-3 h-[44px] px-3">
+                    <input
+                      type="text"
+                      value={pairCodeInput}
+                      onChange={(e) => setPairCodeInput(e.target.value)}
+                      placeholder="Pairing code"
+                      autoCapitalize="characters"
+                      autoComplete="off"
+                      spellCheck={false}
+                      maxLength={12}
+                      className="flex-1 min-w-0 bg-transparent text-base text-foreground placeholder:text-zinc-400 outline-none uppercase"
+                    />
+                    <button
+                      onClick={handlePair}
+                      disabled={syncBusy || !pairCodeInput.trim()}
+                      className="shrink-0 text-sm font-medium text-accent disabled:opacity-50"
+                      style={{ touchAction: 'manipulation' }}
+                    >
+                      Pair
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          </SettingsSection>
+
+          {/* Backup Section */}
+          <SettingsSection
+            title="Backup"
+            description="Save sources, preferences and read status to a file, or load them from one. Merge adds to what's here; Replace overwrites it. OPML moves trusted sources to and from other feed readers."
+          >
+            <div className="border border-border/30 rounded-lg bg-background overflow-hidden divide-y divide-border/20">
+              <button
+                onClick={handleExport}
+                className="flex items-center w-full h-[44px] px-3 text-left hover:bg-zinc-50 dark:hover:bg-zinc-900 transition-colors"
+                style={{ touchAction: 'manipulation' }}
+              >
+                <span className="text-base font-medium text-accent">Export settings</span>
+              </button>
+              <button
+                onClick={() => handleImportClick('merge')}
+                className="flex items-center w-full h-[44px] px-3 text-left hover:bg-zinc-50 dark:hover:bg-zinc-900 transition-colors"
+                style={{ touchAction: 'manipulation' }}
+              >
+                <span className="text-base font-medium text-accent">Import and merge</span>
+              </button>
+              <button
+                onClick={() => handleImportClick('replace')}
+                className="flex items-center w-full h-[44px] px-3 text-left hover:bg-zinc-50 dark:hover:bg-zinc-900 transition-colors"
+                style={{ touchAction: 'manipulation' }}
+              >
+                <span className="text-base font-medium text-accent">Import and replace</span>
+              </button>
+              <button
+                onClick={handleExportOpml}
+                className="flex items-center w-full h-[44px] px-3 text-left hover:bg-zinc-50 dark:hover:bg-zinc-900 transition-colors"
+                style={{ touchAction: 'manipulation' }}
+              >
+                <span className="text-base font-medium text-accent">Export sources as OPML</span>
+              </button>
+              <button
+                onClick={() => opmlInputRef.current?.click()}
+                className="flex items-center w-full h-[44px] px-3 text-left hover:bg-zinc-50 dark:hover:bg-zinc-900 transition-colors"
+                style={{ touchAction: 'manipulation' }}
+              >
+                <span className="text-base font-medium text-accent">Import sources from OPML</span>
+              </button>
+            </div>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => handleImportFile(e.target.files?.[0])}
+              className="hidden"
+            />
+            <input
+              ref={opmlInputRef}
+              type="file"
+              accept=".opml,.xml,text/x-opml,text/xml,application/xml"
+              onChange={(e) => handleImportOpmlFile(e.target.files?.[0])}
+              className="hidden"
+            />
+          </SettingsSection>
+
           {/* Read Status Section */}
           <SettingsSection
             title="Read Status"
-            description="Control the blue dot read indicators. This only affects this device."
+            description={
+              syncEnabled
+                ? 'Control the blue dot read indicators on all your synced devices.'
+                : 'Control the blue dot read indicators. This only affects this device.'
+            }
             dividerAfter={false}
           >
             <div className="border border-border/30 rounded-lg bg-background overflow-hidden divide-y divide-border/20">
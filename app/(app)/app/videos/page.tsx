@@ -17,6 +17,9 @@ import { emitAppReady } from '../../../lib/appReady';
 import { VideoPlayerModal } from '../../../components/VideoPlayerModal';
 import { SystemToast } from '../../../components/SystemToast';
 import { trackEvent } from '../../../lib/analytics';
+import { getStoredTimeWindow } from '../../../lib/timeWindow';
+import { getStoredTeamId } from '../../../lib/teams';
+import { getSavedIds, saveVideo, removeSavedItem } from '../../../lib/savedItems';
 
 interface Video {
   id: string;
@@ -37,6 +40,16 @@ const DONATE_URL = 'https://buymeacoffee.com/sunsreader';
 const MIN_TRUSTED_MATCHES = 20;
 const MAX_PAGES = 3;
 
+/**
+ * Build a /api/videos URL for the user's selected team and time window.
+ */
+function videosUrl(params?: { pageToken?: string; refresh?: boolean }): string {
+  const search = new URLSearchParams({ team: getStoredTeamId(), window: getStoredTimeWindow() });
+  if (params?.pageToken) search.set('pageToken', params.pageToken);
+  if (params?.refresh) search.set('refresh', '1');
+  return `/api/videos?${search.toString()}`;
+}
+
 /**
  * Fetch with a client-side AbortController timeout.
  */
@@ -74,6 +87,7 @@ function VideosPageInner() {
   const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
   const [watchedVersion, setWatchedVersion] = useState(0);
   const [trustedChannelIds, setTrustedChannelIds] = useState<Set<string>>(new Set());
+  const [savedIds, setSavedIds] = useState<Set<string>>(new Set());
   const [selectedVideo, setSelectedVideo] = useState<{ id: string; title: string; url: string } | null>(null);
   const [toast, setToast] = useState({ message: '', visible: false });
   const toastTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -100,7 +114,7 @@ function VideosPageInner() {
    */
   const fetchVideos = useCallback(async (options?: { forceRefresh?: boolean }) => {
     try {
-      const url = options?.forceRefresh ? '/api/videos?refresh=1' : '/api/videos';
+      const url = videosUrl({ refresh: options?.forceRefresh });
       const res = await fetchWithTimeout(url, CLIENT_TIMEOUT_MS);
       if (!res.ok) {
         const body = await res.json().catch(() => null);
@@ -139,9 +153,7 @@ function VideosPageInner() {
 
     for (let page = 0; page < MAX_PAGES; page++) {
       try {
-        const url = token
-          ? `/api/videos?pageToken=${encodeURIComponent(token)}`
-          : '/api/videos';
+        const url = videosUrl({ pageToken: token });
         const res = await fetchWithTimeout(url, CLIENT_TIMEOUT_MS);
         if (!res.ok) {
           const body = await res.json().catch(() => null);
@@ -232,7 +244,7 @@ function VideosPageInner() {
     setLoadMoreError(null);
     try {
       const res = await fetchWithTimeout(
-        `/api/videos?pageToken=${encodeURIComponent(nextPageToken)}`,
+        videosUrl({ pageToken: nextPageToken }),
         CLIENT_TIMEOUT_MS
       );
       if (!res.ok) {
@@ -281,14 +293,20 @@ function VideosPageInner() {
     const handleTrustedVideoSourcesChange = () => {
       rehydrateTrustedChannelIds();
     };
+    const handleSavedItemsChange = () => {
+      setSavedIds(getSavedIds());
+    };
+    handleSavedItemsChange();
 
     window.addEventListener('storage', handleStorageChange);
     window.addEventListener('videoWatchedStateChanged', handleWatchedStateChange);
     window.addEventListener('trustedVideoSourcesChanged', handleTrustedVideoSourcesChange);
+    window.addEventListener('savedItemsChanged', handleSavedItemsChange);
     return () => {
       window.removeEventListener('storage', handleStorageChange);
       window.removeEventListener('videoWatchedStateChanged', handleWatchedStateChange);
       window.removeEventListener('trustedVideoSourcesChanged', handleTrustedVideoSourcesChange);
+      window.removeEventListener('savedItemsChanged', handleSavedItemsChange);
     };
   }, [rehydrateTrustedChannelIds]);
 
@@ -322,6 +340,18 @@ function VideosPageInner() {
     trackEvent('video_open', { source: video.channelTitle, videoId: video.id });
   }, []);
 
+  const handleToggleSave = useCallback((video: Video) => {
+    if (getSavedIds().has(video.id)) {
+      removeSavedItem(video.id);
+      showToast('Removed from Saved');
+    } else if (saveVideo(video)) {
+      showToast('Saved');
+      trackEvent('item_save', { kind: 'video', videoId: video.id });
+    } else {
+      showToast('Could Not Save');
+    }
+  }, [showToast]);
+
   if (!mounted) {
     return null;
   }
@@ -467,6 +497,8 @@ function VideosPageInner() {
                   showAddToTrusted={false}
                   trustedChannelIds={trustedChannelIds}
                   onVideoClick={handleVideoClick}
+                  savedIds={savedIds}
+                  onToggleSave={handleToggleSave}
                 />
                 {nextPageToken ? (
                   <div className="px-4 py-4 flex flex-col items-center gap-2">
@@ -507,6 +539,8 @@ function VideosPageInner() {
                 onAddToTrusted={handleAddToTrusted}
                 trustedChannelIds={trustedChannelIds}
                 onVideoClick={handleVideoClick}
+                savedIds={savedIds}
+                onToggleSave={handleToggleSave}
               />
               {nextPageToken ? (
                 <div className="px-4 py-4 flex flex-col items-center gap-2">
@@ -1,10 +1,12 @@
 import { SplashOverlay } from '../components/SplashOverlay';
+import { SyncManager } from '../components/SyncManager';
 
 /**
  * Layout for app routes (/app, /app/reader, /app/settings)
  * Server component so that the splash overlay is server-rendered static HTML
  * and paints on the very first frame (no JS dependency).
- * Also applies mobile scroll-lock to prevent iOS Safari rubber-banding.
+ * Also applies mobile scroll-lock to prevent iOS Safari rubber-banding,
+ * and runs optional cross-device sync (SyncManager).
  * This does NOT apply to marketing pages (/ and /home).
  */
 export default function AppLayout({
@@ -64,6 +66,7 @@ export default function AppLayout({
         />
       </div>
       <SplashOverlay />
+      <SyncManager />
       {children}
     </>
   );
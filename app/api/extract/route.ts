@@ -1,6 +1,4 @@
 import { NextResponse } from 'next/server';
-import { JSDOM } from 'jsdom';
-import { Readability } from '@mozilla/readability';
 import { randomUUID } from 'crypto';
 import {
   recordTelemetry,
@@ -9,7 +7,7 @@ import {
   TelemetryReason,
   isPlaywrightCandidate,
 } from '../../lib/telemetry';
-import { healthLog, safeHost, normalizeError } from '../../lib/healthLog';
+import { healthLog, safeHost, normalizeError, ExtractMethod } from '../../lib/healthLog';
 import {
   normalizeUrl,
   getCachedExtract,
@@ -17,10 +15,41 @@ import {
   buildCachedPayload,
   KV_TTL_SEC,
 } from '../../lib/extractKvCache';
+import {
+  ExtractRule,
+  getExtractRule,
+  blockedErrorMessage,
+  isShellPage,
+} from '../../lib/extractRules';
+import {
+  ExtractCandidate,
+  ExtractPage,
+  PipelineOutcome,
+  createExtractPage,
+  runExtractStrategies,
+  extractMethodFor,
+} from '../../lib/extractStrategies';
+import { PageVariant, PageVariantKind, findPageVariants } from '../../lib/extractVariants';
+import { MAX_ARTICLE_PAGES, findNextPageUrl, stitchPages } from '../../lib/extractPagination';
+import { hasStrongPaywallSignal } from '../../lib/paywallDetect';
+import type { LeadImage } from '../../lib/leadImage';
+import { validateUrl } from '../../lib/urlSafety';
+import { httpRequest, readText, BROWSER_HEADERS } from '../../lib/httpClient';
+import { PAGE_ACTIONS_BUDGET_MS, runPageActions } from '../../lib/pageActions';
+import { StageReporter, ignoreStage, streamStages } from '../../lib/extractProgress';
+import type { BrowserLease } from '../../lib/browserPool';
 
 // Local only; disabled on Vercel. Set ENABLE_PLAYWRIGHT=1 to enable Playwright fallback.
 const ENABLE_PLAYWRIGHT = process.env.ENABLE_PLAYWRIGHT === '1';
 
+// Browser-like headers for server-side fetches
+const FETCH_HEADERS = {
+  ...BROWSER_HEADERS,
+  'Referer': 'https://www.google.com/',
+};
+const FETCH_TIMEOUT_MS = 10000; // per attempt, body included
+const MAX_HTML_LENGTH = 2 * 1024 * 1024; // 2MB
+
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
@@ -34,6 +63,11 @@ interface ExtractResult {
   textContent?: string;
   excerpt?: string;
   length?: number;
+  authors?: string[];
+  publishedAt?: string; // ISO 8601, from JSON-LD or page metadata
+  modifiedAt?: string;
+  leadImage?: LeadImage; // hero image with alt text / caption
+  pageCount?: number;    // pages stitched into the result (multi-page articles only)
   error?: string | null;
   // Debug fields
   fetchedUrl?: string | null;
@@ -87,6 +121,11 @@ function buildExtractResponse(overrides: Partial<ExtractResult>): ExtractResult
   if (overrides.byline !== undefined) base.byline = overrides.byline;
   if (overrides.siteName !== undefined) base.siteName = overrides.siteName;
   if (overrides.excerpt !== undefined) base.excerpt = overrides.excerpt;
+  if (overrides.authors !== undefined) base.authors = overrides.authors;
+  if (overrides.publishedAt !== undefined) base.publishedAt = overrides.publishedAt;
+  if (overrides.modifiedAt !== undefined) base.modifiedAt = overrides.modifiedAt;
+  if (overrides.leadImage !== undefined) base.leadImage = overrides.leadImage;
+  if (overrides.pageCount !== undefined) base.pageCount = overrides.pageCount;
 
   return base;
 }
@@ -133,8 +172,10 @@ interface FinalizeContext {
   httpStatus?: number;
   isRefreshBypass?: boolean;
   computeStartedAt?: number;
-  extractMethod?: 'readability' | 'fallback' | 'playwright_readability' | 'playwright_fallback' | 'none';
+  extractMethod?: ExtractMethod;
   fallbackUsed?: boolean;
+  pageVariant?: PageVariantKind;
+  pageCount?: number;
   cacheStatus?: 'hit' | 'miss' | 'bypass' | 'none';
   cacheMode?: 'normal' | 'refresh_bypass';
   cacheLayer?: 'l1' | 'l2';
@@ -144,6 +185,7 @@ interface FinalizeContext {
   readabilityOk?: boolean;
   qualityGatePassed?: boolean;
   blockedDetected?: boolean;
+  browserLease?: BrowserLease;
 }
 
 /**
@@ -161,6 +203,8 @@ function finalize(ctx: FinalizeContext): NextResponse<ExtractResult> {
     computeStartedAt,
     extractMethod,
     fallbackUsed,
+    pageVariant,
+    pageCount,
     cacheStatus: ctxCacheStatus,
     cacheMode: ctxCacheMode,
     cacheLayer,
@@ -170,6 +214,7 @@ function finalize(ctx: FinalizeContext): NextResponse<ExtractResult> {
     readabilityOk: ctxReadabilityOk,
     qualityGatePassed: ctxQualityGatePassed,
     blockedDetected: ctxBlockedDetected,
+    browserLease,
   } = ctx;
   // Compute metrics from payload
   const host = (() => {
@@ -247,8 +292,12 @@ function finalize(ctx: FinalizeContext): NextResponse<ExtractResult> {
     readabilityOk: derivedReadabilityOk,
     qualityGatePassed: derivedQualityGate,
     playwrightUsed: payload.playwrightUsed || false,
+    playwrightBrowser: browserLease?.browser,
+    playwrightQueueMs: browserLease?.queueWaitMs,
     extractMethod: extractMethod ?? 'none',
     fallbackUsed: fallbackUsed ?? false,
+    pageVariant,
+    pageCount,
     cacheStatus: derivedCacheStatus,
     cacheMode: derivedCacheMode,
     cacheLayer,
@@ -278,10 +327,6 @@ function cleanCache() {
   }
 }
 
-// Known domains that frequently block server-side fetches or require JavaScript rendering
-const KNOWN_BLOCKED_DOMAINS = ['espn.com', 'espn.go.com'];
-const JS_REQUIRED_DOMAINS = ['espn.com', 'espn.go.com']; // Domains that need JS to render content properly
-
 /**
  * Detect if a response indicates blocking by CDN or anti-bot protection
  */
@@ -294,8 +339,8 @@ function isBlockedResponse(status: number, hostname: string, headers: Headers, b
 
   // 404 on known blocked domains with CDN hints
   if (status === 404) {
-    // Check if it's a known problematic domain
-    const isKnownBlockedDomain = KNOWN_BLOCKED_DOMAINS.some(domain => hostname.includes(domain));
+    // Check if it's a known problematic domain (see extractRules.ts)
+    const isKnownBlockedDomain = !!getExtractRule(hostname)?.blocked;
 
     // Check for CDN blocking headers/patterns
     const server = headers.get('server')?.toLowerCase() || '';
@@ -325,201 +370,47 @@ function isBlockedResponse(status: number, hostname: string, headers: Headers, b
   return false;
 }
 
-/**
- * Check if a domain requires JavaScript rendering for proper content extraction
- */
-function requiresJavaScript(hostname: string): boolean {
-  return JS_REQUIRED_DOMAINS.some(domain => hostname.includes(domain));
-}
-
-/**
- * Detect if ESPN returned a shell page instead of actual article content
- */
-function isESPNShellPage(html: string, title: string): boolean {
-  const lowerTitle = title.toLowerCase();
-  const lowerHtml = html.toLowerCase();
-
-  // Check for generic ESPN title
-  if (lowerTitle.includes('espn - serving sports fans') ||
-      lowerTitle === 'espn' ||
-      lowerTitle === 'espn.com') {
-    console.log('[Extract] ESPN shell page detected via title:', title);
-
-    // Verify it's actually a shell by checking content
-    const hasNFLScoreboard = lowerHtml.includes('nfl') && lowerHtml.includes('scoreboard');
-    const hasSeeAll = lowerHtml.includes('see all') && lowerHtml.includes('scores');
-    const lacksStoryMarkers = !lowerHtml.includes('story') &&
-                               !lowerHtml.includes('article') &&
-                               lowerHtml.split('<p>').length < 5; // Few paragraphs
-
-    if (hasNFLScoreboard || hasSeeAll || lacksStoryMarkers) {
-      return true;
-    }
-  }
-
-  return false;
-}
-
-/**
- * Detect ESPN shell pages from Readability results (before quality gate)
- * Catches false positives like "null - ESPN" titles that pass quality gates
- */
-function isEspnShellResult(params: {
-  title: string;
-  textContent: string;
-  contentHtml: string;
-  isEspnDomain: boolean;
-}): boolean {
-  if (!params.isEspnDomain) return false;
-
-  const title = (params.title ?? '').trim();
-  const lowerTitle = title.toLowerCase();
-
-  // Detect "null - ESPN" or similar malformed titles
-  if (title.startsWith('null') ||
-      title.startsWith('undefined') ||
-      lowerTitle === 'espn' ||
-      lowerTitle === 'espn.com' ||
-      (lowerTitle.includes('- espn') && (lowerTitle.includes('null') || lowerTitle.includes('undefined')))) {
-    console.log('[Extract] ESPN shell result detected via malformed title:', title);
-    return true;
-  }
-
-  // Detect JSON error payload in content
-  const text = (params.textContent ?? '').trim();
-  if (text.startsWith('{') &&
-      (text.includes('"status":404') || text.includes('"status": 404')) &&
-      text.includes('"error"')) {
-    console.log('[Extract] ESPN shell result detected via JSON error payload');
-    return true;
-  }
-
-  // Detect very short content that looks like a shell page
-  const html = (params.contentHtml ?? '').trim();
-  if (html.length < 500 && text.length < 300) {
-    console.log('[Extract] ESPN shell result detected via insufficient content');
-    return true;
-  }
-
-  return false;
-}
-
 /**
  * Fetch HTML using Playwright when regular fetch is blocked.
  * Local only; disabled on Vercel. Returns null if Playwright is disabled.
+ * Renders in the shared browser pool; `onLease` receives its queue wait and
+ * whether the browser was launched or reused.
  */
-async function fetchWithPlaywright(url: string): Promise<{ html: string; finalUrl: string } | null> {
+async function fetchWithPlaywright(
+  url: string,
+  onStage: StageReporter = ignoreStage,
+  onLease?: (lease: BrowserLease) => void
+): Promise<{ html: string; finalUrl: string } | null> {
   // Skip Playwright if not enabled (e.g., on Vercel)
   if (!ENABLE_PLAYWRIGHT) {
     console.log('[Extract] Playwright disabled (ENABLE_PLAYWRIGHT not set)');
     return null;
   }
 
+  onStage('headless');
+
   console.log('[Extract] Attempting Playwright fallback for:', url);
 
   // Dynamic import to avoid bundling Playwright on Vercel
-  const { chromium } = await import('playwright');
-
-  let browser;
-  try {
-    const urlObj = new URL(url);
-    const isESPN = urlObj.hostname.includes('espn.com');
-
-    browser = await chromium.launch({
-      headless: true,
-      args: ['--no-sandbox', '--disable-setuid-sandbox'],
-    });
-
-    const context = await browser.newContext({
-      userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      extraHTTPHeaders: {
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.9',
-        'Sec-Fetch-Dest': 'document',
-        'Sec-Fetch-Mode': 'navigate',
-        'Sec-Fetch-Site': 'none',
-      },
-    });
+  const { withBrowserPage } = await import('../../lib/browserPool');
+  const rule = getExtractRule(new URL(url).hostname);
+  const navigationTimeoutMs = rule?.navigationTimeoutMs ?? 15000;
 
-    const page = await context.newPage();
+  return withBrowserPage(async page => {
+    if (rule?.headers) {
+      await page.setExtraHTTPHeaders(rule.headers);
+    }
 
-    // Navigate with longer timeout for ESPN
+    // Navigate (slow sites set a longer timeout in their rule)
     await page.goto(url, {
       waitUntil: 'domcontentloaded',
-      timeout: isESPN ? 45000 : 15000
+      timeout: navigationTimeoutMs
     });
 
-    // ESPN-specific: Wait for article content to load
-    if (isESPN) {
-      console.log('[Extract] ESPN detected, waiting for article content...');
-
-      // Try multiple article selectors in order
-      const articleSelectors = [
-        'article',
-        '[data-testid="article-body"]',
-        '[class*="Article__Content"]',
-        'main article',
-        'section article',
-      ];
-
-      let articleFound = false;
-
-      // First attempt: try selectors with reasonable timeout
-      for (const selector of articleSelectors) {
-        try {
-          await page.waitForSelector(selector, { timeout: 8000 });
-          console.log(`[Extract] ESPN article found with selector: ${selector}`);
-          articleFound = true;
-          break;
-        } catch {
-          // Continue to next selector
-        }
-      }
-
-      // If no article found, try scrolling and waiting
-      if (!articleFound) {
-        console.log('[Extract] Article not found, trying scroll and retry...');
-
-        // Wait a bit for dynamic content
-        await page.waitForTimeout(3000);
-
-        // Scroll down to trigger lazy loading
-        await page.evaluate(() => {
-          window.scrollBy(0, 500);
-        });
-        await page.waitForTimeout(1000);
-
-        await page.evaluate(() => {
-          window.scrollBy(0, 500);
-        });
-        await page.waitForTimeout(1000);
-
-        // Wait for network idle
-        await page.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {
-          console.log('[Extract] Network idle timeout after scroll (non-fatal)');
-        });
-
-        // Retry selectors once
-        for (const selector of articleSelectors) {
-          try {
-            await page.waitForSelector(selector, { timeout: 5000 });
-            console.log(`[Extract] ESPN article found on retry with selector: ${selector}`);
-            articleFound = true;
-            break;
-          } catch {
-            // Continue to next selector
-          }
-        }
-      }
-
-      if (!articleFound) {
-        console.warn('[Extract] ESPN article content not found with any selector');
-      }
-    } else {
-      // Non-ESPN: just wait for network idle
-      await page.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {
-        console.log('[Extract] Network idle timeout (non-fatal)');
-      });
+    // Consent overlays, lazy content, late hydration: the site's configured steps
+    const actions = await runPageActions(page, rule);
+    if (actions.length > 0) {
+      console.log('[Extract] Page actions:', actions.join(', '));
     }
 
     const html = await page.content();
@@ -528,291 +419,121 @@ async function fetchWithPlaywright(url: string): Promise<{ html: string; finalUr
     console.log('[Extract] Playwright fetch successful:', finalUrl);
 
     return { html, finalUrl };
-  } finally {
-    if (browser) {
-      await browser.close();
-    }
-  }
+  }, {
+    // Navigation, page actions, and the last (possibly overrunning) action
+    timeoutMs: navigationTimeoutMs + PAGE_ACTIONS_BUDGET_MS + 15000,
+    onLease,
+  });
 }
 
-function isPrivateIP(hostname: string): boolean {
-  // Reject localhost
-  if (hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '0.0.0.0') {
-    return true;
-  }
-
-  // Check for private IP ranges
-  const ipv4Regex = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
-  const match = hostname.match(ipv4Regex);
-
-  if (match) {
-    const [, a, b] = match.map(Number);
-
-    // 10.0.0.0/8
-    if (a === 10) return true;
-
-    // 172.16.0.0/12
-    if (a === 172 && b >= 16 && b <= 31) return true;
-
-    // 192.168.0.0/16
-    if (a === 192 && b === 168) return true;
-
-    // 127.0.0.0/8
-    if (a === 127) return true;
+/**
+ * Fetch and parse a page related to the article (AMP / print version, next page).
+ * `label` names it in logs. Returns null if it can't be fetched as HTML.
+ */
+async function fetchRelatedPage(
+  url: string,
+  label: string,
+  rule: ExtractRule | null,
+  variant?: ExtractPage['variant']
+): Promise<ExtractPage | null> {
+  const { response, url: finalUrl, redirectChain, error } = await httpRequest(url, {
+    headers: { ...FETCH_HEADERS, ...rule?.headers },
+    timeoutMs: FETCH_TIMEOUT_MS,
+    polite: { robots: true },
+  });
+  if (!response) {
+    console.log(`[Extract] ${label} fetch failed:`, error);
+    return null;
   }
 
-  return false;
-}
-
-function validateUrl(urlString: string): { valid: boolean; error?: string; url?: URL } {
   try {
-    const url = new URL(urlString);
-
-    // Check protocol
-    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
-      return { valid: false, error: 'Only HTTP and HTTPS protocols are supported' };
+    const contentType = response.headers.get('content-type') || '';
+    if (!response.ok || !contentType.includes('html')) {
+      console.log(`[Extract] ${label} unavailable:`, response.status, contentType);
+      await response.body?.cancel().catch(() => {});
+      return null;
     }
 
-    // Check for private IPs
-    if (isPrivateIP(url.hostname)) {
-      return { valid: false, error: 'Private IP addresses are not allowed' };
-    }
-
-    return { valid: true, url };
+    const html = await readText(response, MAX_HTML_LENGTH);
+    if (html === null) return null;
+
+    return createExtractPage({
+      url: finalUrl,
+      status: response.status,
+      contentType,
+      html,
+      rule,
+      playwrightUsed: false,
+      redirectCount: redirectChain.length,
+      variant,
+    });
   } catch (error) {
-    return { valid: false, error: 'Invalid URL format' };
+    console.log(`[Extract] ${label} fetch failed:`, error instanceof Error ? error.message : error);
+    return null;
   }
 }
 
-function isGoogleNewsUrl(url: URL): boolean {
-  // ONLY match URLs actually hosted on news.google.com
-  // DO NOT match publisher URLs that happen to have /news/ in path
-  return url.hostname === 'news.google.com';
-}
-
 /**
- * Normalize Google News RSS wrapper URL to standard article URL
- * Example: /rss/articles/CBMi... -> /articles/CBMi...
+ * Fetch and parse an AMP / print version of an article
  */
-function normalizeGoogleNewsUrl(urlString: string): string {
-  try {
-    const url = new URL(urlString);
-
-    // Check if it's a Google News RSS wrapper URL
-    if (url.hostname === 'news.google.com' && url.pathname.startsWith('/rss/articles/')) {
-      // Convert /rss/articles/ to /articles/
-      const token = url.pathname.replace('/rss/articles/', '');
-      const normalized = `https://news.google.com/articles/${token}`;
-      console.log('[Extract] Normalized Google News RSS URL:', urlString, '->', normalized);
-      return normalized;
-    }
-
-    return urlString;
-  } catch {
-    return urlString;
-  }
+function fetchVariantPage(variant: PageVariant, articleUrl: string, rule: ExtractRule | null): Promise<ExtractPage | null> {
+  return fetchRelatedPage(variant.url, `${variant.kind} variant`, rule, { kind: variant.kind, articleUrl });
 }
 
 /**
- * Extract publisher URL from Google News HTML
- * Supports multiple patterns:
- * 1. google.com/url?...&url=<encoded_publisher_url>
- * 2. Direct outbound links (non-Google)
- * 3. Canonical/og:url (non-Google)
+ * Follow a multi-page article's next-page links (up to MAX_ARTICLE_PAGES)
+ * and stitch the pages onto the first page's candidate. Stops at the first
+ * page that doesn't extract cleanly.
  */
-function findPublisherUrlFromGoogleNews(html: string, baseUrl: string): string | null {
-  console.log('[Extract] Searching for publisher URL in Google News HTML...');
-
-  // Pattern 1: Look for google.com/url redirect links with url= parameter
-  // Example: https://www.google.com/url?rct=j&sa=t&url=https%3A%2F%2Fwww.example.com%2Farticle
-  const googleUrlPattern = /https?:\/\/(?:www\.)?google\.com\/url\?[^"'\s]*url=([^&"'\s]+)/gi;
-  let match;
-
-  while ((match = googleUrlPattern.exec(html)) !== null) {
-    try {
-      const encodedUrl = match[1];
-      const decodedUrl = decodeURIComponent(encodedUrl);
-
-      // Validate it's a real URL and not a Google domain
-      const testUrl = new URL(decodedUrl);
-      if (!testUrl.hostname.includes('google.com') &&
-          (testUrl.protocol === 'http:' || testUrl.protocol === 'https:')) {
-        console.log('[Extract] Found publisher URL via google.com/url redirect:', decodedUrl);
-        return decodedUrl;
-      }
-    } catch {
-      // Invalid URL, continue searching
+async function stitchNextPages(
+  page: ExtractPage,
+  first: ExtractCandidate,
+  onStage: StageReporter = ignoreStage
+): Promise<{ candidate: ExtractCandidate; pageCount: number }> {
+  const pages = [first];
+  const visited = new Set([normalizeUrl(page.url)]);
+  let nextUrl = findNextPageUrl(page.document, page.url);
+
+  while (nextUrl && pages.length < MAX_ARTICLE_PAGES && !visited.has(normalizeUrl(nextUrl))) {
+    visited.add(normalizeUrl(nextUrl));
+    onStage('paginating', `page ${pages.length + 1}`);
+    const nextPage = await fetchRelatedPage(nextUrl, `page ${pages.length + 1}`, page.rule);
+    if (!nextPage) break;
+
+    const outcome = runExtractStrategies(nextPage);
+    if (outcome.kind !== 'ok') {
+      console.log(`[Extract] Page ${pages.length + 1} not extracted (${outcome.kind}), stopping at ${pages.length}:`, nextUrl);
+      break;
     }
+    pages.push(outcome.candidate);
+    nextUrl = findNextPageUrl(nextPage.document, nextPage.url);
   }
 
-  // Pattern 2: Use JSDOM to parse structured data
-  try {
-    const dom = new JSDOM(html, { url: baseUrl });
-    const doc = dom.window.document;
-
-    // Try canonical link (non-Google)
-    const canonical = doc.querySelector('link[rel="canonical"]');
-    if (canonical) {
-      const href = canonical.getAttribute('href');
-      if (href && !href.includes('google.com')) {
-        try {
-          const canonicalUrl = new URL(href, baseUrl);
-          console.log('[Extract] Found publisher URL via canonical:', canonicalUrl.href);
-          return canonicalUrl.href;
-        } catch {
-          // Invalid URL
-        }
-      }
-    }
-
-    // Try og:url meta tag (non-Google)
-    const ogUrl = doc.querySelector('meta[property="og:url"]');
-    if (ogUrl) {
-      const content = ogUrl.getAttribute('content');
-      if (content && !content.includes('google.com')) {
-        try {
-          const ogUrlParsed = new URL(content, baseUrl);
-          console.log('[Extract] Found publisher URL via og:url:', ogUrlParsed.href);
-          return ogUrlParsed.href;
-        } catch {
-          // Invalid URL
-        }
-      }
-    }
-
-    // Pattern 3: Scan for first real outbound link (non-Google, non-relative)
-    const links = Array.from(doc.querySelectorAll('a[href]'));
-    for (const link of links) {
-      const href = link.getAttribute('href');
-      if (href && (href.startsWith('http://') || href.startsWith('https://'))) {
-        try {
-          const linkUrl = new URL(href);
-          if (!linkUrl.hostname.includes('google.com') &&
-              linkUrl.pathname !== '/' &&
-              linkUrl.pathname !== '') {
-            console.log('[Extract] Found publisher URL via outbound link:', linkUrl.href);
-            return linkUrl.href;
-          }
-        } catch {
-          // Invalid URL
-        }
-      }
-    }
-  } catch (error) {
-    console.error('[Extract] Error parsing Google News HTML with JSDOM:', error);
+  if (pages.length > 1) {
+    console.log(`[Extract] Stitched ${pages.length} pages:`, page.url);
   }
-
-  console.log('[Extract] No publisher URL found in Google News HTML');
-  return null;
+  return { candidate: stitchPages(pages), pageCount: pages.length };
 }
 
 /**
- * Decode Google News article token to extract embedded publisher URL
- * Many tokens (especially those starting with "CBMi") contain base64-encoded publisher URLs
+ * Debug details for ?debug=1 responses
  */
-function decodePublisherUrlFromToken(token: string): string | null {
-  console.log('[Extract] Attempting token decode fallback...');
-
-  try {
-    // Handle URL-safe base64 (replace - with +, _ with /)
-    let base64 = token.replace(/-/g, '+').replace(/_/g, '/');
-
-    // Add padding if needed
-    while (base64.length % 4 !== 0) {
-      base64 += '=';
-    }
-
-    // Try to decode
-    let decoded: string;
-    try {
-      // Try Node.js Buffer decode
-      decoded = Buffer.from(base64, 'base64').toString('utf-8');
-    } catch {
-      // Fallback to atob if Buffer fails
-      try {
-        decoded = atob(base64);
-      } catch {
-        console.log('[Extract] Token decode failed: Unable to base64 decode');
-        return null;
-      }
-    }
-
-    // Search for URL pattern in decoded string
-    const urlMatch = decoded.match(/(https?:\/\/[^\s\x00-\x1f\x7f"'<>]+)/);
-    if (urlMatch) {
-      const candidateUrl = urlMatch[1];
-
-      // Validate it's a real URL and not a Google domain
-      try {
-        const testUrl = new URL(candidateUrl);
-        if (!testUrl.hostname.includes('google.com') &&
-            (testUrl.protocol === 'http:' || testUrl.protocol === 'https:') &&
-            testUrl.pathname !== '/' &&
-            testUrl.pathname !== '') {
-          console.log('[Extract] Token decode found URL:', candidateUrl);
-          return candidateUrl;
-        } else {
-          console.log('[Extract] Token decode found URL but it was invalid (Google domain or homepage):', candidateUrl);
-        }
-      } catch {
-        console.log('[Extract] Token decode found string but it was not a valid URL:', candidateUrl);
-      }
-    } else {
-      console.log('[Extract] Token decode failed: No URL pattern found in decoded string');
-    }
-
-    return null;
-  } catch (error) {
-    console.log('[Extract] Token decode failed with error:', error instanceof Error ? error.message : String(error));
-    return null;
-  }
-}
-
-function fallbackExtract(doc: Document): { html: string; text: string } | null {
-  // Try semantic elements first
-  const candidates = [
-    doc.querySelector('article'),
-    doc.querySelector('main'),
-    doc.querySelector('[itemprop="articleBody"]'),
-  ];
-
-  for (const elem of candidates) {
-    if (elem && elem.textContent && elem.textContent.trim().length > 400) {
-      return {
-        html: elem.innerHTML,
-        text: elem.textContent.trim(),
-      };
-    }
-  }
-
-  // Find largest div by text content
-  const allDivs = Array.from(doc.querySelectorAll('div'));
-  const excludeTags = ['nav', 'header', 'footer', 'aside'];
-
-  let largestDiv: HTMLElement | null = null;
-  let maxLength = 0;
-
-  for (const div of allDivs) {
-    // Skip if inside excluded elements
-    if (excludeTags.some(tag => div.closest(tag))) {
-      continue;
-    }
-
-    const textLength = div.textContent?.trim().length || 0;
-    if (textLength > maxLength) {
-      maxLength = textLength;
-      largestDiv = div;
-    }
-  }
-
-  if (largestDiv && maxLength > 400) {
-    return {
-      html: largestDiv.innerHTML,
-      text: largestDiv.textContent?.trim() || '',
-    };
-  }
-
-  return null;
+function buildDebugInfo(inputUrl: string, page: ExtractPage, outcome: PipelineOutcome): ExtractResult['debug'] {
+  const readability = outcome.attempts.find(a => a.strategy === 'readability')?.candidate;
+  return {
+    inputHost: new URL(inputUrl).hostname,
+    finalHost: new URL(page.url).hostname,
+    httpStatus: page.status,
+    contentType: page.contentType,
+    fetchedUrl: page.url,
+    redirectChainCount: page.redirectCount ?? (page.url !== inputUrl ? 1 : 0),
+    htmlLength: page.html.length,
+    htmlHead: page.html.substring(0, 300),
+    pageTitle: page.pageTitle,
+    readabilityTitle: readability?.title || '',
+    readabilityTextLength: readability?.textContent.length || 0,
+    readabilityTextHead: (readability?.textContent || '').substring(0, 200),
+  };
 }
 
 export async function POST(request: Request) {
@@ -845,6 +566,18 @@ export async function POST(request: Request) {
 }
 
 export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  if (searchParams.get('stream') === '1') {
+    return streamStages(async report => (await extractArticle(request, report)).json());
+  }
+  return extractArticle(request);
+}
+
+/**
+ * The extraction pipeline behind GET. Reports progress to `onStage`
+ * for streaming requests (?stream=1).
+ */
+async function extractArticle(request: Request, onStage: StageReporter = ignoreStage) {
   const requestId = randomUUID();
   const telReqId = generateReqId(); // Short ID for telemetry correlation
   const startedAt = Date.now();
@@ -934,6 +667,11 @@ export async function GET(request: Request) {
             textContent: kvCached.textContent,
             excerpt: kvCached.excerpt,
             length: kvCached.length,
+            authors: kvCached.authors,
+            publishedAt: kvCached.publishedAt,
+            modifiedAt: kvCached.modifiedAt,
+            leadImage: kvCached.leadImage,
+            pageCount: kvCached.pageCount,
             fetchedUrl: kvCached.normalizedUrl,
           });
 
@@ -971,1088 +709,249 @@ export async function GET(request: Request) {
 
     console.log('[Extract] Input URL:', urlParam);
 
-    const isGoogleNews = isGoogleNewsUrl(validation.url!);
-
-    // Normalize Google News RSS wrapper URLs (/rss/articles/ -> /articles/)
-    let normalizedUrl = urlParam;
-    if (isGoogleNews) {
-      normalizedUrl = normalizeGoogleNewsUrl(urlParam);
-    }
-
-    // Safety check: Detect non-Google homepage URLs (should not happen with wrapper URLs)
-    if (!isGoogleNews) {
-      const urlObj2 = new URL(urlParam);
-      if (urlObj2.pathname === '/' || urlObj2.pathname === '') {
-        console.warn('[Extract] WARNING: Received homepage URL instead of article URL:', urlParam);
-        return finalize({
-          requestId,
-          startedAt,
-          inputUrl: urlParam,
-          payload: buildExtractResponse({
-            success: false,
-            url: urlParam,
-            status: 'invalid_url',
-            error: 'Homepage URL: This appears to be a site homepage, not an article. Please report this issue.',
-            fetchedUrl: urlParam,
-            resolvedUrl: urlParam,
-          }),
-          computeStartedAt,
-          extractMethod: 'none',
-        });
-      }
+    // Safety check: Detect homepage URLs (should not happen with article URLs)
+    const inputUrl = validation.url!;
+    if (inputUrl.pathname === '/' || inputUrl.pathname === '') {
+      console.warn('[Extract] WARNING: Received homepage URL instead of article URL:', urlParam);
+      return finalize({
+        requestId,
+        startedAt,
+        inputUrl: urlParam,
+        payload: buildExtractResponse({
+          success: false,
+          url: urlParam,
+          status: 'invalid_url',
+          error: 'Homepage URL: This appears to be a site homepage, not an article. Please report this issue.',
+          fetchedUrl: urlParam,
+          resolvedUrl: urlParam,
+        }),
+        computeStartedAt,
+        extractMethod: 'none',
+      });
     }
 
-    // Handle Google News wrapper URLs - unwrap to publisher URL first
-    if (isGoogleNews) {
-      console.log('[Extract] Detected Google News URL, unwrapping to publisher...');
+    const rule = getExtractRule(inputUrl.hostname);
 
-      // Add query parameters for better unwrapping
-      const urlWithParams = normalizedUrl.includes('?')
-        ? `${normalizedUrl}&hl=en-US&gl=US&ceid=US:en`
-        : `${normalizedUrl}?hl=en-US&gl=US&ceid=US:en`;
+    // Browser pool stats for the health log, set if Playwright renders the page
+    let browserLease: BrowserLease | undefined;
+    const onLease = (lease: BrowserLease) => { browserLease = lease; };
 
-      let publisherUrlFromRedirect: string | null = null;
-
-      // Method 1: Try manual redirect to capture Location header
-      console.log('[Extract] Attempting manual redirect unwrap...');
-      const controller1a = new AbortController();
-      const timeout1a = setTimeout(() => controller1a.abort(), 10000);
+    /**
+     * Report a site that blocks reader mode (shell page, or nothing extractable after Playwright)
+     */
+    const respondBlocked = (page: ExtractPage, blockedRule: ExtractRule) => finalize({
+      requestId,
+      startedAt,
+      inputUrl: urlParam,
+      payload: buildExtractResponse({
+        success: false,
+        url: urlParam,
+        status: "blocked",
+        error: blockedErrorMessage(blockedRule),
+        fetchedUrl: urlParam,
+        resolvedUrl: page.url,
+        contentType: page.contentType,
+        playwrightUsed: page.playwrightUsed,
+        pageTitle: page.pageTitle,
+      }),
+      isRefreshBypass: refreshMode,
+      computeStartedAt,
+      extractMethod: 'none',
+      httpStatus: page.status,
+      blockedDetected: true,
+      browserLease,
+    });
 
-      try {
-        const manualRedirectResponse = await fetch(urlWithParams, {
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-            'Accept-Language': 'en-US,en;q=0.9',
-          },
-          signal: controller1a.signal,
-          redirect: 'manual',
-        });
+    /**
+     * Turn the strategy pipeline outcome for a page into the response.
+     * The one place results are gated, cached and finalized.
+     * Multi-page articles are stitched here, so the combined result is
+     * cached under the first page's URL.
+     */
+    const respondWithOutcome = async (page: ExtractPage, outcome: PipelineOutcome) => {
+      const pageFields = {
+        fetchedUrl: urlParam,
+        resolvedUrl: page.url,
+        contentType: page.contentType,
+        pageTitle: page.pageTitle,
+        textPreview: page.textPreview,
+        playwrightUsed: page.playwrightUsed,
+      };
+      const common = {
+        requestId,
+        startedAt,
+        inputUrl: urlParam,
+        isRefreshBypass: refreshMode,
+        computeStartedAt,
+        httpStatus: page.status,
+        browserLease,
+      };
+      const debugInfo = debugMode ? buildDebugInfo(urlParam, page, outcome) : undefined;
+      const readabilityOk = outcome.attempts.some(a => a.strategy === 'readability' && a.candidate !== null);
 
-        clearTimeout(timeout1a);
-
-        console.log('[Extract] Manual redirect status:', manualRedirectResponse.status);
-
-        if (manualRedirectResponse.status >= 300 && manualRedirectResponse.status < 400) {
-          const location = manualRedirectResponse.headers.get('location');
-          if (location) {
-            console.log('[Extract] Manual redirect location:', location);
-
-            try {
-              const absoluteUrl = new URL(location, urlWithParams);
-              if (!absoluteUrl.hostname.includes('google.com') &&
-                  absoluteUrl.pathname !== '/' &&
-                  absoluteUrl.pathname !== '') {
-                publisherUrlFromRedirect = absoluteUrl.href;
-                console.log('[Extract] Found publisher URL via manual redirect:', publisherUrlFromRedirect);
-              } else {
-                console.log('[Extract] Manual redirect location was Google domain or homepage, ignoring');
-              }
-            } catch {
-              console.log('[Extract] Manual redirect location was invalid URL');
-            }
-          } else {
-            console.log('[Extract] Manual redirect had no Location header');
-          }
-        } else {
-          console.log('[Extract] No redirect (status not 3xx)');
-        }
-      } catch (error) {
-        clearTimeout(timeout1a);
-        console.log('[Extract] Manual redirect failed:', error instanceof Error ? error.message : String(error));
+      if (outcome.kind === 'shell') {
+        console.log(`[Extract] ${outcome.rule.name} shell result rejected (${outcome.strategy})`);
+        return respondBlocked(page, outcome.rule);
       }
 
-      // Method 2: Try following redirects and check final URL
-      if (!publisherUrlFromRedirect) {
-        console.log('[Extract] Attempting follow redirect unwrap...');
-        const controller1b = new AbortController();
-        const timeout1b = setTimeout(() => controller1b.abort(), 10000);
-
-        try {
-          const followRedirectResponse = await fetch(urlWithParams, {
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-              'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-              'Accept-Language': 'en-US,en;q=0.9',
-            },
-            signal: controller1b.signal,
-            redirect: 'follow',
-          });
-
-          clearTimeout(timeout1b);
-
-          console.log('[Extract] Follow redirect finalUrl:', followRedirectResponse.url);
-
-          if (followRedirectResponse.ok) {
-            try {
-              const finalUrl = new URL(followRedirectResponse.url);
-              if (!finalUrl.hostname.includes('google.com') &&
-                  finalUrl.pathname !== '/' &&
-                  finalUrl.pathname !== '') {
-                publisherUrlFromRedirect = followRedirectResponse.url;
-                console.log('[Extract] Found publisher URL via follow redirect:', publisherUrlFromRedirect);
-              } else {
-                console.log('[Extract] Follow redirect stayed on Google domain or homepage');
-              }
-            } catch {
-              console.log('[Extract] Follow redirect finalUrl was invalid');
-            }
-          }
-        } catch (error) {
-          clearTimeout(timeout1b);
-          console.log('[Extract] Follow redirect failed:', error instanceof Error ? error.message : String(error));
+      if (outcome.kind === 'ok') {
+        // Rendered pages aren't paginated through: the next pages would need Playwright too
+        const { candidate, pageCount } = page.playwrightUsed
+          ? { candidate: outcome.candidate, pageCount: 1 }
+          : await stitchNextPages(page, outcome.candidate, onStage);
+        const result: ExtractResult = {
+          success: true,
+          url: page.variant?.articleUrl ?? page.url,
+          title: candidate.title || 'Untitled',
+          byline: candidate.byline,
+          siteName: candidate.siteName,
+          contentHtml: candidate.contentHtml,
+          textContent: candidate.textContent,
+          excerpt: candidate.excerpt,
+          length: candidate.length,
+          authors: candidate.authors,
+          publishedAt: candidate.publishedAt,
+          modifiedAt: candidate.modifiedAt,
+          leadImage: candidate.leadImage,
+          pageCount: pageCount > 1 ? pageCount : undefined,
+          status: "ok",
+          ...pageFields,
+        };
+        if (debugInfo) {
+          result.debug = debugInfo;
         }
-      }
-
-      // If we found publisher URL via redirect, fetch and extract it
-      if (publisherUrlFromRedirect) {
-        console.log('[Extract] Using publisher URL from redirect:', publisherUrlFromRedirect);
-
-        const controller2 = new AbortController();
-        const timeout2 = setTimeout(() => controller2.abort(), 10000);
-
-        try {
-          const publisherResponse = await fetch(publisherUrlFromRedirect, {
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-              'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-              'Accept-Language': 'en-US,en;q=0.9',
-            },
-            signal: controller2.signal,
-            redirect: 'follow',
-          });
-
-          clearTimeout(timeout2);
-
-          console.log('[Extract] Publisher fetch status (redirect):', publisherResponse.status, 'URL:', publisherResponse.url);
-
-          if (!publisherResponse.ok) {
-            const result: ExtractResult = {
-              success: false,
-              url: urlParam,
-              error: `Publisher blocked: HTTP ${publisherResponse.status}`,
-              fetchedUrl: normalizedUrl,
-              resolvedUrl: publisherUrlFromRedirect,
-              status: "no_reader",
-            };
-            return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none', httpStatus: publisherResponse.status });
-          }
-
-          const publisherHtml = await publisherResponse.text();
-          const finalPublisherUrl = publisherResponse.url;
-
-          // Parse with Readability
-          const dom = new JSDOM(publisherHtml, { url: finalPublisherUrl });
-          const reader = new Readability(dom.window.document);
-          const article = reader.parse();
-
-          if (article) {
-            // ESPN shell detection + quality gate for Google News redirect unwrap
-            const parsedUrl = new URL(finalPublisherUrl);
-            const host = parsedUrl.hostname.toLowerCase();
-            const isEspn = host.includes("espn.com");
-            const safeTitle = (article.title ?? "").trim();
-            const safeText = (article.textContent ?? "").trim();
-            const textLen = safeText.length;
-            const titleLen = safeTitle.length;
-
-            // ESPN shell detection BEFORE quality gate
-            if (isEspnShellResult({
-              title: safeTitle,
-              textContent: safeText,
-              contentHtml: article.content,
-              isEspnDomain: isEspn
-            })) {
-              const result: ExtractResult = {
-                success: false,
-                url: finalPublisherUrl,
-                title: "",
-                contentHtml: "",
-                textContent: "",
-                length: 0,
-                fetchedUrl: normalizedUrl,
-                resolvedUrl: finalPublisherUrl,
-                status: "blocked",
-                contentType: publisherResponse.headers.get('content-type') || '',
-                error: "ESPN blocks reader mode",
-              };
-              console.log('[Extract] ESPN shell result rejected (Google News redirect unwrap)');
-              return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none', httpStatus: publisherResponse.status, blockedDetected: true });
-            }
-
-            // Detect JSON error payload disguised as text
-            const looksLikeJsonError =
-              safeText.startsWith("{") &&
-              (safeText.includes('"status":404') || safeText.includes('"status": 404')) &&
-              safeText.includes('"error"');
-
-            // Quality gate
-            const passesQualityGate = (titleLen >= 8) && (textLen >= 400) && !looksLikeJsonError;
-
-            if (!passesQualityGate) {
-              // Convert false positive into controlled failure
-              const result: ExtractResult = {
-                success: false,
-                url: finalPublisherUrl,
-                title: "",
-                byline: article.byline || undefined,
-                siteName: article.siteName || undefined,
-                contentHtml: "",
-                textContent: safeText,
-                excerpt: article.excerpt || undefined,
-                length: textLen,
-                fetchedUrl: normalizedUrl,
-                resolvedUrl: finalPublisherUrl,
-                status: isEspn ? "blocked" : "no_reader",
-                contentType: publisherResponse.headers.get('content-type') || '',
-                error: isEspn ? "ESPN blocks reader mode" : "Reader view isn't available",
-              };
-
-              console.log('[Extract] Google News redirect quality gate failed:', {
-                titleLen,
-                textLen,
-                looksLikeJsonError,
-                isEspn,
-                url: finalPublisherUrl
-              });
-
-              return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'readability', httpStatus: publisherResponse.status, readabilityOk: true, qualityGatePassed: false });
-            }
 
-            // Quality gate passed
-            const result: ExtractResult = {
-              success: true,
-              url: finalPublisherUrl,
-              title: article.title,
-              byline: article.byline || undefined,
-              siteName: article.siteName || undefined,
-              contentHtml: article.content,
-              textContent: article.textContent,
-              excerpt: article.excerpt || undefined,
-              length: article.length,
-              fetchedUrl: normalizedUrl,
-              resolvedUrl: finalPublisherUrl,
-              status: "ok",
-              contentType: publisherResponse.headers.get('content-type') || '',
-            };
-
-            cache.set(cacheKeyUrl, { result, expires: Date.now() + CACHE_TTL });
-        { const cp = buildCachedPayload(cacheKeyUrl, result); if (cp) void setCachedExtract(cacheKeyUrl, cp).catch(() => {}); }
-            console.log('[Extract] Success via Readability (redirect unwrap):', article.title);
-            return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'readability', httpStatus: publisherResponse.status, kvWriteAttempted: true });
-          }
-
-          // Readability failed, try fallback extraction
-          console.log('[Extract] Readability returned null, trying fallback...');
-          const fallback = fallbackExtract(dom.window.document);
-
-          if (fallback) {
-            // Apply quality gate to Google News fallback result
-            const parsedUrl = new URL(finalPublisherUrl);
-            const host = parsedUrl.hostname.toLowerCase();
-            const isEspn = host.includes("espn.com");
-            const safeTitle = (dom.window.document.title ?? "").trim();
-            const safeText = (fallback.text ?? "").trim();
-            const textLen = safeText.length;
-            const titleLen = safeTitle.length;
-
-            // Detect JSON error payload disguised as text
-            const looksLikeJsonError =
-              safeText.startsWith("{") &&
-              (safeText.includes('"status":404') || safeText.includes('"status": 404')) &&
-              safeText.includes('"error"');
-
-            // Quality gate
-            const passesQualityGate = (titleLen >= 8) && (textLen >= 400) && !looksLikeJsonError;
-
-            if (!passesQualityGate) {
-              // Convert false positive into controlled failure
-              const result: ExtractResult = {
-                success: false,
-                url: finalPublisherUrl,
-                title: "",
-                contentHtml: "",
-                textContent: safeText,
-                length: textLen,
-                fetchedUrl: normalizedUrl,
-                resolvedUrl: finalPublisherUrl,
-                status: isEspn ? "blocked" : "no_reader",
-                contentType: publisherResponse.headers.get('content-type') || '',
-                error: isEspn ? "ESPN blocks reader mode" : "Reader view isn't available",
-              };
-
-              console.log('[Extract] Google News fallback quality gate failed:', {
-                titleLen,
-                textLen,
-                looksLikeJsonError,
-                isEspn,
-                url: finalPublisherUrl
-              });
-
-              return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'fallback', fallbackUsed: true, httpStatus: publisherResponse.status, qualityGatePassed: false });
-            }
-
-            // Quality gate passed
-            const result: ExtractResult = {
-              success: true,
-              url: finalPublisherUrl,
-              title: dom.window.document.title || 'Untitled',
-              contentHtml: fallback.html,
-              textContent: fallback.text,
-              length: fallback.text.length,
-              fetchedUrl: normalizedUrl,
-              resolvedUrl: finalPublisherUrl,
-              status: "ok",
-              contentType: publisherResponse.headers.get('content-type') || '',
-            };
-
-            cache.set(cacheKeyUrl, { result, expires: Date.now() + CACHE_TTL });
+        // Cache successful result
+        cache.set(cacheKeyUrl, { result, expires: Date.now() + CACHE_TTL });
         { const cp = buildCachedPayload(cacheKeyUrl, result); if (cp) void setCachedExtract(cacheKeyUrl, cp).catch(() => {}); }
-            console.log('[Extract] Success via fallback extraction (redirect unwrap)');
-            return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'fallback', fallbackUsed: true, httpStatus: publisherResponse.status, kvWriteAttempted: true });
-          }
 
-          // All extraction failed
-          const result: ExtractResult = {
-            success: false,
-            url: urlParam,
-            error: 'Readability-null: Could not extract readable content from publisher page',
-            fetchedUrl: normalizedUrl,
-            resolvedUrl: finalPublisherUrl,
-            status: "no_reader",
-            contentType: publisherResponse.headers.get('content-type') || '',
-          };
-          cache.set(cacheKeyUrl, { result, expires: Date.now() + (2 * 60 * 1000) });
-          return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none', fallbackUsed: false, httpStatus: publisherResponse.status });
-        } catch (publisherError) {
-          clearTimeout(timeout2);
-
-          let errorMessage = 'Failed to fetch publisher article (redirect)';
-          if (publisherError instanceof Error) {
-            if (publisherError.name === 'AbortError') {
-              errorMessage = 'Timeout: Publisher request took too long (>10s)';
-            } else {
-              errorMessage = `Publisher fetch error: ${publisherError.message}`;
-            }
-          }
+        console.log(`[Extract] Success via ${outcome.strategy}:`, candidate.title, page.playwrightUsed ? '(Playwright)' : '(fetch)');
+        return finalize({ ...common, payload: result, extractMethod: extractMethodFor(outcome.strategy, page.playwrightUsed), fallbackUsed: outcome.fallbackUsed, pageVariant: page.variant?.kind, pageCount, kvWriteAttempted: true });
+      }
 
-          const result: ExtractResult = {
-            success: false,
-            url: urlParam,
-            error: errorMessage,
-            fetchedUrl: normalizedUrl,
-            resolvedUrl: publisherUrlFromRedirect,
-          };
-          return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none' });
+      if (outcome.kind === 'paywall') {
+        // Subscriber content: return the teaser so the reader can show it
+        const { teaser } = outcome;
+        const result: ExtractResult = {
+          success: false,
+          url: page.variant?.articleUrl ?? page.url,
+          title: teaser?.title || page.jsonLd?.headline || page.pageTitle,
+          byline: teaser?.byline,
+          siteName: teaser?.siteName ?? page.jsonLd?.publisherName,
+          contentHtml: teaser?.contentHtml ?? "",
+          textContent: teaser?.textContent ?? "",
+          excerpt: teaser?.excerpt ?? page.jsonLd?.description,
+          length: teaser?.length ?? 0,
+          publishedAt: teaser?.publishedAt,
+          leadImage: teaser?.leadImage ?? page.leadImage ?? undefined,
+          status: "paywall",
+          error: "Paywall: subscriber content",
+          ...pageFields,
+        };
+        if (debugInfo) {
+          result.debug = debugInfo;
         }
-      }
 
-      // Method 3: Fallback to HTML parsing if redirect didn't work
-      console.log('[Extract] Redirect unwrap failed, trying HTML parsing...');
-      const controller1 = new AbortController();
-      const timeout1 = setTimeout(() => controller1.abort(), 10000);
+        // Paywall status rarely changes; cache like a success (L1 only)
+        cache.set(cacheKeyUrl, { result, expires: Date.now() + CACHE_TTL });
 
-      try {
-        // Fetch Google News page
-        const googleResponse = await fetch(normalizedUrl, {
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-            'Accept-Language': 'en-US,en;q=0.9',
-          },
-          signal: controller1.signal,
-          redirect: 'follow',
+        return finalize({
+          ...common,
+          payload: result,
+          extractMethod: outcome.strategy ? extractMethodFor(outcome.strategy, page.playwrightUsed) : 'none',
+          pageVariant: page.variant?.kind,
+          readabilityOk,
+          qualityGatePassed: false,
         });
+      }
 
-        clearTimeout(timeout1);
-
-        console.log('[Extract] Google News fetch status:', googleResponse.status, 'URL:', googleResponse.url);
-
-        if (googleResponse.ok) {
-          const googleHtml = await googleResponse.text();
-
-          // Try to find publisher URL from Google News HTML
-          const publisherUrl = findPublisherUrlFromGoogleNews(googleHtml, googleResponse.url);
-
-          if (publisherUrl) {
-            console.log('[Extract] Found publisher URL:', publisherUrl);
-
-            // Now fetch the actual publisher article
-            const controller2 = new AbortController();
-            const timeout2 = setTimeout(() => controller2.abort(), 10000);
-
-            try {
-              const publisherResponse = await fetch(publisherUrl, {
-                headers: {
-                  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-                  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-                  'Accept-Language': 'en-US,en;q=0.9',
-                },
-                signal: controller2.signal,
-                redirect: 'follow',
-              });
-
-              clearTimeout(timeout2);
-
-              console.log('[Extract] Publisher fetch status:', publisherResponse.status, 'URL:', publisherResponse.url);
-
-              if (!publisherResponse.ok) {
-                const result: ExtractResult = {
-                  success: false,
-                  url: urlParam,
-                  error: `Publisher blocked: HTTP ${publisherResponse.status}`,
-                  fetchedUrl: normalizedUrl,
-                  resolvedUrl: publisherUrl,
-                  status: "no_reader",
-                };
-                return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none', httpStatus: publisherResponse.status });
-              }
-
-              const publisherHtml = await publisherResponse.text();
-              const finalPublisherUrl = publisherResponse.url;
-
-              // Parse with Readability
-              const dom = new JSDOM(publisherHtml, { url: finalPublisherUrl });
-              const reader = new Readability(dom.window.document);
-              const article = reader.parse();
-
-              if (article) {
-                // ESPN shell detection + quality gate for Google News HTML parsing
-                const parsedUrl = new URL(finalPublisherUrl);
-                const host = parsedUrl.hostname.toLowerCase();
-                const isEspn = host.includes("espn.com");
-                const safeTitle = (article.title ?? "").trim();
-                const safeText = (article.textContent ?? "").trim();
-                const textLen = safeText.length;
-                const titleLen = safeTitle.length;
-
-                // ESPN shell detection BEFORE quality gate
-                if (isEspnShellResult({
-                  title: safeTitle,
-                  textContent: safeText,
-                  contentHtml: article.content,
-                  isEspnDomain: isEspn
-                })) {
-                  const result: ExtractResult = {
-                    success: false,
-                    url: finalPublisherUrl,
-                    title: "",
-                    contentHtml: "",
-                    textContent: "",
-                    length: 0,
-                    fetchedUrl: normalizedUrl,
-                    resolvedUrl: finalPublisherUrl,
-                    status: "blocked",
-                    contentType: publisherResponse.headers.get('content-type') || '',
-                    error: "ESPN blocks reader mode",
-                  };
-                  console.log('[Extract] ESPN shell result rejected (Google News HTML parsing)');
-                  return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none', httpStatus: publisherResponse.status, blockedDetected: true });
-                }
-
-                // Detect JSON error payload disguised as text
-                const looksLikeJsonError =
-                  safeText.startsWith("{") &&
-                  (safeText.includes('"status":404') || safeText.includes('"status": 404')) &&
-                  safeText.includes('"error"');
-
-                // Quality gate
-                const passesQualityGate = (titleLen >= 8) && (textLen >= 400) && !looksLikeJsonError;
-
-                if (!passesQualityGate) {
-                  // Convert false positive into controlled failure
-                  const result: ExtractResult = {
-                    success: false,
-                    url: finalPublisherUrl,
-                    title: "",
-                    byline: article.byline || undefined,
-                    siteName: article.siteName || undefined,
-                    contentHtml: "",
-                    textContent: safeText,
-                    excerpt: article.excerpt || undefined,
-                    length: textLen,
-                    fetchedUrl: normalizedUrl,
-                    resolvedUrl: finalPublisherUrl,
-                    status: isEspn ? "blocked" : "no_reader",
-                    contentType: publisherResponse.headers.get('content-type') || '',
-                    error: isEspn ? "ESPN blocks reader mode" : "Reader view isn't available",
-                  };
-
-                  console.log('[Extract] Google News HTML parsing quality gate failed:', {
-                    titleLen,
-                    textLen,
-                    looksLikeJsonError,
-                    isEspn,
-                    url: finalPublisherUrl
-                  });
-
-                  return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'readability', httpStatus: publisherResponse.status, readabilityOk: true, qualityGatePassed: false });
-                }
-
-                // Quality gate passed
-                const result: ExtractResult = {
-                  success: true,
-                  url: finalPublisherUrl,
-                  title: article.title,
-                  byline: article.byline || undefined,
-                  siteName: article.siteName || undefined,
-                  contentHtml: article.content,
-                  textContent: article.textContent,
-                  excerpt: article.excerpt || undefined,
-                  length: article.length,
-                  fetchedUrl: normalizedUrl,
-                  resolvedUrl: finalPublisherUrl,
-                  status: "ok",
-                  contentType: publisherResponse.headers.get('content-type') || '',
-                };
-
-                cache.set(cacheKeyUrl, { result, expires: Date.now() + CACHE_TTL });
-        { const cp = buildCachedPayload(cacheKeyUrl, result); if (cp) void setCachedExtract(cacheKeyUrl, cp).catch(() => {}); }
-                console.log('[Extract] Success via Readability (Google News unwrapped):', article.title);
-                return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'readability', httpStatus: publisherResponse.status, kvWriteAttempted: true });
-              }
-
-              // Readability failed, try fallback
-              console.log('[Extract] Readability returned null, trying fallback...');
-              const fallback = fallbackExtract(dom.window.document);
-
-              if (fallback) {
-                // Apply quality gate to Google News fallback result
-                const parsedUrl = new URL(finalPublisherUrl);
-                const host = parsedUrl.hostname.toLowerCase();
-                const isEspn = host.includes("espn.com");
-                const safeTitle = (dom.window.document.title ?? "").trim();
-                const safeText = (fallback.text ?? "").trim();
-                const textLen = safeText.length;
-                const titleLen = safeTitle.length;
-
-                // Detect JSON error payload disguised as text
-                const looksLikeJsonError =
-                  safeText.startsWith("{") &&
-                  (safeText.includes('"status":404') || safeText.includes('"status": 404')) &&
-                  safeText.includes('"error"');
-
-                // Quality gate
-                const passesQualityGate = (titleLen >= 8) && (textLen >= 400) && !looksLikeJsonError;
-
-                if (!passesQualityGate) {
-                  // Convert false positive into controlled failure
-                  const result: ExtractResult = {
-                    success: false,
-                    url: finalPublisherUrl,
-                    title: "",
-                    contentHtml: "",
-                    textContent: safeText,
-                    length: textLen,
-                    fetchedUrl: normalizedUrl,
-                    resolvedUrl: finalPublisherUrl,
-                    status: isEspn ? "blocked" : "no_reader",
-                    contentType: publisherResponse.headers.get('content-type') || '',
-                    error: isEspn ? "ESPN blocks reader mode" : "Reader view isn't available",
-                  };
-
-                  console.log('[Extract] Google News fallback quality gate failed:', {
-                    titleLen,
-                    textLen,
-                    looksLikeJsonError,
-                    isEspn,
-                    url: finalPublisherUrl
-                  });
-
-                  return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'fallback', fallbackUsed: true, httpStatus: publisherResponse.status, qualityGatePassed: false });
-                }
-
-                // Quality gate passed
-                const result: ExtractResult = {
-                  success: true,
-                  url: finalPublisherUrl,
-                  title: dom.window.document.title || 'Untitled',
-                  contentHtml: fallback.html,
-                  textContent: fallback.text,
-                  length: fallback.text.length,
-                  fetchedUrl: normalizedUrl,
-                  resolvedUrl: finalPublisherUrl,
-                  status: "ok",
-                  contentType: publisherResponse.headers.get('content-type') || '',
-                };
-
-                cache.set(cacheKeyUrl, { result, expires: Date.now() + CACHE_TTL });
-        { const cp = buildCachedPayload(cacheKeyUrl, result); if (cp) void setCachedExtract(cacheKeyUrl, cp).catch(() => {}); }
-                console.log('[Extract] Success via fallback extraction (Google News unwrapped)');
-                return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'fallback', fallbackUsed: true, httpStatus: publisherResponse.status, kvWriteAttempted: true });
-              }
-
-              // All extraction failed
-              const result: ExtractResult = {
-                success: false,
-                url: urlParam,
-                error: 'Readability-null: Could not extract readable content from publisher page',
-                fetchedUrl: normalizedUrl,
-                resolvedUrl: finalPublisherUrl,
-                status: "no_reader",
-                contentType: publisherResponse.headers.get('content-type') || '',
-              };
-              cache.set(cacheKeyUrl, { result, expires: Date.now() + (2 * 60 * 1000) });
-              return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none', fallbackUsed: false, httpStatus: publisherResponse.status });
-            } catch (publisherError) {
-              clearTimeout(timeout2);
-
-              let errorMessage = 'Failed to fetch publisher article';
-              if (publisherError instanceof Error) {
-                if (publisherError.name === 'AbortError') {
-                  errorMessage = 'Timeout: Publisher request took too long (>10s)';
-                } else {
-                  errorMessage = `Publisher fetch error: ${publisherError.message}`;
-                }
-              }
-
-              const result: ExtractResult = {
-                success: false,
-                url: urlParam,
-                error: errorMessage,
-                fetchedUrl: normalizedUrl,
-                resolvedUrl: publisherUrl,
-              };
-              return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none' });
-            }
-          } else {
-            // Fallback A: Try fetching with output=1 parameter for simplified HTML
-            console.log('[Extract] Retrying Google News fetch with output=1...');
-
-            const urlWithOutput = normalizedUrl.includes('?')
-              ? `${normalizedUrl}&output=1&hl=en-US&gl=US&ceid=US:en`
-              : `${normalizedUrl}?output=1&hl=en-US&gl=US&ceid=US:en`;
-
-            const controller1b = new AbortController();
-            const timeout1b = setTimeout(() => controller1b.abort(), 10000);
-
-            let publisherUrlFromFallback: string | null = null;
-
-            try {
-              const googleResponse2 = await fetch(urlWithOutput, {
-                headers: {
-                  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-                  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-                  'Accept-Language': 'en-US,en;q=0.9',
-                },
-                signal: controller1b.signal,
-                redirect: 'follow',
-              });
-
-              clearTimeout(timeout1b);
-
-              console.log('[Extract] output=1 fetch status:', googleResponse2.status, 'URL:', googleResponse2.url);
-
-              if (googleResponse2.ok) {
-                const googleHtml2 = await googleResponse2.text();
-                publisherUrlFromFallback = findPublisherUrlFromGoogleNews(googleHtml2, googleResponse2.url);
-              }
-            } catch (error) {
-              clearTimeout(timeout1b);
-              console.log('[Extract] output=1 fetch failed:', error instanceof Error ? error.message : String(error));
-            }
-
-            // Fallback B: Try token decode if output=1 didn't work
-            if (!publisherUrlFromFallback) {
-              // Extract token from normalized URL
-              const tokenMatch = normalizedUrl.match(/\/articles\/([^/?]+)/);
-              if (tokenMatch) {
-                const token = tokenMatch[1];
-                publisherUrlFromFallback = decodePublisherUrlFromToken(token);
-              }
-            }
-
-            // If we found a publisher URL via fallbacks, fetch it
-            if (publisherUrlFromFallback) {
-              console.log('[Extract] Found publisher URL via fallback:', publisherUrlFromFallback);
-
-              const controller2 = new AbortController();
-              const timeout2 = setTimeout(() => controller2.abort(), 10000);
-
-              try {
-                const publisherResponse = await fetch(publisherUrlFromFallback, {
-                  headers: {
-                    'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-                    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-                    'Accept-Language': 'en-US,en;q=0.9',
-                  },
-                  signal: controller2.signal,
-                  redirect: 'follow',
-                });
-
-                clearTimeout(timeout2);
-
-                console.log('[Extract] Publisher fetch status (fallback):', publisherResponse.status, 'URL:', publisherResponse.url);
-
-                if (!publisherResponse.ok) {
-                  const result: ExtractResult = {
-                    success: false,
-                    url: urlParam,
-                    error: `Publisher blocked: HTTP ${publisherResponse.status}`,
-                    fetchedUrl: normalizedUrl,
-                    resolvedUrl: publisherUrlFromFallback,
-                    status: "no_reader",
-                  };
-                  return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none', httpStatus: publisherResponse.status });
-                }
-
-                const publisherHtml = await publisherResponse.text();
-                const finalPublisherUrl = publisherResponse.url;
-
-                // Parse with Readability
-                const dom = new JSDOM(publisherHtml, { url: finalPublisherUrl });
-                const reader = new Readability(dom.window.document);
-                const article = reader.parse();
-
-                if (article) {
-                  // ESPN shell detection + quality gate for Google News fallback unwrap
-                  const parsedUrl = new URL(finalPublisherUrl);
-                  const host = parsedUrl.hostname.toLowerCase();
-                  const isEspn = host.includes("espn.com");
-                  const safeTitle = (article.title ?? "").trim();
-                  const safeText = (article.textContent ?? "").trim();
-                  const textLen = safeText.length;
-                  const titleLen = safeTitle.length;
-
-                  // ESPN shell detection BEFORE quality gate
-                  if (isEspnShellResult({
-                    title: safeTitle,
-                    textContent: safeText,
-                    contentHtml: article.content,
-                    isEspnDomain: isEspn
-                  })) {
-                    const result: ExtractResult = {
-                      success: false,
-                      url: finalPublisherUrl,
-                      title: "",
-                      contentHtml: "",
-                      textContent: "",
-                      length: 0,
-                      fetchedUrl: normalizedUrl,
-                      resolvedUrl: finalPublisherUrl,
-                      status: "blocked",
-                      contentType: publisherResponse.headers.get('content-type') || '',
-                      error: "ESPN blocks reader mode",
-                    };
-                    console.log('[Extract] ESPN shell result rejected (Google News fallback unwrap)');
-                    return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none', httpStatus: publisherResponse.status, blockedDetected: true });
-                  }
-
-                  // Detect JSON error payload disguised as text
-                  const looksLikeJsonError =
-                    safeText.startsWith("{") &&
-                    (safeText.includes('"status":404') || safeText.includes('"status": 404')) &&
-                    safeText.includes('"error"');
-
-                  // Quality gate
-                  const passesQualityGate = (titleLen >= 8) && (textLen >= 400) && !looksLikeJsonError;
-
-                  if (!passesQualityGate) {
-                    // Convert false positive into controlled failure
-                    const result: ExtractResult = {
-                      success: false,
-                      url: finalPublisherUrl,
-                      title: "",
-                      byline: article.byline || undefined,
-                      siteName: article.siteName || undefined,
-                      contentHtml: "",
-                      textContent: safeText,
-                      excerpt: article.excerpt || undefined,
-                      length: textLen,
-                      fetchedUrl: normalizedUrl,
-                      resolvedUrl: finalPublisherUrl,
-                      status: isEspn ? "blocked" : "no_reader",
-                      contentType: publisherResponse.headers.get('content-type') || '',
-                      error: isEspn ? "ESPN blocks reader mode" : "Reader view isn't available",
-                    };
-
-                    console.log('[Extract] Google News fallback unwrap quality gate failed:', {
-                      titleLen,
-                      textLen,
-                      looksLikeJsonError,
-                      isEspn,
-                      url: finalPublisherUrl
-                    });
-
-                    return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'readability', httpStatus: publisherResponse.status, readabilityOk: true, qualityGatePassed: false });
-                  }
-
-                  // Quality gate passed
-                  const result: ExtractResult = {
-                    success: true,
-                    url: finalPublisherUrl,
-                    title: article.title,
-                    byline: article.byline || undefined,
-                    siteName: article.siteName || undefined,
-                    contentHtml: article.content,
-                    textContent: article.textContent,
-                    excerpt: article.excerpt || undefined,
-                    length: article.length,
-                    fetchedUrl: normalizedUrl,
-                    resolvedUrl: finalPublisherUrl,
-                    status: "ok",
-                    contentType: publisherResponse.headers.get('content-type') || '',
-                  };
-
-                  cache.set(cacheKeyUrl, { result, expires: Date.now() + CACHE_TTL });
-        { const cp = buildCachedPayload(cacheKeyUrl, result); if (cp) void setCachedExtract(cacheKeyUrl, cp).catch(() => {}); }
-                  console.log('[Extract] Success via Readability (Google News unwrapped via fallback):', article.title);
-                  return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'readability', httpStatus: publisherResponse.status, kvWriteAttempted: true });
-                }
-
-                // Readability failed, try fallback extraction
-                console.log('[Extract] Readability returned null, trying fallback...');
-                const fallback = fallbackExtract(dom.window.document);
-
-                if (fallback) {
-                  // Apply quality gate to Google News fallback extraction result
-                  const parsedUrl = new URL(finalPublisherUrl);
-                  const host = parsedUrl.hostname.toLowerCase();
-                  const isEspn = host.includes("espn.com");
-                  const safeTitle = (dom.window.document.title ?? "").trim();
-                  const safeText = (fallback.text ?? "").trim();
-                  const textLen = safeText.length;
-                  const titleLen = safeTitle.length;
-
-                  // Detect JSON error payload disguised as text
-                  const looksLikeJsonError =
-                    safeText.startsWith("{") &&
-                    (safeText.includes('"status":404') || safeText.includes('"status": 404')) &&
-                    safeText.includes('"error"');
-
-                  // Quality gate
-                  const passesQualityGate = (titleLen >= 8) && (textLen >= 400) && !looksLikeJsonError;
-
-                  if (!passesQualityGate) {
-                    // Convert false positive into controlled failure
-                    const result: ExtractResult = {
-                      success: false,
-                      url: finalPublisherUrl,
-                      title: "",
-                      contentHtml: "",
-                      textContent: safeText,
-                      length: textLen,
-                      fetchedUrl: normalizedUrl,
-                      resolvedUrl: finalPublisherUrl,
-                      status: isEspn ? "blocked" : "no_reader",
-                      contentType: publisherResponse.headers.get('content-type') || '',
-                      error: isEspn ? "ESPN blocks reader mode" : "Reader view isn't available",
-                    };
-
-                    console.log('[Extract] Google News fallback extraction quality gate failed:', {
-                      titleLen,
-                      textLen,
-                      looksLikeJsonError,
-                      isEspn,
-                      url: finalPublisherUrl
-                    });
-
-                    return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'fallback', fallbackUsed: true, httpStatus: publisherResponse.status, qualityGatePassed: false });
-                  }
-
-                  // Quality gate passed
-                  const result: ExtractResult = {
-                    success: true,
-                    url: finalPublisherUrl,
-                    title: dom.window.document.title || 'Untitled',
-                    contentHtml: fallback.html,
-                    textContent: fallback.text,
-                    length: fallback.text.length,
-                    fetchedUrl: normalizedUrl,
-                    resolvedUrl: finalPublisherUrl,
-                    status: "ok",
-                    contentType: publisherResponse.headers.get('content-type') || '',
-                  };
-
-                  cache.set(cacheKeyUrl, { result, expires: Date.now() + CACHE_TTL });
-        { const cp = buildCachedPayload(cacheKeyUrl, result); if (cp) void setCachedExtract(cacheKeyUrl, cp).catch(() => {}); }
-                  console.log('[Extract] Success via fallback extraction (Google News unwrapped via fallback)');
-                  return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'fallback', fallbackUsed: true, httpStatus: publisherResponse.status, kvWriteAttempted: true });
-                }
-
-                // All extraction failed
-                const result: ExtractResult = {
-                  success: false,
-                  url: urlParam,
-                  error: 'Readability-null: Could not extract readable content from publisher page',
-                  fetchedUrl: normalizedUrl,
-                  resolvedUrl: finalPublisherUrl,
-                  status: "no_reader",
-                  contentType: publisherResponse.headers.get('content-type') || '',
-                };
-                cache.set(cacheKeyUrl, { result, expires: Date.now() + (2 * 60 * 1000) });
-                return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none', fallbackUsed: false, httpStatus: publisherResponse.status });
-              } catch (publisherError) {
-                clearTimeout(timeout2);
-
-                let errorMessage = 'Failed to fetch publisher article (fallback)';
-                if (publisherError instanceof Error) {
-                  if (publisherError.name === 'AbortError') {
-                    errorMessage = 'Timeout: Publisher request took too long (>10s)';
-                  } else {
-                    errorMessage = `Publisher fetch error: ${publisherError.message}`;
-                  }
-                }
-
-                const result: ExtractResult = {
-                  success: false,
-                  url: urlParam,
-                  error: errorMessage,
-                  fetchedUrl: normalizedUrl,
-                  resolvedUrl: publisherUrlFromFallback,
-                };
-                return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none' });
-              }
-            }
-
-            // All fallbacks failed - add debug logging
-            console.log("[Extract] Google HTML markers:", {
-              hasGoogleUrl: googleHtml.includes("https://www.google.com/url?"),
-              hasDataNAU: googleHtml.includes("data-n-au"),
-              hasDataUrl: googleHtml.includes("data-url"),
-              hasOgUrl: googleHtml.includes('property="og:url"'),
-              hasCanonical: googleHtml.includes('rel="canonical"'),
-              hasApplicationLd: googleHtml.includes("application/ld+json"),
-              length: googleHtml.length,
-              finalUrl: googleResponse.url
-            });
-            console.log("[Extract] Google HTML head snippet:", googleHtml.slice(0, 1500));
-            console.log("[Extract] Google HTML tail snippet:", googleHtml.slice(Math.max(0, googleHtml.length - 1500)));
-
-            const result: ExtractResult = {
-              success: false,
-              url: urlParam,
-              error: 'Could not unwrap Google News URL: No publisher URL found (tried output=1 and token decode)',
-              fetchedUrl: normalizedUrl,
-              resolvedUrl: googleResponse.url,
-            };
-            return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none' });
-          }
-        } else {
-          const result: ExtractResult = {
-            success: false,
-            url: urlParam,
-            error: `Google News blocked: HTTP ${googleResponse.status}`,
-            fetchedUrl: normalizedUrl,
-            resolvedUrl: googleResponse.url,
-            status: googleResponse.status,
-          };
-          return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none', httpStatus: googleResponse.status });
-        }
-      } catch (googleError) {
-        clearTimeout(timeout1);
-
-        let errorMessage = 'Failed to fetch Google News page';
-        if (googleError instanceof Error) {
-          if (googleError.name === 'AbortError') {
-            errorMessage = 'Timeout: Google News request took too long (>10s)';
-          } else {
-            errorMessage = `Google News fetch error: ${googleError.message}`;
-          }
-        }
-
+      if (outcome.kind === 'rejected') {
+        // Convert false positive into controlled failure
+        const { candidate, quality } = outcome;
         const result: ExtractResult = {
           success: false,
-          url: urlParam,
-          error: errorMessage,
-          fetchedUrl: normalizedUrl,
+          url: page.url,
+          title: "",
+          byline: candidate.byline,
+          siteName: candidate.siteName,
+          contentHtml: "",
+          textContent: candidate.textContent.trim(),
+          excerpt: candidate.excerpt,
+          length: quality.textLen,
+          status: rule?.blocked ? "blocked" : "no_reader",
+          error: rule?.blocked ? blockedErrorMessage(rule) : "Reader view isn't available",
+          ...pageFields,
         };
-        return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none' });
+        if (debugInfo) {
+          result.debug = debugInfo;
+        }
+        return finalize({ ...common, payload: result, extractMethod: extractMethodFor(outcome.strategy, page.playwrightUsed), fallbackUsed: outcome.fallbackUsed, readabilityOk, qualityGatePassed: false });
       }
-    }
 
-    // Non-Google News URL - extract directly
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 15000); // 15s timeout
+      // All extraction strategies failed
+      const result: ExtractResult = {
+        success: false,
+        url: urlParam,
+        error: 'Readability-null: Could not extract readable content from this page',
+        status: "no_reader",
+        ...pageFields,
+      };
+      if (debugInfo) {
+        result.debug = debugInfo;
+      }
 
-    try {
-      let finalUrl = urlParam;
-      let html = '';
-      let httpStatus = 0;
-      let contentTypeHeader = '';
-      let playwrightUsed = false;
-
-      console.log('[Extract] Fetching direct (non-Google) URL:', urlParam);
-
-      // First fetch attempt with regular fetch (realistic browser headers)
-      const response = await fetch(urlParam, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.9',
-          'Referer': 'https://www.google.com/',
-        },
-        signal: controller.signal,
-        redirect: 'follow',
-      });
+      // Cache failure too (shorter TTL)
+      cache.set(cacheKeyUrl, { result, expires: Date.now() + (2 * 60 * 1000) });
 
-      clearTimeout(timeout);
+      return finalize({ ...common, payload: result, extractMethod: 'none', fallbackUsed: false, readabilityOk });
+    };
 
-      httpStatus = response.status;
-      contentTypeHeader = response.headers.get('content-type') || '';
-      finalUrl = response.url;
+    // The page couldn't be fetched at all (no response, or reading it failed)
+    const respondFetchFailed = (timedOut: boolean, message?: string) => {
+      const result: ExtractResult = {
+        success: false,
+        url: urlParam,
+        error: timedOut
+          ? `Timeout: Request took too long (>${FETCH_TIMEOUT_MS / 1000}s)`
+          : message ? `Fetch error: ${message}` : 'Failed to fetch article',
+        fetchedUrl: urlParam,
+      };
 
-      // Check if response is blocked
-      const urlObj2 = new URL(urlParam);
-      const isBlocked = isBlockedResponse(httpStatus, urlObj2.hostname, response.headers);
+      return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none' });
+    };
 
-      if (isBlocked) {
-        console.log('[Extract] Detected blocking, attempting Playwright fallback...');
+    try {
+      console.log('[Extract] Fetching URL:', urlParam);
+      onStage('fetching', inputUrl.hostname);
+
+      // First fetch attempt with regular fetch (realistic browser headers),
+      // paced per publisher host
+      const fetched = await httpRequest(urlParam, {
+        headers: { ...FETCH_HEADERS, ...rule?.headers },
+        timeoutMs: FETCH_TIMEOUT_MS,
+        retries: 1,
+        polite: { robots: true },
+      });
+      const response = fetched.response;
+      if (!response) {
+        return respondFetchFailed(fetched.errorReason === 'timeout', fetched.error);
+      }
+      if (fetched.redirectChain.length > 0) {
+        console.log(`[Extract] Followed ${fetched.redirectChain.length} redirect(s) to`, fetched.url);
+      }
 
-        try {
-          const playwrightResult = await fetchWithPlaywright(urlParam);
+      const httpStatus = response.status;
+      const contentTypeHeader = response.headers.get('content-type') || '';
+      let page: ExtractPage;
 
-          // Playwright disabled or unavailable - return blocked error
-          if (!playwrightResult) {
-            const result: ExtractResult = {
-              success: false,
-              url: urlParam,
-              error: 'Site may be blocking requests (Playwright fallback disabled)',
-              fetchedUrl: urlParam,
-              resolvedUrl: response.url,
-              status: "blocked",
-              contentType: contentTypeHeader,
-              playwrightUsed: false,
-            };
-            return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none', httpStatus, blockedDetected: true });
-          }
+      // Paths that don't read the body release the connection first
+      if (isBlockedResponse(httpStatus, inputUrl.hostname, response.headers)) {
+        await response.body?.cancel().catch(() => {});
+        console.log('[Extract] Detected blocking, attempting Playwright fallback...');
 
-          html = playwrightResult.html;
-          finalUrl = playwrightResult.finalUrl;
-          playwrightUsed = true;
-          httpStatus = 200; // Playwright successful fetch
-          console.log('[Extract] Playwright fallback successful');
-
-          // Check for ESPN shell page immediately after Playwright fetch
-          const isESPN = urlObj2.hostname.includes('espn.com');
-          if (isESPN) {
-            const tempDom = new JSDOM(html, { url: finalUrl });
-            const tempTitle = tempDom.window.document.title || '';
-            if (isESPNShellPage(html, tempTitle)) {
-              console.error('[Extract] ESPN returned shell page after Playwright (blocked path)');
-              return finalize({
-                requestId,
-                startedAt,
-                inputUrl: urlParam,
-                payload: buildExtractResponse({
-                  success: false,
-                  url: urlParam,
-                  status: "blocked",
-                  error: 'ESPN blocks reader mode',
-                  fetchedUrl: urlParam,
-                  resolvedUrl: finalUrl,
-                  contentType: 'text/html',
-                  playwrightUsed: true,
-                  pageTitle: tempTitle,
-                }),
-                isRefreshBypass: refreshMode,
-                computeStartedAt,
-                extractMethod: 'none',
-                httpStatus: 200,
-                blockedDetected: true,
-              });
-            }
-          }
+        let playwrightResult: Awaited<ReturnType<typeof fetchWithPlaywright>>;
+        try {
+          playwrightResult = await fetchWithPlaywright(urlParam, onStage, onLease);
         } catch (playwrightError) {
           console.error('[Extract] Playwright fallback failed:', playwrightError);
           const result: ExtractResult = {
@@ -2060,20 +959,51 @@ export async function GET(request: Request) {
             url: urlParam,
             error: `Blocked and Playwright failed: ${playwrightError instanceof Error ? playwrightError.message : 'Unknown error'}`,
             fetchedUrl: urlParam,
-            resolvedUrl: response.url,
+            resolvedUrl: fetched.url,
             status: "no_reader",
             contentType: contentTypeHeader,
             playwrightUsed: true,
           };
+          return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none', httpStatus, blockedDetected: true, browserLease });
+        }
+
+        // Playwright disabled or unavailable - return blocked error
+        if (!playwrightResult) {
+          const result: ExtractResult = {
+            success: false,
+            url: urlParam,
+            error: 'Site may be blocking requests (Playwright fallback disabled)',
+            fetchedUrl: urlParam,
+            resolvedUrl: fetched.url,
+            status: "blocked",
+            contentType: contentTypeHeader,
+            playwrightUsed: false,
+          };
           return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none', httpStatus, blockedDetected: true });
         }
+
+        console.log('[Extract] Playwright fallback successful');
+        page = createExtractPage({
+          url: playwrightResult.finalUrl,
+          status: 200,
+          contentType: 'text/html',
+          html: playwrightResult.html,
+          rule,
+          playwrightUsed: true,
+        });
+
+        if (rule?.shell && isShellPage(rule, page.html, page.pageTitle)) {
+          console.error(`[Extract] ${rule.name} returned shell page after Playwright (blocked path)`);
+          return respondBlocked(page, rule);
+        }
       } else if (!response.ok) {
+        await response.body?.cancel().catch(() => {});
         const result: ExtractResult = {
           success: false,
           url: urlParam,
           error: `HTTP ${response.status}`,
           fetchedUrl: urlParam,
-          resolvedUrl: response.url,
+          resolvedUrl: fetched.url,
           status: "no_reader",
           contentType: contentTypeHeader,
           playwrightUsed: false,
@@ -2083,12 +1013,13 @@ export async function GET(request: Request) {
         // Normal successful response, read HTML
         // Check content type
         if (!contentTypeHeader.includes('text/html') && !contentTypeHeader.includes('application/xhtml')) {
+          await response.body?.cancel().catch(() => {});
           const result: ExtractResult = {
             success: false,
             url: urlParam,
             error: 'Non-HTML: Response is not HTML content',
             fetchedUrl: urlParam,
-            resolvedUrl: response.url,
+            resolvedUrl: fetched.url,
             status: "no_reader",
             contentType: contentTypeHeader,
             playwrightUsed: false,
@@ -2097,555 +1028,119 @@ export async function GET(request: Request) {
         }
 
         // Read response with size limit (2MB)
-        html = await response.text();
-        if (html.length > 2 * 1024 * 1024) {
+        const html = await readText(response, MAX_HTML_LENGTH);
+        if (html === null) {
           const result: ExtractResult = {
             success: false,
             url: urlParam,
             error: 'Response too large (max 2MB)',
             fetchedUrl: urlParam,
-            resolvedUrl: response.url,
+            resolvedUrl: fetched.url,
             status: "no_reader",
             contentType: contentTypeHeader,
             playwrightUsed: false,
           };
           return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none', httpStatus });
         }
+
+        page = createExtractPage({
+          url: fetched.url,
+          status: httpStatus,
+          contentType: contentTypeHeader,
+          html,
+          rule,
+          redirectCount: fetched.redirectChain.length,
+          playwrightUsed: false,
+        });
       }
 
-      // Parse HTML to extract debug info (html is already set from either fetch or Playwright)
-      const debugDom = new JSDOM(html, { url: finalUrl });
-      const debugDoc = debugDom.window.document;
-      const pageTitle = debugDoc.title || '';
-      const bodyText = debugDoc.body?.textContent?.trim() || '';
-      const textPreview = bodyText.substring(0, 200).trim();
-
-      // Parse with Readability
-      const dom = new JSDOM(html, { url: finalUrl });
-      const reader = new Readability(dom.window.document);
-      const article = reader.parse();
-
-      // Collect debug info (only included in response if debugMode=true)
-      const debugInfo = debugMode ? {
-        inputHost: urlObj2.hostname,
-        finalHost: new URL(finalUrl).hostname,
-        httpStatus,
-        contentType: contentTypeHeader,
-        fetchedUrl: finalUrl,
-        redirectChainCount: finalUrl !== urlParam ? 1 : 0,
-        htmlLength: html.length,
-        htmlHead: html.substring(0, 300),
-        pageTitle,
-        readabilityTitle: article?.title || '',
-        readabilityTextLength: article?.textContent?.length || 0,
-        readabilityTextHead: (article?.textContent || '').substring(0, 200),
-      } : undefined; 
-
-      // Check if we got insufficient content from a JS-required domain and haven't used Playwright yet
-      const needsJavaScript = requiresJavaScript(urlObj2.hostname);
-      const hasInsufficientContent = article && article.textContent && article.textContent.length < 500;
-
-      if (!playwrightUsed && needsJavaScript && (hasInsufficientContent || !article)) {
+      onStage('parsing');
+      const outcome = runExtractStrategies(page);
+      // Paywall markup alone may be a template div on a page that hasn't
+      // rendered: variants and Playwright get a try before it's reported
+      if (outcome.kind === 'paywall' && hasStrongPaywallSignal(outcome.signals)) {
+        return await respondWithOutcome(page, outcome);
+      }
+      const insufficientContent = outcome.kind !== 'ok' || outcome.candidate.textContent.length < 500;
+
+      // Failed, or thin on a JS-required domain: try the page's AMP / print version
+      // (server-rendered and much cheaper than Playwright)
+      if (!page.playwrightUsed && (outcome.kind !== 'ok' || (rule?.requiresJavaScript && insufficientContent))) {
+        for (const variant of findPageVariants(page.document, page.url)) {
+          onStage('variant', variant.kind);
+          const variantPage = await fetchVariantPage(variant, page.url, rule);
+          if (!variantPage) continue;
+
+          const variantOutcome = runExtractStrategies(variantPage);
+          if (variantOutcome.kind === 'ok' || (variantOutcome.kind === 'paywall' && hasStrongPaywallSignal(variantOutcome.signals))) {
+            console.log(`[Extract] Extracted from ${variant.kind} variant:`, variant.url);
+            return await respondWithOutcome(variantPage, variantOutcome);
+          }
+        }
+      }
+
+      // JS-required domain with thin or no content: retry with a Playwright render
+      if (!page.playwrightUsed && rule?.requiresJavaScript && insufficientContent) {
         console.log('[Extract] JS-required domain with insufficient content, retrying with Playwright...');
 
         try {
-          const playwrightResult = await fetchWithPlaywright(urlParam);
+          const playwrightResult = await fetchWithPlaywright(urlParam, onStage, onLease);
 
           // Playwright disabled - skip retry and continue with existing content
           if (!playwrightResult) {
             console.log('[Extract] Playwright disabled, skipping JS-required domain retry');
-            // Fall through to continue with existing article/fallback extraction
           } else {
-            html = playwrightResult.html;
-            finalUrl = playwrightResult.finalUrl;
-            playwrightUsed = true;
-
-            // Re-parse with Playwright HTML
-            const pwDom = new JSDOM(html, { url: finalUrl });
-            const pwTitle = pwDom.window.document.title || '';
-
-          // Check for ESPN shell page
-          const isESPN = urlObj2.hostname.includes('espn.com');
-          if (isESPN && isESPNShellPage(html, pwTitle)) {
-            console.error('[Extract] ESPN returned shell page, article body not found');
-            return finalize({
-              requestId,
-              startedAt,
-              inputUrl: urlParam,
-              payload: buildExtractResponse({
-                success: false,
-                url: urlParam,
-                status: "blocked",
-                error: 'ESPN blocks reader mode',
-                fetchedUrl: urlParam,
-                resolvedUrl: finalUrl,
-                contentType: 'text/html',
-                playwrightUsed: true,
-                pageTitle: pwTitle,
-              }),
-              isRefreshBypass: refreshMode,
-              computeStartedAt,
-              extractMethod: 'none',
-              httpStatus: 200,
-              blockedDetected: true,
+            const pwPage = createExtractPage({
+              url: playwrightResult.finalUrl,
+              status: 200,
+              contentType: 'text/html',
+              html: playwrightResult.html,
+              rule,
+              playwrightUsed: true,
             });
-          }
 
-          const pwReader = new Readability(pwDom.window.document);
-          const pwArticle = pwReader.parse();
-
-          if (pwArticle) {
-            // ESPN shell detection + quality gate for Playwright Readability
-            const parsedUrl = new URL(urlParam);
-            const host = parsedUrl.hostname.toLowerCase();
-            const isEspn = host.includes("espn.com");
-            const safeTitle = (pwArticle.title ?? "").trim();
-            const safeText = (pwArticle.textContent ?? "").trim();
-            const textLen = safeText.length;
-            const titleLen = safeTitle.length;
-
-            // ESPN shell detection BEFORE quality gate
-            if (isEspnShellResult({
-              title: safeTitle,
-              textContent: safeText,
-              contentHtml: pwArticle.content,
-              isEspnDomain: isEspn
-            })) {
-              const result: ExtractResult = {
-                success: false,
-                url: finalUrl,
-                title: "",
-                contentHtml: "",
-                textContent: "",
-                length: 0,
-                fetchedUrl: urlParam,
-                resolvedUrl: finalUrl,
-                status: "blocked",
-                contentType: 'text/html',
-                playwrightUsed: true,
-                error: "ESPN blocks reader mode",
-              };
-              console.log('[Extract] ESPN shell result rejected (Playwright retry)');
-              return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none', httpStatus: 200, blockedDetected: true });
+            if (rule.shell && isShellPage(rule, pwPage.html, pwPage.pageTitle)) {
+              console.error(`[Extract] ${rule.name} returned shell page, article body not found`);
+              return respondBlocked(pwPage, rule);
             }
 
-            // Detect JSON error payload disguised as text
-            const looksLikeJsonError =
-              safeText.startsWith("{") &&
-              (safeText.includes('"status":404') || safeText.includes('"status": 404')) &&
-              safeText.includes('"error"');
-
-            // Quality gate
-            const passesQualityGate = (titleLen >= 8) && (textLen >= 400) && !looksLikeJsonError;
-
-            if (!passesQualityGate) {
-              // Convert false positive into controlled failure
-              const result: ExtractResult = {
-                success: false,
-                url: finalUrl,
-                title: "",
-                byline: pwArticle.byline || undefined,
-                siteName: pwArticle.siteName || undefined,
-                contentHtml: "",
-                textContent: safeText,
-                excerpt: pwArticle.excerpt || undefined,
-                length: textLen,
-                fetchedUrl: urlParam,
-                resolvedUrl: finalUrl,
-                status: isEspn ? "blocked" : "no_reader",
-                contentType: 'text/html',
-                playwrightUsed: true,
-                error: isEspn ? "ESPN blocks reader mode" : "Reader view isn't available",
-              };
-
-              console.log('[Extract] Playwright quality gate failed:', {
-                titleLen,
-                textLen,
-                looksLikeJsonError,
-                isEspn,
-                url: urlParam
-              });
-
-              return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'playwright_readability', httpStatus: 200, readabilityOk: true, qualityGatePassed: false });
+            const pwOutcome = runExtractStrategies(pwPage);
+            if (pwOutcome.kind !== 'none') {
+              return await respondWithOutcome(pwPage, pwOutcome);
             }
 
-            // Quality gate passed
-            const result: ExtractResult = {
-              success: true,
-              url: finalUrl,
-              title: pwArticle.title,
-              byline: pwArticle.byline || undefined,
-              siteName: pwArticle.siteName || undefined,
-              contentHtml: pwArticle.content,
-              textContent: pwArticle.textContent,
-              excerpt: pwArticle.excerpt || undefined,
-              length: pwArticle.length,
-              fetchedUrl: urlParam,
-              resolvedUrl: finalUrl,
-              status: "ok",
-              contentType: 'text/html',
-              playwrightUsed: true,
-            };
-
-            cache.set(cacheKeyUrl, { result, expires: Date.now() + CACHE_TTL });
-        { const cp = buildCachedPayload(cacheKeyUrl, result); if (cp) void setCachedExtract(cacheKeyUrl, cp).catch(() => {}); }
-            console.log('[Extract] Success via Readability (Playwright retry):', pwArticle.title);
-            return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'playwright_readability', httpStatus: 200, kvWriteAttempted: true });
-          }
-
-          // Playwright also failed to extract, try fallback
-          const pwFallback = fallbackExtract(pwDom.window.document);
-          if (pwFallback) {
-            // Apply quality gate to Playwright fallback result
-            const parsedUrl = new URL(urlParam);
-            const host = parsedUrl.hostname.toLowerCase();
-            const isEspn = host.includes("espn.com");
-            const safeTitle = (pwTitle ?? "").trim();
-            const safeText = (pwFallback.text ?? "").trim();
-            const textLen = safeText.length;
-            const titleLen = safeTitle.length;
-
-            // Detect JSON error payload disguised as text
-            const looksLikeJsonError =
-              safeText.startsWith("{") &&
-              (safeText.includes('"status":404') || safeText.includes('"status": 404')) &&
-              safeText.includes('"error"');
-
-            // Quality gate
-            const passesQualityGate = (titleLen >= 8) && (textLen >= 400) && !looksLikeJsonError;
-
-            if (!passesQualityGate) {
-              // Convert false positive into controlled failure
-              const result: ExtractResult = {
-                success: false,
-                url: finalUrl,
-                title: "",
-                contentHtml: "",
-                textContent: safeText,
-                length: textLen,
-                fetchedUrl: urlParam,
-                resolvedUrl: finalUrl,
-                status: isEspn ? "blocked" : "no_reader",
-                contentType: 'text/html',
-                playwrightUsed: true,
-                error: isEspn ? "ESPN blocks reader mode" : "Reader view isn't available",
-              };
-
-              console.log('[Extract] Playwright fallback quality gate failed:', {
-                titleLen,
-                textLen,
-                looksLikeJsonError,
-                isEspn,
-                url: urlParam
-              });
-
-              return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'playwright_fallback', fallbackUsed: true, httpStatus: 200, qualityGatePassed: false });
+            // Blocking site with no extractable content
+            if (rule.blocked) {
+              console.error(`[Extract] ${rule.name} Playwright extraction failed completely`);
+              return respondBlocked(pwPage, rule);
             }
-
-            // Quality gate passed
-            const result: ExtractResult = {
-              success: true,
-              url: finalUrl,
-              title: pwTitle || 'Untitled',
-              contentHtml: pwFallback.html,
-              textContent: pwFallback.text,
-              length: pwFallback.text.length,
-              fetchedUrl: urlParam,
-              resolvedUrl: finalUrl,
-              status: "ok",
-              contentType: 'text/html',
-              playwrightUsed: true,
-            };
-
-            cache.set(cacheKeyUrl, { result, expires: Date.now() + CACHE_TTL });
-        { const cp = buildCachedPayload(cacheKeyUrl, result); if (cp) void setCachedExtract(cacheKeyUrl, cp).catch(() => {}); }
-            console.log('[Extract] Success via fallback extraction (Playwright retry)');
-            return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'playwright_fallback', fallbackUsed: true, httpStatus: 200, kvWriteAttempted: true });
           }
-
-            // ESPN with no extractable content
-            if (isESPN) {
-              console.error('[Extract] ESPN Playwright extraction failed completely');
-              return finalize({
-                requestId,
-                startedAt,
-                inputUrl: urlParam,
-                payload: buildExtractResponse({
-                  success: false,
-                  url: urlParam,
-                  status: "blocked",
-                  error: 'ESPN blocks reader mode',
-                  fetchedUrl: urlParam,
-                  resolvedUrl: finalUrl,
-                  contentType: 'text/html',
-                  playwrightUsed: true,
-                  pageTitle: pwTitle,
-                }),
-                isRefreshBypass: refreshMode,
-                computeStartedAt,
-                extractMethod: 'none',
-                httpStatus: 200,
-                blockedDetected: true,
-              });
-            }
-          } // end else (playwrightResult)
         } catch (playwrightError) {
           console.error('[Extract] Playwright retry failed:', playwrightError);
 
-          // ESPN-specific error message
-          if (urlObj2.hostname.includes('espn.com')) {
+          // Blocking sites: report the failure instead of falling through
+          if (rule.blocked) {
             const result: ExtractResult = {
               success: false,
               url: urlParam,
               error: `Could not load article content: ${playwrightError instanceof Error ? playwrightError.message : 'Unknown error'}`,
               fetchedUrl: urlParam,
-              resolvedUrl: finalUrl,
+              resolvedUrl: page.url,
               playwrightUsed: true,
             };
-            return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none', blockedDetected: true });
+            return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none', blockedDetected: true, browserLease });
           }
 
-          // Continue with original article result or fallback below for non-ESPN
+          // Continue with the fetched page's outcome for other sites
         }
       }
 
-      if (article) {
-        // Readability succeeded - check for ESPN shell BEFORE quality gate
-
-        // Compute quality gate values
-        const parsedUrl = new URL(urlParam);
-        const host = parsedUrl.hostname.toLowerCase();
-        const isEspn = host.includes("espn.com");
-        const safeTitle = (article.title ?? "").trim();
-        const safeText = (article.textContent ?? "").trim();
-        const textLen = safeText.length;
-        const titleLen = safeTitle.length;
-
-        // ESPN shell detection BEFORE quality gate (catches "null - ESPN" titles)
-        if (isEspnShellResult({
-          title: safeTitle,
-          textContent: safeText,
-          contentHtml: article.content,
-          isEspnDomain: isEspn
-        })) {
-          const result: ExtractResult = {
-            success: false,
-            url: finalUrl,
-            title: "",
-            contentHtml: "",
-            textContent: "",
-            length: 0,
-            fetchedUrl: urlParam,
-            resolvedUrl: finalUrl,
-            status: "blocked",
-            contentType: contentTypeHeader,
-            pageTitle,
-            textPreview,
-            playwrightUsed,
-            error: "ESPN blocks reader mode",
-          };
-          console.log('[Extract] ESPN shell result rejected (before quality gate)');
-          return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none', httpStatus, blockedDetected: true });
-        }
-
-        // Detect JSON error payload disguised as text
-        const looksLikeJsonError =
-          safeText.startsWith("{") &&
-          (safeText.includes('"status":404') || safeText.includes('"status": 404')) &&
-          safeText.includes('"error"');
-
-        // Quality gate
-        const passesQualityGate = (titleLen >= 8) && (textLen >= 400) && !looksLikeJsonError;
-
-        if (!passesQualityGate) {
-          // Convert false positive into controlled failure
-          const result: ExtractResult = {
-            success: false,
-            url: finalUrl,
-            title: "",
-            byline: article.byline || undefined,
-            siteName: article.siteName || undefined,
-            contentHtml: "",
-            textContent: safeText,
-            excerpt: article.excerpt || undefined,
-            length: textLen,
-            fetchedUrl: urlParam,
-            resolvedUrl: finalUrl,
-            status: isEspn ? "blocked" : "no_reader",
-            contentType: contentTypeHeader,
-            pageTitle,
-            textPreview,
-            playwrightUsed,
-            error: isEspn ? "ESPN blocks reader mode" : "Reader view isn't available",
-          };
-
-          console.log('[Extract] Quality gate failed:', {
-            titleLen,
-            textLen,
-            looksLikeJsonError,
-            isEspn,
-            url: urlParam
-          });
-
-          if (debugInfo) {
-            result.debug = debugInfo;
-          }
-
-          return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: playwrightUsed ? 'playwright_readability' : 'readability', httpStatus, readabilityOk: true, qualityGatePassed: false });
-        }
-
-        // Quality gate passed - return success
-        const result: ExtractResult = {
-          success: true,
-          url: finalUrl,
-          title: article.title,
-          byline: article.byline || undefined,
-          siteName: article.siteName || undefined,
-          contentHtml: article.content,
-          textContent: article.textContent,
-          excerpt: article.excerpt || undefined,
-          length: article.length,
-          fetchedUrl: urlParam,
-          resolvedUrl: finalUrl,
-          status: "ok",
-          contentType: contentTypeHeader,
-          pageTitle,
-          textPreview,
-          playwrightUsed,
-        };
-
-        // Add debug info if enabled
-        if (debugInfo) {
-          result.debug = debugInfo;
-        }
-
-        // Cache successful result
-        cache.set(cacheKeyUrl, { result, expires: Date.now() + CACHE_TTL });
-        { const cp = buildCachedPayload(cacheKeyUrl, result); if (cp) void setCachedExtract(cacheKeyUrl, cp).catch(() => {}); }
-
-        console.log('[Extract] Success via Readability:', article.title, playwrightUsed ? '(Playwright)' : '(fetch)');
-
-        return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: playwrightUsed ? 'playwright_readability' : 'readability', httpStatus, kvWriteAttempted: true });
-      }
-
-      // Readability failed, try fallback extraction
-      console.log('[Extract] Readability returned null, trying fallback...');
-      const fallback = fallbackExtract(dom.window.document);
-
-      if (fallback) {
-        // Apply quality gate to fallback extraction too
-        const parsedUrl = new URL(urlParam);
-        const host = parsedUrl.hostname.toLowerCase();
-        const isEspn = host.includes("espn.com");
-        const safeTitle = (pageTitle ?? "").trim();
-        const safeText = (fallback.text ?? "").trim();
-        const textLen = safeText.length;
-        const titleLen = safeTitle.length;
-
-        // Detect JSON error payload disguised as text
-        const looksLikeJsonError =
-          safeText.startsWith("{") &&
-          (safeText.includes('"status":404') || safeText.includes('"status": 404')) &&
-          safeText.includes('"error"');
-
-        // Quality gate
-        const passesQualityGate = (titleLen >= 8) && (textLen >= 400) && !looksLikeJsonError;
-
-        if (!passesQualityGate) {
-          // Convert false positive into controlled failure
-          const result: ExtractResult = {
-            success: false,
-            url: finalUrl,
-            title: "",
-            contentHtml: "",
-            textContent: safeText,
-            length: textLen,
-            fetchedUrl: urlParam,
-            resolvedUrl: finalUrl,
-            status: isEspn ? "blocked" : "no_reader",
-            contentType: contentTypeHeader,
-            pageTitle,
-            textPreview,
-            playwrightUsed,
-            error: isEspn ? "ESPN blocks reader mode" : "Reader view isn't available",
-          };
-
-          console.log('[Extract] Fallback quality gate failed:', {
-            titleLen,
-            textLen,
-            looksLikeJsonError,
-            isEspn,
-            url: urlParam
-          });
-
-          return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: playwrightUsed ? 'playwright_fallback' : 'fallback', fallbackUsed: true, httpStatus, qualityGatePassed: false });
-        }
-
-        // Quality gate passed
-        const result: ExtractResult = {
-          success: true,
-          url: finalUrl,
-          title: pageTitle || 'Untitled',
-          contentHtml: fallback.html,
-          textContent: fallback.text,
-          length: fallback.text.length,
-          fetchedUrl: urlParam,
-          resolvedUrl: finalUrl,
-          status: "ok",
-          contentType: contentTypeHeader,
-          pageTitle,
-          textPreview,
-          playwrightUsed,
-        };
-
-        // Cache successful result
-        cache.set(cacheKeyUrl, { result, expires: Date.now() + CACHE_TTL });
-        { const cp = buildCachedPayload(cacheKeyUrl, result); if (cp) void setCachedExtract(cacheKeyUrl, cp).catch(() => {}); }
-
-        console.log('[Extract] Success via fallback extraction', playwrightUsed ? '(Playwright)' : '(fetch)');
-
-        return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: playwrightUsed ? 'playwright_fallback' : 'fallback', fallbackUsed: true, httpStatus, kvWriteAttempted: true });
-      }
-
-      // All extraction methods failed
-      const result: ExtractResult = {
-        success: false,
-        url: urlParam,
-        error: 'Readability-null: Could not extract readable content from this page',
-        fetchedUrl: urlParam,
-        resolvedUrl: finalUrl,
-        status: "no_reader",
-        contentType: contentTypeHeader,
-        pageTitle,
-        textPreview,
-        playwrightUsed,
-      };
-
-      // Cache failure too (shorter TTL)
-      cache.set(cacheKeyUrl, { result, expires: Date.now() + (2 * 60 * 1000) });
-
-      return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none', fallbackUsed: false, httpStatus });
-
+      return await respondWithOutcome(page, outcome);
     } catch (fetchError) {
-      clearTimeout(timeout);
-
-      let errorMessage = 'Failed to fetch article';
       if (fetchError instanceof Error) {
-        if (fetchError.name === 'AbortError') {
-          errorMessage = 'Timeout: Request took too long (>10s)';
-        } else {
-          errorMessage = `Fetch error: ${fetchError.message}`;
-        }
+        return respondFetchFailed(fetchError.name === 'TimeoutError' || fetchError.name === 'AbortError', fetchError.message);
       }
-
-      const result: ExtractResult = {
-        success: false,
-        url: urlParam,
-        error: errorMessage,
-        fetchedUrl: urlParam,
-      };
-
-      return finalize({ requestId, startedAt, inputUrl: urlParam, payload: result, isRefreshBypass: refreshMode, computeStartedAt, extractMethod: 'none' });
+      return respondFetchFailed(false);
     }
 
   } catch (error) {
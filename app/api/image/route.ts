@@ -0,0 +1,232 @@
+import { NextResponse } from 'next/server';
+import sharp from 'sharp';
+import { validateUrl } from '../../lib/urlSafety';
+import { IMAGE_WIDTHS } from '../../lib/imageProxy';
+import { httpRequest, readBytes, BROWSER_USER_AGENT } from '../../lib/httpClient';
+import { clientIp } from '../../lib/clientIp';
+
+/**
+ * GET /api/image?url=<absolute image URL>&w=<width>
+ *
+ * Image proxy for reader content: fetches a publisher image server-side
+ * (no client IP or referrer reaches the publisher), checks type and size,
+ * resizes it to `w` (one of IMAGE_WIDTHS), and caches the result. Upstream
+ * fetches are rate-limited per client IP so the cache can't be flooded.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const FETCH_TIMEOUT_MS = 10000; // 10 seconds
+const MAX_IMAGE_BYTES = 8 * 1024 * 1024; // 8MB
+const MAX_REDIRECTS = 3;
+const FETCH_HEADERS = {
+  'User-Agent': BROWSER_USER_AGENT,
+  'Accept': 'image/avif,image/webp,image/png,image/jpeg,image/gif;q=0.9,*/*;q=0.5',
+};
+
+// Raster types only: SVG can carry script and would be served from our origin
+const ALLOWED_TYPES = new Set([
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/avif',
+  'image/gif',
+]);
+
+// Types sharp re-encodes; GIFs pass through so animations survive
+const RESIZABLE_TYPES = new Set(['image/jpeg', 'image/png', 'image/webp', 'image/avif']);
+
+// Browsers and the CDN keep proxied images for a day
+const CACHE_CONTROL = 'public, max-age=86400, stale-while-revalidate=604800';
+
+// =============================================================================
+// In-memory cache (LRU by insertion order, bounded by total bytes)
+// =============================================================================
+const CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+const CACHE_MAX_BYTES = 64 * 1024 * 1024; // 64MB
+
+interface CachedImage {
+  body: Buffer;
+  contentType: string;
+  expiresAt: number;
+}
+
+const imageCache = new Map<string, CachedImage>();
+let imageCacheBytes = 0;
+
+function getCached(key: string): CachedImage | null {
+  const entry = imageCache.get(key);
+  if (!entry) return null;
+
+  imageCache.delete(key);
+  if (Date.now() > entry.expiresAt) {
+    imageCacheBytes -= entry.body.length;
+    return null;
+  }
+
+  // Bump to most-recent position
+  imageCache.set(key, entry);
+  return entry;
+}
+
+function setCached(key: string, body: Buffer, contentType: string): void {
+  const existing = imageCache.get(key);
+  if (existing) {
+    imageCacheBytes -= existing.body.length;
+    imageCache.delete(key);
+  }
+
+  imageCache.set(key, { body, contentType, expiresAt: Date.now() + CACHE_TTL_MS });
+  imageCacheBytes += body.length;
+
+  for (const [oldKey, entry] of imageCache) {
+    if (imageCacheBytes <= CACHE_MAX_BYTES) break;
+    imageCache.delete(oldKey);
+    imageCacheBytes -= entry.body.length;
+  }
+}
+
+// =============================================================================
+// Rate limit (upstream fetches per client IP, fixed window, per instance)
+// =============================================================================
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const RATE_LIMIT_MAX_FETCHES = 240; // a feed's thumbnails plus a few articles
+
+const fetchCounts = new Map<string, number>();
+let rateWindowStart = 0;
+
+/**
+ * Count an upstream fetch for a client. Returns the seconds to wait when
+ * the client is over the limit, else 0.
+ */
+function checkFetchLimit(ip: string): number {
+  const now = Date.now();
+  if (now - rateWindowStart >= RATE_LIMIT_WINDOW_MS) {
+    rateWindowStart = now;
+    fetchCounts.clear();
+  }
+
+  const count = fetchCounts.get(ip) ?? 0;
+  if (count >= RATE_LIMIT_MAX_FETCHES) {
+    return Math.ceil((rateWindowStart + RATE_LIMIT_WINDOW_MS - now) / 1000);
+  }
+  fetchCounts.set(ip, count + 1);
+  return 0;
+}
+
+// =============================================================================
+// Resize
+// =============================================================================
+
+/**
+ * Resize to `width` (never enlarging), keeping the original format.
+ * Returns the original bytes if the image can't be decoded.
+ */
+async function resizeImage(body: Buffer, width: number): Promise<Buffer> {
+  try {
+    return await sharp(body).rotate().resize({ width, withoutEnlargement: true }).toBuffer();
+  } catch (error) {
+    console.log('[Image] Resize failed, serving original:', error instanceof Error ? error.message : error);
+    return body;
+  }
+}
+
+function imageResponse(body: Buffer, contentType: string, cacheStatus: 'hit' | 'miss'): NextResponse {
+  return new NextResponse(new Uint8Array(body), {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Length': String(body.length),
+      'Cache-Control': CACHE_CONTROL,
+      'X-Content-Type-Options': 'nosniff',
+      'Content-Security-Policy': "default-src 'none'; sandbox",
+      'X-Image-Cache': cacheStatus,
+    },
+  });
+}
+
+// =============================================================================
+// Handler
+// =============================================================================
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const urlParam = searchParams.get('url');
+  const widthParam = searchParams.get('w');
+
+  if (!urlParam) {
+    return NextResponse.json({ error: 'Missing url parameter' }, { status: 400 });
+  }
+
+  const validation = validateUrl(urlParam);
+  if (!validation.valid || !validation.url) {
+    return NextResponse.json({ error: validation.error }, { status: 400 });
+  }
+
+  const width = Number(widthParam);
+  if (!IMAGE_WIDTHS.includes(width)) {
+    return NextResponse.json({ error: `Invalid width (use one of ${IMAGE_WIDTHS.join(', ')})` }, { status: 400 });
+  }
+
+  const cacheKey = `${validation.url.href}|${width}`;
+  const cached = getCached(cacheKey);
+  if (cached) {
+    return imageResponse(cached.body, cached.contentType, 'hit');
+  }
+
+  const retryAfterSec = checkFetchLimit(clientIp(request));
+  if (retryAfterSec > 0) {
+    return NextResponse.json(
+      { error: 'Too many image requests' },
+      { status: 429, headers: { 'Retry-After': String(retryAfterSec) } }
+    );
+  }
+
+  try {
+    // Redirects are followed only to URLs that pass validateUrl
+    const { response, error, errorReason } = await httpRequest(validation.url, {
+      headers: FETCH_HEADERS,
+      timeoutMs: FETCH_TIMEOUT_MS,
+      retries: 1,
+      maxRedirects: MAX_REDIRECTS,
+    });
+    if (!response) {
+      console.log('[Image] Fetch failed:', error, validation.url.hostname);
+      if (errorReason === 'timeout') {
+        return NextResponse.json({ error: 'Image fetch timed out' }, { status: 504 });
+      }
+      return NextResponse.json({ error: errorReason === 'invalid_url' ? error : 'Failed to fetch image' }, { status: 502 });
+    }
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => {});
+      console.log('[Image] Upstream error:', response.status, validation.url.hostname);
+      return NextResponse.json({ error: `Upstream returned ${response.status}` }, { status: 502 });
+    }
+
+    const contentType = (response.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase();
+    if (!ALLOWED_TYPES.has(contentType)) {
+      await response.body?.cancel().catch(() => {});
+      console.log('[Image] Rejected content type:', contentType || '(none)', validation.url.hostname);
+      return NextResponse.json({ error: 'Not a supported image type' }, { status: 415 });
+    }
+
+    let body = await readBytes(response, MAX_IMAGE_BYTES);
+    if (!body) {
+      console.log('[Image] Too large:', validation.url.hostname);
+      return NextResponse.json({ error: 'Image too large' }, { status: 413 });
+    }
+    if (RESIZABLE_TYPES.has(contentType)) {
+      body = await resizeImage(body, width);
+    }
+
+    setCached(cacheKey, body, contentType);
+    return imageResponse(body, contentType, 'miss');
+  } catch (error) {
+    const timedOut = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+    console.error('[Image] Fetch failed:', validation.url.hostname, error);
+    return NextResponse.json(
+      { error: timedOut ? 'Image fetch timed out' : 'Failed to fetch image' },
+      { status: timedOut ? 504 : 502 }
+    );
+  }
+}
@@ -8,12 +8,15 @@ import {
   TelemetryReason,
 } from "../../lib/telemetry";
 import { healthLog, safeHost, normalizeError } from "../../lib/healthLog";
+import { StageReporter, ignoreStage, streamStages } from "../../lib/extractProgress";
+import { httpRequest, readText, BROWSER_HEADERS, BROWSER_USER_AGENT, HttpRequestOptions, HttpResult } from "../../lib/httpClient";
 
 // =============================================================================
 // Cache Configuration
 // =============================================================================
 const CACHE_TTL_MS = 6 * 60 * 60 * 1000; // 6 hours
 const NETWORK_TIMEOUT_MS = 10000; // 10 seconds for all network calls
+const MAX_PAGE_BYTES = 2 * 1024 * 1024;
 
 interface CacheEntry {
   publisherUrl: string;
@@ -145,38 +148,37 @@ function decodePublisherUrlFromToken(token: string): string | null {
 // Resolution Strategies
 // =============================================================================
 
+/**
+ * Request through the shared HTTP client, paced per host.
+ * A timeout throws "resolve_timeout", which ends resolution.
+ */
+async function resolveRequest(url: string, options: HttpRequestOptions = {}): Promise<HttpResult> {
+  const result = await httpRequest(url, {
+    headers: BROWSER_HEADERS,
+    timeoutMs: NETWORK_TIMEOUT_MS,
+    polite: {},
+    ...options,
+  });
+  if (result.errorReason === "timeout") {
+    throw new Error("resolve_timeout");
+  }
+  return result;
+}
+
 /**
  * Strategy: Follow redirects with GET request
  * Timeout: 10s
  */
 async function tryRedirectFollow(url: string): Promise<string | null> {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), NETWORK_TIMEOUT_MS);
-
-  try {
-    const response = await fetch(url, {
-      method: "GET",
-      redirect: "follow",
-      signal: controller.signal,
-      headers: {
-        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-        "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-        "Accept-Language": "en-US,en;q=0.9",
-      },
-    });
-    clearTimeout(timeout);
-    const finalUrl = response.url;
-    if (isValidPublisherUrl(finalUrl)) {
-      return finalUrl;
-    }
-    return null;
-  } catch (err) {
-    clearTimeout(timeout);
-    if (err instanceof Error && err.name === "AbortError") {
-      throw new Error("resolve_timeout");
-    }
+  const { response, url: finalUrl } = await resolveRequest(url);
+  if (!response) {
     return null;
   }
+  await response.body?.cancel().catch(() => {});
+  if (isValidPublisherUrl(finalUrl)) {
+    return finalUrl;
+  }
+  return null;
 }
 
 /**
@@ -188,33 +190,14 @@ async function tryRedirectFollow(url: string): Promise<string | null> {
  */
 async function tryBatchExecute(token: string): Promise<string | null> {
   // Step 1: Fetch the RSS article page to get decoding params
-  const controller1 = new AbortController();
-  const timeout1 = setTimeout(() => controller1.abort(), NETWORK_TIMEOUT_MS);
-
-  let html: string;
-  try {
-    const articlePageUrl = `https://news.google.com/rss/articles/${token}`;
-    const pageResponse = await fetch(articlePageUrl, {
-      method: "GET",
-      redirect: "follow",
-      signal: controller1.signal,
-      headers: {
-        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-        "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-        "Accept-Language": "en-US,en;q=0.9",
-      },
-    });
-    clearTimeout(timeout1);
-
-    if (!pageResponse.ok) {
-      return null;
-    }
-    html = await pageResponse.text();
-  } catch (err) {
-    clearTimeout(timeout1);
-    if (err instanceof Error && err.name === "AbortError") {
-      throw new Error("resolve_timeout");
-    }
+  const articlePageUrl = `https://news.google.com/rss/articles/${token}`;
+  const page = await resolveRequest(articlePageUrl);
+  if (!page.response || page.error) {
+    await page.response?.body?.cancel().catch(() => {});
+    return null;
+  }
+  const html = await readText(page.response, MAX_PAGE_BYTES).catch(() => null);
+  if (html === null) {
     return null;
   }
 
@@ -228,9 +211,6 @@ async function tryBatchExecute(token: string): Promise<string | null> {
   const timestamp = timestampMatch[1];
 
   // Step 2: Call batchexecute API
-  const controller2 = new AbortController();
-  const timeout2 = setTimeout(() => controller2.abort(), NETWORK_TIMEOUT_MS);
-
   try {
     const reqPayload = [
       [
@@ -239,25 +219,27 @@ async function tryBatchExecute(token: string): Promise<string | null> {
       ],
     ];
 
-    const batchResponse = await fetch(
+    const batch = await resolveRequest(
       "https://news.google.com/_/DotsSplashUi/data/batchexecute",
       {
         method: "POST",
-        signal: controller2.signal,
         headers: {
           "Content-Type": "application/x-www-form-urlencoded;charset=UTF-8",
-          "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+          "User-Agent": BROWSER_USER_AGENT,
         },
         body: `f.req=${encodeURIComponent(JSON.stringify([reqPayload]))}`,
       }
     );
-    clearTimeout(timeout2);
 
-    if (!batchResponse.ok) {
+    if (!batch.response || batch.error) {
+      await batch.response?.body?.cancel().catch(() => {});
       return null;
     }
 
-    const batchText = await batchResponse.text();
+    const batchText = await readText(batch.response, MAX_PAGE_BYTES);
+    if (batchText === null) {
+      return null;
+    }
 
     // Parse response - skip the )]}' prefix and find the JSON
     const lines = batchText.split("\n").filter((line) => line.trim());
@@ -289,9 +271,8 @@ async function tryBatchExecute(token: string): Promise<string | null> {
     }
     return null;
   } catch (err) {
-    clearTimeout(timeout2);
-    if (err instanceof Error && err.name === "AbortError") {
-      throw new Error("resolve_timeout");
+    if (err instanceof Error && err.message === "resolve_timeout") {
+      throw err;
     }
     return null;
   }
@@ -302,28 +283,18 @@ async function tryBatchExecute(token: string): Promise<string | null> {
  * Timeout: 10s
  */
 async function tryHtmlParsing(url: string): Promise<{ publisherUrl: string | null; strategy: string | null }> {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), NETWORK_TIMEOUT_MS);
+  const { response, error } = await resolveRequest(url);
+  if (!response || error) {
+    await response?.body?.cancel().catch(() => {});
+    return { publisherUrl: null, strategy: null };
+  }
 
   try {
-    const response = await fetch(url, {
-      method: "GET",
-      redirect: "follow",
-      signal: controller.signal,
-      headers: {
-        "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-        "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-        "Accept-Language": "en-US,en;q=0.9",
-      },
-    });
-    clearTimeout(timeout);
-
-    if (!response.ok) {
+    const html = await readText(response, MAX_PAGE_BYTES);
+    if (html === null) {
       return { publisherUrl: null, strategy: null };
     }
 
-    const html = await response.text();
-
     // Try canonical link
     const canonicalMatch = html.match(/<link[^>]+rel=["']canonical["'][^>]+href=["']([^"']+)["']/i) ||
                            html.match(/<link[^>]+href=["']([^"']+)["'][^>]+rel=["']canonical["']/i);
@@ -371,11 +342,7 @@ async function tryHtmlParsing(url: string): Promise<{ publisherUrl: string | nul
     }
 
     return { publisherUrl: null, strategy: null };
-  } catch (err) {
-    clearTimeout(timeout);
-    if (err instanceof Error && err.name === "AbortError") {
-      throw new Error("resolve_timeout");
-    }
+  } catch {
     return { publisherUrl: null, strategy: null };
   }
 }
@@ -411,9 +378,14 @@ function errorToTelemetryReason(error: string | null): TelemetryReason {
 }
 
 /**
- * Main resolver function - shared by GET and POST
+ * Main resolver function - shared by GET and POST.
+ * Reports each strategy to `onStage` for streaming requests (?stream=1).
  */
-async function resolveUrl(inputUrl: string, debug: boolean = false): Promise<ResolveResult> {
+async function resolveUrl(
+  inputUrl: string,
+  debug: boolean = false,
+  onStage: StageReporter = ignoreStage
+): Promise<ResolveResult> {
   const requestId = randomUUID();
   const startedAt = Date.now();
 
@@ -520,6 +492,7 @@ async function resolveUrl(inputUrl: string, debug: boolean = false): Promise<Res
     // Strategy 2: Google News batchexecute API (most reliable for Google News URLs)
     if (!publisherUrl && token) {
       methodsTried.push("batchexecute");
+      onStage("resolving", "asking Google News");
       const batchUrl = await tryBatchExecute(token);
       if (batchUrl) {
         publisherUrl = batchUrl;
@@ -530,6 +503,7 @@ async function resolveUrl(inputUrl: string, debug: boolean = false): Promise<Res
     // Strategy 3: Follow redirects
     if (!publisherUrl) {
       methodsTried.push("redirect");
+      onStage("resolving", "following redirects");
       const redirectUrl = await tryRedirectFollow(normalizedUrl);
       if (redirectUrl) {
         publisherUrl = redirectUrl;
@@ -540,6 +514,7 @@ async function resolveUrl(inputUrl: string, debug: boolean = false): Promise<Res
     // Strategy 4: Parse HTML for meta tags
     if (!publisherUrl) {
       methodsTried.push("html_parse");
+      onStage("resolving", "reading the Google News page");
       const htmlResult = await tryHtmlParsing(normalizedUrl);
       if (htmlResult.publisherUrl) {
         publisherUrl = htmlResult.publisherUrl;
@@ -569,7 +544,7 @@ async function resolveUrl(inputUrl: string, debug: boolean = false): Promise<Res
 // =============================================================================
 
 /**
- * GET handler - read URL from query param
+ * GET handler - read URL from query param (?stream=1 for progress events)
  */
 export async function GET(req: NextRequest) {
   try {
@@ -581,6 +556,10 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ success: false, error: "Missing url parameter" }, { status: 400 });
     }
 
+    if (searchParams.get("stream") === "1") {
+      return streamStages(report => resolveUrl(inputUrl, debug, report));
+    }
+
     const result = await resolveUrl(inputUrl, debug);
     return NextResponse.json(result);
   } catch (err) {
@@ -1,76 +1,21 @@
 import { NextResponse } from 'next/server';
-import { simpleHash, getDomain, isWithin24Hours } from '@/app/lib/utils';
+import { simpleHash, getDomain, isWithinHours } from '@/app/lib/utils';
 import { ArticleSummary } from '@/app/types/article';
 import { randomUUID } from 'crypto';
 import { healthLog, makeRequestId, normalizeError } from '@/app/lib/healthLog';
+import { parseFeed, FeedItem } from '@/app/lib/feedParser';
+import { getEnabledPublisherFeeds, PublisherFeed } from '@/app/lib/publisherFeeds';
+import { clusterArticles } from '@/app/lib/storyClustering';
+import { parseTimeWindow, getTimeWindowHours, TimeWindow } from '@/app/lib/timeWindow';
+import { getTeamProfile } from '@/app/lib/teams';
+import { httpRequest, readText, FEED_USER_AGENT } from '@/app/lib/httpClient';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
-interface RSSItem {
-  title?: string;
-  link?: string;
-  pubDate?: string;
-  guid?: string;
-  source?: string;
-  sourceUrl?: string;
-}
-
-/**
- * Parse RSS XML safely (basic implementation)
- */
-function parseRSS(xmlText: string): RSSItem[] {
-  const items: RSSItem[] = [];
-
-  try {
-    // Extract all <item> elements
-    const itemRegex = /<item>([\s\S]*?)<\/item>/gi;
-    const itemMatches = xmlText.matchAll(itemRegex);
-
-    for (const match of itemMatches) {
-      const itemXml = match[1];
-
-      // Extract fields from item
-      const title = itemXml.match(/<title>([\s\S]*?)<\/title>/i)?.[1]?.trim();
-      const link = itemXml.match(/<link>([\s\S]*?)<\/link>/i)?.[1]?.trim();
-      const pubDate = itemXml.match(/<pubDate>([\s\S]*?)<\/pubDate>/i)?.[1]?.trim();
-      const guid = itemXml.match(/<guid[^>]*>([\s\S]*?)<\/guid>/i)?.[1]?.trim();
-
-      // Extract source element and its url attribute
-      const sourceMatch = itemXml.match(/<source[^>]*url="([^"]*)"[^>]*>([\s\S]*?)<\/source>/i);
-      const sourceUrl = sourceMatch?.[1]?.trim();
-      const source = sourceMatch?.[2]?.trim();
-
-      if (title && link) {
-        items.push({
-          title: decodeHTML(title),
-          link,
-          pubDate,
-          guid,
-          source: source ? decodeHTML(source) : undefined,
-          sourceUrl,
-        });
-      }
-    }
-  } catch (error) {
-    console.error('RSS parsing error:', error);
-  }
-
-  return items;
-}
-
-/**
- * Decode HTML entities
- */
-function decodeHTML(html: string): string {
-  return html
-    .replace(/&amp;/g, '&')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'")
-    .replace(/&apos;/g, "'");
-}
+const PUBLISHER_FEED_TIMEOUT_MS = 8000;
+const GOOGLE_RSS_TIMEOUT_MS = 10000;
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
 
 /**
  * Extract publisher from title pattern "Title - Publisher"
@@ -81,25 +26,33 @@ function extractPublisherFromTitle(title: string): string | undefined {
 }
 
 /**
- * Normalize RSS items to ArticleSummary format
- * Returns Google News wrapper URLs for extraction to resolve
+ * Normalize feed items to ArticleSummary format.
+ * Google News items keep their wrapper URL (/api/resolve unwraps it later);
+ * publisher feed items already carry the canonical publisher URL.
  */
-function normalizeRSSItems(items: RSSItem[]): ArticleSummary[] {
+function normalizeFeedItems(items: FeedItem[], publisherFeed?: PublisherFeed): ArticleSummary[] {
   return items
     .map((item) => {
       if (!item.link || !item.title) return null;
 
-      // Use Google News wrapper URL - /api/extract will resolve to publisher URL
       const url = item.link;
       const id = simpleHash(item.guid || url);
 
-      // Derive publisher domain from sourceUrl for display/filtering
-      // Fall back to extracting from title or using google.com
-      const publisherDomain = item.sourceUrl ? getDomain(item.sourceUrl) : 'news.google.com';
-      const sourceDomain = publisherDomain;
-
-      // Use source name, or extract from title, or fall back to domain
-      const sourceName = item.source || extractPublisherFromTitle(item.title) || sourceDomain;
+      let sourceDomain: string;
+      let sourceName: string;
+      if (publisherFeed) {
+        // Direct feed: domain comes from the article link itself
+        const linkDomain = getDomain(url);
+        sourceDomain = linkDomain !== 'unknown' ? linkDomain : publisherFeed.domain;
+        sourceName = publisherFeed.name;
+      } else {
+        // Derive publisher domain from sourceUrl for display/filtering
+        // Fall back to extracting from title or using google.com
+        sourceDomain = item.sourceUrl ? getDomain(item.sourceUrl) : 'news.google.com';
+
+        // Use source name, or extract from title, or fall back to domain
+        sourceName = item.source || extractPublisherFromTitle(item.title) || sourceDomain;
+      }
 
       // Parse pubDate to ISO string
       let publishedAt = new Date().toISOString(); // Default to now
@@ -111,18 +64,107 @@ function normalizeRSSItems(items: RSSItem[]): ArticleSummary[] {
         }
       }
 
-      return {
+      const summary: ArticleSummary = {
         id,
         title: item.title,
-        url, // Google News wrapper URL
+        url,
         publishedAt,
         sourceName,
         sourceDomain,
       };
+      if (item.author) summary.author = item.author;
+      if (item.thumbnail) summary.thumbnail = item.thumbnail;
+
+      return summary;
     })
     .filter((item): item is ArticleSummary => item !== null);
 }
 
+/**
+ * Keep items inside the requested time window (or without a publishedAt)
+ */
+function filterRecent(items: ArticleSummary[], timeWindow: TimeWindow): ArticleSummary[] {
+  const hours = getTimeWindowHours(timeWindow);
+  return items.filter((item) => {
+    if (!item.publishedAt) return true; // Keep items without dates
+    return isWithinHours(item.publishedAt, hours);
+  });
+}
+
+/**
+ * Fetch and normalize one direct publisher feed.
+ * Never throws: failures are recorded in health telemetry and yield [].
+ */
+async function fetchPublisherFeed(
+  feed: PublisherFeed,
+  requestId: string,
+  query: string,
+  timeWindow: TimeWindow
+): Promise<ArticleSummary[]> {
+  const startedAt = Date.now();
+  let httpStatus: number | undefined;
+
+  try {
+    const { response, error } = await httpRequest(feed.url, {
+      headers: {
+        'User-Agent': FEED_USER_AGENT,
+        'Accept': 'application/rss+xml, application/atom+xml, application/feed+json, application/xml;q=0.9, */*;q=0.8',
+      },
+      cache: 'no-store',
+      timeoutMs: PUBLISHER_FEED_TIMEOUT_MS,
+      retries: 1,
+    });
+    httpStatus = response?.status;
+
+    if (!response || error) {
+      await response?.body?.cancel().catch(() => {});
+      throw new Error(`Feed fetch failed: ${error}`);
+    }
+
+    const text = await readText(response, MAX_FEED_BYTES);
+    if (text === null) {
+      throw new Error('Feed fetch failed: feed too large');
+    }
+
+    const parsed = parseFeed(text);
+    const items = filterRecent(normalizeFeedItems(parsed.items, feed), timeWindow);
+    console.log(`[API] Publisher feed ${feed.id}: ${parsed.items.length} parsed, ${items.length} within ${timeWindow}`);
+
+    healthLog({
+      route: '/api/search',
+      type: 'search',
+      ok: true,
+      durationMs: Date.now() - startedAt,
+      requestId,
+      source: 'publisher_rss',
+      feedId: feed.id,
+      query,
+      itemsReturned: items.length,
+      itemsParsed: parsed.items.length,
+    });
+
+    return items;
+  } catch (error) {
+    console.error(`[API] Publisher feed ${feed.id} error:`, error);
+
+    healthLog({
+      route: '/api/search',
+      type: 'search',
+      ok: false,
+      durationMs: Date.now() - startedAt,
+      requestId,
+      source: 'publisher_rss',
+      feedId: feed.id,
+      query,
+      itemsReturned: 0,
+      itemsParsed: 0,
+      ...normalizeError(error instanceof Error ? error : String(error), httpStatus),
+    });
+
+    return [];
+  }
+}
+
 /**
  * Finalize the request: log metrics and return response
  */
@@ -136,7 +178,7 @@ function finalize(
   cacheBustUsed: boolean,
   error: string | null,
   payload: { items: ArticleSummary[] } | { error: string; items: [] },
-  extra?: { itemsParsed?: number; uniqueDomains?: number }
+  extra?: { itemsParsed?: number; uniqueDomains?: number; duplicatesRemoved?: number }
 ): NextResponse {
   const durationMs = Date.now() - startedAt;
 
@@ -176,6 +218,7 @@ function finalize(
     query,
     itemsReturned,
     itemsParsed: extra?.itemsParsed ?? 0,
+    duplicatesRemoved: extra?.duplicatesRemoved,
     uniqueDomains: extra?.uniqueDomains,
     ...(ok ? {} : errorInfo),
   });
@@ -187,12 +230,19 @@ export async function GET(request: Request) {
   const requestId = randomUUID();
   const startedAt = Date.now();
 
-  let query = 'Phoenix Suns';
+  let query = getTeamProfile(null).newsQuery;
   let rssUrl = '';
 
   try {
     const { searchParams } = new URL(request.url);
-    query = searchParams.get('q') || 'Phoenix Suns';
+    const team = getTeamProfile(searchParams.get('team'));
+    query = searchParams.get('q') || team.newsQuery;
+    const timeWindow = parseTimeWindow(searchParams.get('window'));
+
+    // Publisher feeds run in parallel with Google News and never reject
+    const publisherFeedsPromise = Promise.all(
+      getEnabledPublisherFeeds(team.id).map(feed => fetchPublisherFeed(feed, requestId, query, timeWindow))
+    );
 
     // Add cache-buster to prevent stale responses
     const cacheBust = Date.now();
@@ -201,33 +251,52 @@ export async function GET(request: Request) {
 
     console.log('[API] Fetching RSS feed:', rssUrl);
 
-    const response = await fetch(rssUrl, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; SunsReader/1.0)',
-      },
-      cache: 'no-store',
-    });
+    let googleItems: ArticleSummary[] = [];
+    let googleStatus: number | null = null;
+    let googleError: string | null = null;
+    let itemsParsed = 0;
 
-    if (!response.ok) {
-      throw new Error(`RSS fetch failed: ${response.status}`);
-    }
+    try {
+      const { response, error } = await httpRequest(rssUrl, {
+        headers: {
+          'User-Agent': FEED_USER_AGENT,
+        },
+        cache: 'no-store',
+        timeoutMs: GOOGLE_RSS_TIMEOUT_MS,
+        retries: 1,
+      });
+      googleStatus = response?.status ?? null;
+
+      if (!response || error) {
+        await response?.body?.cancel().catch(() => {});
+        throw new Error(`RSS fetch failed: ${error}`);
+      }
 
-    const xmlText = await response.text();
-    console.log('[API] RSS fetched, parsing...');
+      const xmlText = await readText(response, MAX_FEED_BYTES);
+      if (xmlText === null) {
+        throw new Error('RSS fetch failed: feed too large');
+      }
+      console.log('[API] RSS fetched, parsing...');
 
-    const rssItems = parseRSS(xmlText);
-    const itemsParsed = rssItems.length;
-    console.log(`[API] Parsed ${itemsParsed} items from RSS`);
+      const feed = parseFeed(xmlText);
+      itemsParsed = feed.items.length;
+      console.log(`[API] Parsed ${itemsParsed} items from ${feed.format} feed`);
 
-    let normalized = normalizeRSSItems(rssItems);
+      googleItems = filterRecent(normalizeFeedItems(feed.items), timeWindow);
+      console.log(`[API] ${googleItems.length} items within ${timeWindow}`);
+    } catch (error) {
+      console.error('[API] Google News error:', error);
+      googleError = error instanceof Error ? error.message : 'Failed to fetch articles';
+    }
 
-    // Filter to last 24 hours (or keep if no publishedAt)
-    normalized = normalized.filter((item) => {
-      if (!item.publishedAt) return true; // Keep items without dates
-      return isWithin24Hours(item.publishedAt);
-    });
+    const publisherItems = (await publisherFeedsPromise).flat();
 
-    console.log(`[API] ${normalized.length} items within 24 hours`);
+    // Google News failing is only fatal when no publisher feed produced items
+    if (googleError && publisherItems.length === 0) {
+      throw new Error(googleError);
+    }
+
+    const normalized = [...googleItems, ...publisherItems];
 
     // Sort by publishedAt (newest first)
     normalized.sort((a, b) => {
@@ -239,17 +308,21 @@ export async function GET(request: Request) {
     // Count unique domains for health telemetry
     const uniqueDomains = new Set(normalized.map(item => item.sourceDomain)).size;
 
+    // Group copies of the same story (syndication, wrapper + canonical URL)
+    const { items: stories, duplicatesRemoved } = clusterArticles(normalized);
+    console.log(`[API] ${stories.length} stories after clustering (${duplicatesRemoved} folded)`);
+
     return finalize(
       requestId,
       startedAt,
       query,
       rssUrl,
-      response.status,
-      normalized.length,
+      googleStatus,
+      stories.length,
       true,
-      null,
-      { items: normalized },
-      { itemsParsed, uniqueDomains }
+      googleError,
+      { items: stories },
+      { itemsParsed, uniqueDomains, duplicatesRemoved }
     );
   } catch (error) {
     console.error('[API] Search error:', error);
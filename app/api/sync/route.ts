@@ -0,0 +1,182 @@
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from "next/server";
+import { healthLog, makeRequestId, normalizeError, SyncHealthFields } from "../../lib/healthLog";
+import { getSyncStore } from "../../lib/syncStore";
+import { clientIp } from "../../lib/clientIp";
+import { readText } from "../../lib/httpClient";
+import {
+  authenticate,
+  checkRateLimit,
+  createPairingCode,
+  parseSyncEntries,
+  pullDocument,
+  pushEntries,
+  redeemPairingCode,
+  registerAccount,
+} from "../../lib/syncService";
+
+/**
+ * Optional cross-device sync.
+ *
+ *   GET  /api/sync                          → { document }          (auth)
+ *   POST /api/sync { action: "push", entries } → { document }       (auth)
+ *   POST /api/sync { action: "register" }   → { credentials }
+ *   POST /api/sync { action: "pair" }       → { pairing }           (auth)
+ *   POST /api/sync { action: "redeem", code } → { credentials }
+ *
+ * Auth is `Authorization: Bearer <token>` from register/redeem, which are
+ * rate-limited per client IP (429 with Retry-After).
+ */
+
+type SyncAction = SyncHealthFields["action"];
+
+// Oversized bodies are rejected while reading (Content-Length first)
+const MAX_BODY_LENGTH = 512 * 1024;
+
+function bearerToken(request: NextRequest): string | null {
+  const header = request.headers.get("authorization") ?? "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Emit health telemetry and return the JSON response.
+ */
+function logAndReturn(
+  requestId: string,
+  startedAt: number,
+  action: SyncAction,
+  status: number,
+  body: Record<string, unknown>,
+  extra?: { entriesIn?: number; entriesOut?: number; error?: string }
+): NextResponse {
+  const ok = status < 400;
+  healthLog({
+    route: "/api/sync",
+    type: "sync",
+    ok,
+    durationMs: Date.now() - startedAt,
+    requestId,
+    action,
+    backend: getSyncStore().backend,
+    httpStatus: status,
+    entriesIn: extra?.entriesIn,
+    entriesOut: extra?.entriesOut,
+    ...(ok ? {} : normalizeError(extra?.error ?? String(body.error ?? ""), status)),
+  });
+  return NextResponse.json(body, { status });
+}
+
+export async function GET(request: NextRequest) {
+  const requestId = makeRequestId();
+  const startedAt = Date.now();
+  const store = getSyncStore();
+
+  try {
+    const accountId = await authenticate(store, bearerToken(request));
+    if (!accountId) {
+      return logAndReturn(requestId, startedAt, "pull", 401, { error: "Unauthorized" });
+    }
+
+    const document = await pullDocument(store, accountId);
+    return logAndReturn(requestId, startedAt, "pull", 200, { document }, {
+      entriesOut: Object.keys(document.entries).length,
+    });
+  } catch (err) {
+    console.error("[Sync] pull failed:", err);
+    return logAndReturn(requestId, startedAt, "pull", 503, { error: "Sync unavailable" }, {
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const requestId = makeRequestId();
+  const startedAt = Date.now();
+  const store = getSyncStore();
+
+  let action: SyncAction = "push";
+
+  try {
+    const raw = await readText(request, MAX_BODY_LENGTH);
+    if (raw === null) {
+      return logAndReturn(requestId, startedAt, action, 413, { error: "Payload too large" });
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw || "{}");
+    } catch {
+      return logAndReturn(requestId, startedAt, action, 400, { error: "Invalid JSON" });
+    }
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      return logAndReturn(requestId, startedAt, action, 400, { error: "Invalid JSON" });
+    }
+    const body = parsed as Record<string, unknown>;
+
+    if (body.action === "register" || body.action === "redeem") {
+      action = body.action;
+      const limit = await checkRateLimit(store, action, clientIp(request));
+      if (!limit.allowed) {
+        const response = logAndReturn(requestId, startedAt, action, 429, { error: "Too many requests" });
+        response.headers.set("Retry-After", String(limit.retryAfterSec));
+        return response;
+      }
+    }
+
+    switch (body.action) {
+      case "register": {
+        action = "register";
+        const credentials = await registerAccount(store);
+        console.log("[Sync] registered new account");
+        return logAndReturn(requestId, startedAt, action, 200, { credentials });
+      }
+
+      case "redeem": {
+        action = "redeem";
+        if (typeof body.code !== "string") {
+          return logAndReturn(requestId, startedAt, action, 400, { error: "Missing code" });
+        }
+        const credentials = await redeemPairingCode(store, body.code);
+        if (!credentials) {
+          return logAndReturn(requestId, startedAt, action, 404, { error: "Pairing code not found or expired" });
+        }
+        return logAndReturn(requestId, startedAt, action, 200, { credentials });
+      }
+
+      case "pair":
+      case "push": {
+        action = body.action;
+        const accountId = await authenticate(store, bearerToken(request));
+        if (!accountId) {
+          return logAndReturn(requestId, startedAt, action, 401, { error: "Unauthorized" });
+        }
+
+        if (action === "pair") {
+          const pairing = await createPairingCode(store, accountId);
+          return logAndReturn(requestId, startedAt, action, 200, { pairing });
+        }
+
+        const entries = parseSyncEntries(body.entries);
+        if (!entries) {
+          return logAndReturn(requestId, startedAt, action, 400, { error: "Invalid entries" });
+        }
+        const document = await pushEntries(store, accountId, entries);
+        return logAndReturn(requestId, startedAt, action, 200, { document }, {
+          entriesIn: Object.keys(entries).length,
+          entriesOut: Object.keys(document.entries).length,
+        });
+      }
+
+      default:
+        return logAndReturn(requestId, startedAt, action, 400, { error: "Unknown action" });
+    }
+  } catch (err) {
+    console.error(`[Sync] ${action} failed:`, err);
+    return logAndReturn(requestId, startedAt, action, 503, { error: "Sync unavailable" }, {
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
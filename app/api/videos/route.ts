@@ -1,14 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { healthLog, makeRequestId, normalizeError } from "../../lib/healthLog";
+import { parseTimeWindow, getTimeWindowHours, TimeWindow } from "../../lib/timeWindow";
+import { getTeamProfile, TeamProfile } from "../../lib/teams";
+import { httpRequest } from "../../lib/httpClient";
 
 export const dynamic = 'force-dynamic';
 
 const YT_SEARCH_URL = "https://www.googleapis.com/youtube/v3/search";
 const CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
 
-const PRIMARY_Q = "Phoenix Suns";
-const SECONDARY_Q = "Suns";
-
 const PRIMARY_TIMEOUT_MS = 8000;
 const SECONDARY_TIMEOUT_MS = 2500;
 
@@ -37,57 +37,10 @@ const WEAK_QUALIFIERS = [
   "lose",
 ];
 
-// Negative keywords to exclude non-basketball "suns" content.
-// Applied ONLY to Branch 2, NOT to "phoenix suns" auto-include.
-const NEGATIVE_KEYWORDS = [
-  // Space / astronomy / science
-  "astronomy",
-  "solar system",
-  "solar eclipse",
-  "solar flare",
-  "nasa",
-  "planet",
-  "orbit",
-  "telescope",
-  "cosmos",
-  "astrophysic",
-
-  // Astrology / horoscope / zodiac
-  "astrology",
-  "horoscope",
-  "zodiac",
-  "tarot",
-  "birth chart",
-
-  // Solar energy
-  "solar panel",
-  "solar energy",
-  "solar power",
-  "photovoltaic",
-  "inverter",
-  "kilowatt",
-
-  // Sunscreen / skincare / UV
-  "sunscreen",
-  "sunblock",
-  "spf",
-  "tanning",
-  "uv protection",
-  "skincare",
-
-  // Other sports "Suns" teams
-  "brisbane suns",
-  "gold coast suns",
-  "sunderland",
-
-  // Weather / generic sun
-  "sunrise yoga",
-  "sunset timelapse",
-  "sun exposure",
-];
+// Team-specific negatives (e.g. astronomy for "suns") live in the team profile.
 
 // Gaming / simulation negatives — category-level filter for video games.
-// Applied ONLY to Branch 2, NOT to "phoenix suns" auto-include.
+// Applied ONLY to Branch 2, NOT to the team's explicit relevance keywords.
 const GAMING_NEGATIVE_KEYWORDS = [
   "nba2k", "nba 2k", "2k26", "2k25", "2k24", "2k",
   "mycareer", "myteam", "myleague",
@@ -96,7 +49,6 @@ const GAMING_NEGATIVE_KEYWORDS = [
   "ps5", "xbox",
   "mod", "mods",
   "spider-man",
-  "fading suns",
 ];
 
 // YouTube API returns HTML-encoded entities in snippet fields (e.g. &amp; &#39; &quot;).
@@ -134,7 +86,7 @@ function decodeHtmlEntities(str: string): string {
   }
 }
 
-// Per-(query, pageToken) cache
+// Per-(team, query, time window, pageToken) cache
 const cache = new Map<string, { data: any; expires: number }>();
 
 interface NormalizedVideo {
@@ -155,34 +107,20 @@ interface PageResult {
   cacheHit: boolean;     // whether this result came from in-memory cache
 }
 
-/**
- * Fetch with an AbortController timeout.
- */
-async function fetchWithTimeout(
-  url: string,
-  timeoutMs: number
-): Promise<Response> {
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), timeoutMs);
-  try {
-    return await fetch(url, { signal: controller.signal });
-  } finally {
-    clearTimeout(timer);
-  }
-}
-
 /**
  * Fetch one page of YouTube search results for a given query.
- * Uses the per-(query, pageToken) cache to avoid redundant API calls.
+ * Uses the per-(team, query, time window, pageToken) cache to avoid redundant API calls.
  */
 async function fetchYouTubePage(
   apiKey: string,
+  team: TeamProfile,
   q: string,
+  timeWindow: TimeWindow,
   publishedAfter: string,
   timeoutMs: number,
   pageToken?: string
 ): Promise<PageResult> {
-  const cacheKey = `${q}|${pageToken ?? "__first__"}`;
+  const cacheKey = `${team.id}|${q}|${timeWindow}|${pageToken ?? "__first__"}`;
 
   const cached = cache.get(cacheKey);
   if (cached && Date.now() < cached.expires) {
@@ -209,13 +147,18 @@ async function fetchYouTubePage(
   const start = Date.now();
   console.log(`[videos] fetch start q="${q}" pageToken=${pageToken ?? "none"}`);
 
-  const res = await fetchWithTimeout(
+  const { response: res, error } = await httpRequest(
     `${YT_SEARCH_URL}?${params.toString()}`,
-    timeoutMs
+    { timeoutMs, retries: 1 }
   );
 
   const duration = Date.now() - start;
 
+  if (!res) {
+    console.error(`[videos] fetch error q="${q}" (${duration}ms):`, error);
+    throw new Error(`YouTube API error: ${error}`);
+  }
+
   if (!res.ok) {
     const text = await res.text();
     console.error(
@@ -243,7 +186,7 @@ async function fetchYouTubePage(
     url: `https://www.youtube.com/watch?v=${item.id?.videoId}`,
   }));
 
-  const videos = filterRelevant(rawVideos);
+  const videos = filterRelevant(rawVideos, team);
   console.log(
     `[videos] filtered q="${q}" ${rawVideos.length} -> ${videos.length} videos`
   );
@@ -261,30 +204,32 @@ async function fetchYouTubePage(
 }
 
 /**
- * Filter videos by relevance to Phoenix Suns basketball.
+ * Filter videos by relevance to the team's basketball coverage.
  *
- * Branch 1: Auto-include if "phoenix suns" appears in combined text (title+desc+channel).
- * Branch 2: If "suns" appears in combined text, qualify using title+description only:
+ * Branch 1: Auto-include if a team relevance keyword (e.g. "phoenix suns") appears
+ *   in combined text (title+desc+channel).
+ * Branch 2: If an ambiguous team keyword (e.g. "suns") appears in combined text,
+ *   qualify using title+description only:
  *   - needs ≥1 strong qualifier OR ≥2 weak qualifiers
- *   - then must pass negative keyword + gaming blacklists
+ *   - then must pass the team's negative keywords + gaming blacklists
  * Branch 3: Exclude everything else.
  */
-function filterRelevant(videos: NormalizedVideo[]): NormalizedVideo[] {
+function filterRelevant(videos: NormalizedVideo[], team: TeamProfile): NormalizedVideo[] {
   return videos.filter((v) => {
     const combinedAll = `${v.title ?? ""} ${v.description ?? ""} ${v.channelTitle ?? ""}`.toLowerCase();
     const combinedTD = `${v.title ?? ""} ${v.description ?? ""}`.toLowerCase();
 
-    // Branch 1: explicit "phoenix suns" — always include, no blacklist
-    if (combinedAll.includes("phoenix suns")) return true;
+    // Branch 1: explicit team name — always include, no blacklist
+    if (team.relevanceKeywords.some((kw) => combinedAll.includes(kw))) return true;
 
-    // Branch 2: "suns" + two-tier qualifier system
-    if (combinedAll.includes("suns")) {
+    // Branch 2: ambiguous team name + two-tier qualifier system
+    if (team.ambiguousKeywords.some((kw) => combinedAll.includes(kw))) {
       const hasStrong = STRONG_QUALIFIERS.some((kw) => combinedTD.includes(kw));
       const weakCount = WEAK_QUALIFIERS.filter((kw) => combinedTD.includes(kw)).length;
 
       if (hasStrong || weakCount >= 2) {
         // Check negative blacklists against full combined text
-        const neg = NEGATIVE_KEYWORDS.find((term) => combinedAll.includes(term))
+        const neg = team.negativeKeywords.find((term) => combinedAll.includes(term))
           ?? GAMING_NEGATIVE_KEYWORDS.find((term) => combinedAll.includes(term));
         if (neg) {
           console.log(`[videos] blacklist drop: "${v.title}" matched "${neg}"`);
@@ -347,6 +292,10 @@ export async function GET(request: NextRequest) {
     request.nextUrl.searchParams.get("pageToken") ?? undefined;
   const forceRefresh =
     request.nextUrl.searchParams.get("refresh") === "1";
+  const timeWindow = parseTimeWindow(
+    request.nextUrl.searchParams.get("window")
+  );
+  const team = getTeamProfile(request.nextUrl.searchParams.get("team"));
 
   // Bust in-memory cache on explicit refresh
   if (forceRefresh) {
@@ -356,14 +305,16 @@ export async function GET(request: NextRequest) {
 
   try {
     const publishedAfter = new Date(
-      Date.now() - 24 * 60 * 60 * 1000
+      Date.now() - getTimeWindowHours(timeWindow) * 60 * 60 * 1000
     ).toISOString();
 
     if (pageToken) {
       // Page 2+: primary query only
       const primary = await fetchYouTubePage(
         apiKey,
-        PRIMARY_Q,
+        team,
+        team.videoPrimaryQuery,
+        timeWindow,
         publishedAfter,
         PRIMARY_TIMEOUT_MS,
         pageToken
@@ -389,10 +340,12 @@ export async function GET(request: NextRequest) {
 
     // First page: merge primary + secondary via Promise.allSettled
     const [primaryResult, secondaryResult] = await Promise.allSettled([
-      fetchYouTubePage(apiKey, PRIMARY_Q, publishedAfter, PRIMARY_TIMEOUT_MS),
+      fetchYouTubePage(apiKey, team, team.videoPrimaryQuery, timeWindow, publishedAfter, PRIMARY_TIMEOUT_MS),
       fetchYouTubePage(
         apiKey,
-        SECONDARY_Q,
+        team,
+        team.videoSecondaryQuery,
+        timeWindow,
         publishedAfter,
         SECONDARY_TIMEOUT_MS
       ),
@@ -1,18 +1,49 @@
-import React from 'react';
+import React, { useState } from 'react';
 import Link from 'next/link';
 import { useSearchParams } from 'next/navigation';
-import { Article } from '../types/article';
+import { Article, RelatedArticle } from '../types/article';
+import { getRelativeTime, formatDate, normalizeTitle } from '../lib/utils';
+import { isPaywalledDomain } from '../lib/paywalledSources';
+import { THUMBNAIL_WIDTH, proxyImageUrl } from '../lib/imageProxy';
 
 interface ArticleListProps {
   articles: Article[];
   showAddToTrusted?: boolean;
   onAddToTrusted?: (domain: string) => void;
   trustedDomains?: string[];
+  savedIds?: Set<string>;
+  onToggleSave?: (article: Article) => void;
+  downloadedIds?: Set<string>;
+  paywalledDomains?: Set<string>;
 }
 
-export function ArticleList({ articles, showAddToTrusted = false, onAddToTrusted, trustedDomains = [] }: ArticleListProps) {
+export function ArticleList({
+  articles,
+  showAddToTrusted = false,
+  onAddToTrusted,
+  trustedDomains = [],
+  savedIds,
+  onToggleSave,
+  downloadedIds,
+  paywalledDomains,
+}: ArticleListProps) {
   const searchParams = useSearchParams();
   const currentTab = searchParams.get('tab') || 'trusted';
+  const [expandedStories, setExpandedStories] = useState<Set<string>>(new Set());
+
+  const toggleStory = (e: React.MouseEvent, id: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setExpandedStories(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
 
   const handleAddToTrusted = (e: React.MouseEvent, domain: string) => {
     e.preventDefault();
@@ -22,7 +53,16 @@ export function ArticleList({ articles, showAddToTrusted = false, onAddToTrusted
     }
   };
 
-  const storeClickMeta = (article: Article, event: React.MouseEvent) => {
+  const handleToggleSave = (e: React.MouseEvent, article: Article) => {
+    e.preventDefault();
+    e.stopPropagation();
+    onToggleSave?.(article);
+  };
+
+  const storeClickMeta = (
+    article: Pick<Article, 'id' | 'title' | 'source' | 'date' | 'timeAgo'>,
+    event: React.MouseEvent
+  ) => {
     try {
       sessionStorage.setItem(`sr:clicked:${article.id}`, JSON.stringify({
         title: article.title,
@@ -51,12 +91,46 @@ export function ArticleList({ articles, showAddToTrusted = false, onAddToTrusted
     }
   };
 
+  const readerHref = (id: string, url?: string) =>
+    `/app/reader?id=${id}&tab=${currentTab}${url ? `&url=${encodeURIComponent(url)}` : ''}`;
+
+  const renderRelated = (related: RelatedArticle) => {
+    const meta = {
+      id: related.id,
+      title: normalizeTitle(related.title, related.sourceName),
+      source: related.sourceName,
+      date: formatDate(related.publishedAt),
+      timeAgo: getRelativeTime(related.publishedAt),
+    };
+
+    return (
+      <Link
+        key={related.id}
+        href={readerHref(related.id, related.url)}
+        onClick={(e) => storeClickMeta(meta, e)}
+        className="block py-2 hover:bg-zinc-50 dark:hover:bg-zinc-900 active:bg-zinc-100 dark:active:bg-zinc-800 transition-colors no-underline"
+        style={{ touchAction: 'manipulation' }}
+      >
+        <div className="text-sm leading-snug text-foreground">{meta.title}</div>
+        <div className="mt-1 text-xs leading-tight text-zinc-500 dark:text-zinc-400 truncate">
+          <span>{meta.source}</span>
+          <span className="mx-1.5">·</span>
+          <span>{meta.timeAgo}</span>
+        </div>
+      </Link>
+    );
+  };
+
   return (
     <div>
       {articles.map((article, index) => {
         const isTrusted = article.sourceDomain ? trustedDomains.includes(article.sourceDomain.toLowerCase()) : false;
         const isLast = index === articles.length - 1;
         const showAction = showAddToTrusted && !isTrusted && article.sourceDomain;
+        const relatedCount = article.related?.length ?? 0;
+        const isExpanded = expandedStories.has(article.id);
+        const isSaved = savedIds?.has(article.id) ?? false;
+        const isPaywalled = paywalledDomains ? isPaywalledDomain(article.sourceDomain, paywalledDomains) : false;
 
         return (
           <div
@@ -64,7 +138,7 @@ export function ArticleList({ articles, showAddToTrusted = false, onAddToTrusted
             className={!isLast ? 'border-b border-zinc-200/50 dark:border-zinc-800/50' : ''}
           >
             <Link
-              href={`/app/reader?id=${article.id}&tab=${currentTab}${article.url ? `&url=${encodeURIComponent(article.url)}` : ''}`}
+              href={readerHref(article.id, article.url)}
               onClick={(e) => storeClickMeta(article, e)}
               className="block w-full px-4 py-3.5 hover:bg-zinc-50 dark:hover:bg-zinc-900 active:bg-zinc-100 dark:active:bg-zinc-800 transition-colors no-underline"
               style={{ touchAction: 'manipulation' }}
@@ -81,17 +155,56 @@ export function ArticleList({ articles, showAddToTrusted = false, onAddToTrusted
                     }`}
                   />
                 </div>
-                {/* Content column: title + metadata */}
+                {/* Content column: title + thumbnail, then metadata */}
                 <div className="min-w-0">
-                  <h3 className="text-base font-medium leading-snug text-foreground">
-                    {article.title}
-                  </h3>
+                  <div className="flex gap-3">
+                    <h3 className="min-w-0 flex-1 text-base font-medium leading-snug text-foreground">
+                      {article.title}
+                    </h3>
+                    {article.thumbnail && (
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img
+                        src={proxyImageUrl(article.thumbnail, THUMBNAIL_WIDTH)}
+                        alt=""
+                        width={64}
+                        height={64}
+                        loading="lazy"
+                        className="shrink-0 w-16 h-16 rounded object-cover bg-zinc-100 dark:bg-zinc-800"
+                      />
+                    )}
+                  </div>
                   <div className="flex items-baseline justify-between gap-3 mt-1.5 text-xs leading-tight text-zinc-500 dark:text-zinc-400">
                     <div className="min-w-0 flex-1 truncate">
                       <span>{article.source}</span>
                       <span className="mx-1.5">·</span>
                       <span>{article.timeAgo}</span>
+                      {isPaywalled && (
+                        <>
+                          <span className="mx-1.5">·</span>
+                          <span>Subscriber</span>
+                        </>
+                      )}
+                      {downloadedIds?.has(article.id) && (
+                        <>
+                          <span className="mx-1.5">·</span>
+                          <span>Downloaded</span>
+                        </>
+                      )}
                     </div>
+                    {relatedCount > 0 && (
+                      <button
+                        onClick={(e) => toggleStory(e, article.id)}
+                        onPointerDown={(e) => {
+                          e.preventDefault();
+                          e.stopPropagation();
+                        }}
+                        aria-expanded={isExpanded}
+                        className="flex-none whitespace-nowrap pointer-events-auto px-2 py-1 -my-1 text-xs font-medium leading-tight text-zinc-500 dark:text-zinc-400 hover:underline transition-colors"
+                        style={{ touchAction: 'manipulation' }}
+                      >
+                        {isExpanded ? 'Hide outlets' : `+${relatedCount} more ${relatedCount === 1 ? 'outlet' : 'outlets'}`}
+                      </button>
+                    )}
                     {showAction && (
                       <button
                         onClick={(e) => handleAddToTrusted(e, article.sourceDomain!)}
@@ -105,10 +218,31 @@ export function ArticleList({ articles, showAddToTrusted = false, onAddToTrusted
                         Add to Trusted
                       </button>
                     )}
+                    {onToggleSave && article.url && (
+                      <button
+                        onClick={(e) => handleToggleSave(e, article)}
+                        onPointerDown={(e) => {
+                          e.preventDefault();
+                          e.stopPropagation();
+                        }}
+                        aria-pressed={isSaved}
+                        className={`flex-none whitespace-nowrap pointer-events-auto px-2 py-1 -my-1 text-xs font-medium leading-tight hover:underline transition-colors ${
+                          isSaved ? 'text-zinc-500 dark:text-zinc-400' : 'text-accent'
+                        }`}
+                        style={{ touchAction: 'manipulation' }}
+                      >
+                        {isSaved ? 'Saved' : 'Save'}
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
             </Link>
+            {isExpanded && relatedCount > 0 && (
+              <div className="pl-11 pr-4 pb-2 divide-y divide-zinc-200/50 dark:divide-zinc-800/50">
+                {article.related!.map(renderRelated)}
+              </div>
+            )}
           </div>
         );
       })}
@@ -6,6 +6,8 @@ import { usePathname } from 'next/navigation';
 export function BottomTabBar() {
   const pathname = usePathname();
   const isVideos = pathname?.startsWith('/app/videos');
+  const isSaved = pathname?.startsWith('/app/saved');
+  const isArticles = !isVideos && !isSaved;
 
   return (
     <nav
@@ -17,7 +19,7 @@ export function BottomTabBar() {
       <Link
         href="/app"
         className={`flex-1 h-full flex items-center justify-center min-h-[52px] py-3 text-sm font-medium transition-colors no-underline cursor-pointer ${
-          !isVideos
+          isArticles
             ? 'text-accent'
             : 'text-zinc-500 dark:text-zinc-400 active:text-foreground'
         }`}
@@ -36,6 +38,17 @@ export function BottomTabBar() {
       >
         Videos
       </Link>
+      <Link
+        href="/app/saved"
+        className={`flex-1 h-full flex items-center justify-center min-h-[52px] py-3 text-sm font-medium transition-colors no-underline cursor-pointer ${
+          isSaved
+            ? 'text-accent'
+            : 'text-zinc-500 dark:text-zinc-400 active:text-foreground'
+        }`}
+        style={{ touchAction: 'manipulation' }}
+      >
+        Saved
+      </Link>
     </nav>
   );
 }
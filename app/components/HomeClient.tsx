@@ -10,7 +10,20 @@ import { EmptyState } from './EmptyState';
 import { Article, ArticleSummary } from '../types/article';
 import { getRelativeTime, formatDate, normalizeTitle } from '../lib/utils';
 import { getTrustedDomains, addTrustedDomain } from '../lib/trustedDomains';
+import { pickStoryLead } from '../lib/storyClustering';
+import { getStoredTimeWindow } from '../lib/timeWindow';
+import { getStoredTeamId } from '../lib/teams';
 import { purgeExpiredReadState, getReadStateForArticles } from '../lib/readState';
+import { getSavedIds, saveArticle, removeSavedItem, summaryFromArticle } from '../lib/savedItems';
+import {
+  isOfflineModeEnabled,
+  getOfflineArticleIds,
+  getOfflineFeed,
+  saveOfflineFeed,
+  prefetchOfflineArticles,
+} from '../lib/offlineArticles';
+import { getPaywalledDomains } from '../lib/paywalledSources';
+import { getCachedLeadImages } from '../lib/extractCache';
 import { emitAppReady } from '../lib/appReady';
 import { SystemToast } from './SystemToast';
 import { BottomTabBar } from './BottomTabBar';
@@ -90,6 +103,9 @@ export default function HomeClient() {
   const [isExplicitRefresh, setIsExplicitRefresh] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [readVersion, setReadVersion] = useState(0);
+  const [savedIds, setSavedIds] = useState<Set<string>>(new Set());
+  const [downloadedIds, setDownloadedIds] = useState<Set<string>>(new Set());
+  const [paywalledDomains, setPaywalledDomains] = useState<Set<string>>(new Set());
   const hasFetchedRef = useRef(false);
   const initialLoadCompleteRef = useRef(false);
   const [toast, setToast] = useState<{ message: string; visible: boolean }>({
@@ -153,7 +169,9 @@ export default function HomeClient() {
     try {
       // Add cache-buster to force fresh fetch on every refresh
       const cacheBust = Date.now();
-      const searchUrl = `/api/search?q=Phoenix+Suns&cb=${cacheBust}`;
+      const timeWindow = getStoredTimeWindow();
+      const teamId = getStoredTeamId();
+      const searchUrl = `/api/search?team=${teamId}&window=${timeWindow}&cb=${cacheBust}`;
       if (debug) debug.searchUrl = searchUrl;
 
       const response = await fetch(searchUrl, {
@@ -208,24 +226,39 @@ export default function HomeClient() {
       try {
         sessionStorage.setItem(FEED_CACHE_KEY, JSON.stringify({
           ts: Date.now(),
+          teamId,
+          timeWindow,
           articles: items,
         }));
       } catch (e) {
         // Ignore storage errors (quota, etc.)
       }
+
+      // Keep the feed for offline reading (opt-in)
+      if (isOfflineModeEnabled()) {
+        saveOfflineFeed({ ts: Date.now(), teamId, timeWindow, articles: items });
+      }
     } catch (err) {
       console.error('Failed to fetch articles:', err);
       if (debug) {
         debug.searchError = debug.searchError || (err instanceof Error ? err.message : 'Unknown error');
         setDebugInfo(debug);
       }
-      setError(err instanceof Error ? err.message : 'Unknown error');
+
+      // Offline mode: fall back to the last stored feed and its downloaded articles
+      const offlineFeed = isOfflineModeEnabled() ? await getOfflineFeed() : null;
+      if (offlineFeed && offlineFeed.articles.length > 0) {
+        setArticleSummaries(offlineFeed.articles);
+        showToast('Showing Offline Copy');
+      } else {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      }
     } finally {
       setIsFetching(false);
       initialLoadCompleteRef.current = true;
       // Note: isExplicitRefresh is reset by handleRefresh after min spin duration
     }
-  }, [debugMode]);
+  }, [debugMode, showToast]);
 
   const handleAddToTrusted = useCallback((domain: string) => {
     addTrustedDomain(domain);
@@ -234,6 +267,22 @@ export default function HomeClient() {
     trackEvent('trusted_add', { domain });
   }, [showToast]);
 
+  const handleToggleSave = useCallback((article: Article) => {
+    if (getSavedIds().has(article.id)) {
+      removeSavedItem(article.id);
+      showToast('Removed from Saved');
+      return;
+    }
+
+    const summary = summaryFromArticle(article);
+    if (summary && saveArticle(summary)) {
+      showToast('Saved');
+      trackEvent('item_save', { kind: 'article', publisherHost: article.sourceDomain });
+    } else {
+      showToast('Could Not Save');
+    }
+  }, [showToast]);
+
   const copyDebugInfo = useCallback(() => {
     if (debugInfo) {
       const text = `Debug Info (${debugInfo.timestamp})
@@ -297,7 +346,7 @@ Response Preview: ${debugInfo.searchResponsePreview || 'none'}`;
   useEffect(() => {
     setMounted(true);
 
-    // Purge expired read state (older than 24 hours)
+    // Purge expired read state (older than the selected time window)
     purgeExpiredReadState();
 
     // Listen for storage events (read state changes)
@@ -317,17 +366,53 @@ Response Preview: ${debugInfo.searchResponsePreview || 'none'}`;
       setTrustedDomains(getTrustedDomains());
     };
 
+    // Team or time window changed elsewhere (sync, backup import): refetch.
+    // Coalesced, since a sync can apply both in the same tick
+    let feedSettingsTimer: ReturnType<typeof setTimeout> | null = null;
+    const handleFeedSettingsChange = () => {
+      if (feedSettingsTimer) clearTimeout(feedSettingsTimer);
+      feedSettingsTimer = setTimeout(() => {
+        feedSettingsTimer = null;
+        fetchArticles();
+      }, 0);
+    };
+
+    // Listen for saved items change event
+    setSavedIds(getSavedIds());
+    const handleSavedItemsChange = () => {
+      setSavedIds(getSavedIds());
+    };
+
+    // Listen for offline download changes (row badges)
+    const handleOfflineArticlesChange = () => {
+      getOfflineArticleIds().then(setDownloadedIds);
+    };
+    handleOfflineArticlesChange();
+
+    // Listen for newly detected paywalled sources (row badges)
+    const handlePaywalledSourcesChange = () => {
+      setPaywalledDomains(getPaywalledDomains());
+    };
+    handlePaywalledSourcesChange();
+
     window.addEventListener('storage', handleStorageChange);
     window.addEventListener('readStateChanged', handleReadStateChange);
     window.addEventListener('trustedDomainsChanged', handleTrustedDomainsChange);
+    window.addEventListener('teamChanged', handleFeedSettingsChange);
+    window.addEventListener('timeWindowChanged', handleFeedSettingsChange);
+    window.addEventListener('savedItemsChanged', handleSavedItemsChange);
+    window.addEventListener('offlineArticlesChanged', handleOfflineArticlesChange);
+    window.addEventListener('paywalledSourcesChanged', handlePaywalledSourcesChange);
 
     // Try to rehydrate from sessionStorage cache for instant back-navigation
     let hasCachedData = false;
     try {
       const cached = sessionStorage.getItem(FEED_CACHE_KEY);
       if (cached) {
-        const { ts, articles } = JSON.parse(cached);
-        if (Date.now() - ts < FEED_CACHE_TTL && articles?.length > 0) {
+        const { ts, teamId, timeWindow, articles } = JSON.parse(cached);
+        // A cache built for a different team or time window is stale
+        const matchesSettings = teamId === getStoredTeamId() && timeWindow === getStoredTimeWindow();
+        if (Date.now() - ts < FEED_CACHE_TTL && matchesSettings && articles?.length > 0) {
           setArticleSummaries(articles);
           hasCachedData = true;
         }
@@ -350,15 +435,25 @@ Response Preview: ${debugInfo.searchResponsePreview || 'none'}`;
       window.removeEventListener('storage', handleStorageChange);
       window.removeEventListener('readStateChanged', handleReadStateChange);
       window.removeEventListener('trustedDomainsChanged', handleTrustedDomainsChange);
+      window.removeEventListener('teamChanged', handleFeedSettingsChange);
+      window.removeEventListener('timeWindowChanged', handleFeedSettingsChange);
+      if (feedSettingsTimer) clearTimeout(feedSettingsTimer);
+      window.removeEventListener('savedItemsChanged', handleSavedItemsChange);
+      window.removeEventListener('offlineArticlesChanged', handleOfflineArticlesChange);
+      window.removeEventListener('paywalledSourcesChanged', handlePaywalledSourcesChange);
     };
   }, [fetchArticles]);
 
-  // Derive articles with read state - recomputes when readVersion changes
+  // Derive articles with read state - recomputes when readVersion changes.
+  // Clustered stories lead with a trusted outlet when one carried the story.
   const allArticles = useMemo(() => {
-    const articleIds = articleSummaries.map(item => item.id);
+    const stories = articleSummaries.map(item => pickStoryLead(item, trustedDomains));
+    const articleIds = stories.map(item => item.id);
     const readStateMap = getReadStateForArticles(articleIds);
+    // Articles already opened in the reader get their extracted lead image
+    const leadImages = getCachedLeadImages();
 
-    return articleSummaries.map((item) => {
+    return stories.map((item) => {
       // Normalize title by removing trailing site name suffix (display-only)
       const cleanTitle = normalizeTitle(item.title, item.sourceName);
 
@@ -366,15 +461,18 @@ Response Preview: ${debugInfo.searchResponsePreview || 'none'}`;
         id: item.id,
         title: cleanTitle,
         source: item.sourceName,
+        author: item.author,
         timeAgo: getRelativeTime(item.publishedAt),
         date: formatDate(item.publishedAt),
         isRead: readStateMap[item.id] || false,
         url: item.url,
         publishedAt: item.publishedAt,
         sourceDomain: item.sourceDomain,
+        thumbnail: item.thumbnail ?? leadImages.get(item.url),
+        related: item.related,
       };
     });
-  }, [articleSummaries, readVersion]);
+  }, [articleSummaries, trustedDomains, readVersion]);
 
   // Derive trusted articles - recomputes when articles or trustedDomains change
   const trustedArticles = useMemo(() => {
@@ -392,10 +490,17 @@ Response Preview: ${debugInfo.searchResponsePreview || 'none'}`;
     );
   }, [allArticles, trustedDomains]);
 
+  // Offline mode: download unread Trusted articles in the background once the feed is in.
+  // Runs on in the module if this screen unmounts; already-downloaded articles are skipped.
+  useEffect(() => {
+    if (isFetching || trustedArticles.length === 0 || !isOfflineModeEnabled()) return;
+    prefetchOfflineArticles(trustedArticles);
+  }, [trustedArticles, isFetching]);
+
   // Sync article IDs to localStorage for Settings "Mark all as read" feature
   useEffect(() => {
     if (allArticles.length > 0) {
-      const ids = allArticles.map(a => a.id);
+      const ids = allArticles.flatMap(a => [a.id, ...(a.related?.map(r => r.id) ?? [])]);
       localStorage.setItem('suns-reader-latest-article-ids', JSON.stringify(ids));
     }
   }, [allArticles]);
@@ -574,7 +679,7 @@ Response Preview: ${debugInfo.searchResponsePreview || 'none'}`;
             <ErrorState message={error} onRetry={handleRefresh} />
           ) : activeTab === 'trusted' ? (
             trustedArticles.length > 0 ? (
-              <ArticleList articles={trustedArticles} showAddToTrusted={false} onAddToTrusted={handleAddToTrusted} trustedDomains={trustedDomains} />
+              <ArticleList articles={trustedArticles} showAddToTrusted={false} onAddToTrusted={handleAddToTrusted} trustedDomains={trustedDomains} savedIds={savedIds} onToggleSave={handleToggleSave} downloadedIds={downloadedIds} paywalledDomains={paywalledDomains} />
             ) : (
               <EmptyState
                 title="No trusted articles right now"
@@ -584,7 +689,7 @@ Response Preview: ${debugInfo.searchResponsePreview || 'none'}`;
               />
             )
           ) : (
-            <ArticleList articles={discoveryArticles} showAddToTrusted={true} onAddToTrusted={handleAddToTrusted} trustedDomains={trustedDomains} />
+            <ArticleList articles={discoveryArticles} showAddToTrusted={true} onAddToTrusted={handleAddToTrusted} trustedDomains={trustedDomains} savedIds={savedIds} onToggleSave={handleToggleSave} paywalledDomains={paywalledDomains} />
           )}
         </ContentColumn>
       </div>
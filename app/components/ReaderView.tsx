@@ -3,11 +3,26 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Article } from '../types/article';
 import { ContentColumn } from './ContentColumn';
-import { resolvePublisherUrl } from '../lib/resolvePublisherUrl';
-import { normalizeTitle } from '../lib/utils';
+import { VideoPlayerModal } from './VideoPlayerModal';
+import { resolvePublisherUrl, isGoogleNewsUrl } from '../lib/resolvePublisherUrl';
+import { normalizeTitle, formatDate, getRelativeTime } from '../lib/utils';
 import { TextSizePreference, getStoredTextSize, setStoredTextSize, getTextSizeClass } from '../lib/textSize';
 import { getCachedExtract, setCachedExtract } from '../lib/extractCache';
+import { getOfflineArticle } from '../lib/offlineArticles';
+import { markDomainPaywalled } from '../lib/paywalledSources';
+import { LeadImage, contentHasImage } from '../lib/leadImage';
+import { READER_IMAGE_WIDTH, proxyImageUrl } from '../lib/imageProxy';
+import { YOUTUBE_ID_PATTERN } from '../lib/articleEmbeds';
+import { readStageStream, stageMessage } from '../lib/extractProgress';
 import { trackEvent } from '../lib/analytics';
+import {
+  isItemSaved,
+  saveArticle,
+  removeSavedItem,
+  attachSavedContent,
+  getSavedArticleContent,
+  summaryFromArticle,
+} from '../lib/savedItems';
 
 interface ReaderViewProps {
   article: Article;
@@ -25,22 +40,13 @@ interface ExtractedContent {
   textContent?: string;
   excerpt?: string;
   length?: number;
+  authors?: string[];
+  publishedAt?: string;
+  leadImage?: LeadImage;
+  status?: string;
   error?: string;
 }
 
-/**
- * Check if URL is a Google News wrapper URL
- */
-function isGoogleNewsUrl(url: string): boolean {
-  if (!url) return false;
-  try {
-    const urlObj = new URL(url);
-    return urlObj.hostname.includes('news.google.com');
-  } catch {
-    return false;
-  }
-}
-
 export function ReaderView({ article, onBack, debug = false }: ReaderViewProps) {
   const [extracted, setExtracted] = useState<ExtractedContent | null>(null);
   const [loading, setLoading] = useState(true);
@@ -50,6 +56,9 @@ export function ReaderView({ article, onBack, debug = false }: ReaderViewProps)
   const [showTextSizeMenu, setShowTextSizeMenu] = useState(false);
   const textSizeRef = useRef<HTMLDivElement>(null);
   const articleOpenFiredRef = useRef(false);
+  const loadAbortRef = useRef<AbortController | null>(null);
+  const [isSaved, setIsSaved] = useState(() => isItemSaved(article.id));
+  const [embedVideo, setEmbedVideo] = useState<{ id: string; url: string } | null>(null);
 
   // Load text size preference from localStorage on mount
   useEffect(() => {
@@ -77,12 +86,27 @@ export function ReaderView({ article, onBack, debug = false }: ReaderViewProps)
   }, []);
 
   useEffect(() => {
+    const controller = new AbortController();
+    loadAbortRef.current = controller;
+    const { signal } = controller;
+
     const fetchExtractedContent = async () => {
       if (!article.url) {
         setLoading(false);
         return;
       }
 
+      // Saved and downloaded (offline mode) articles carry their own content: no network needed
+      const storedContent = debug
+        ? null
+        : getSavedArticleContent(article.id) ?? (await getOfflineArticle(article.id))?.content;
+      if (storedContent) {
+        setPublisherUrl(storedContent.url);
+        setExtracted({ success: true, ...storedContent });
+        setLoading(false);
+        return;
+      }
+
       try {
         const isGoogleNews = isGoogleNewsUrl(article.url);
 
@@ -91,7 +115,11 @@ export function ReaderView({ article, onBack, debug = false }: ReaderViewProps)
 
         if (isGoogleNews) {
           setLoadingMessage('Resolving article URL...');
-          const resolved = await resolvePublisherUrl(article.url);
+          const resolved = await resolvePublisherUrl(article.url, {
+            signal,
+            onStage: event => setLoadingMessage(stageMessage(event)),
+          });
+          if (signal.aborted) return;
 
           if (resolved) {
             setPublisherUrl(resolved);
@@ -119,6 +147,7 @@ export function ReaderView({ article, onBack, debug = false }: ReaderViewProps)
           const cached = getCachedExtract(finalUrl);
           if (cached) {
             setExtracted(cached);
+            attachSavedContent(article.id, cached);
             setLoading(false);
             if (!articleOpenFiredRef.current && cached.success) {
               articleOpenFiredRef.current = true;
@@ -128,10 +157,10 @@ export function ReaderView({ article, onBack, debug = false }: ReaderViewProps)
           }
         }
 
-        // Step 3: Fetch from server
+        // Step 3: Fetch from server, streaming its progress into the loading message
         setLoadingMessage('Loading article...');
-        const response = await fetch(`/api/extract?url=${encodeURIComponent(finalUrl)}`);
-        const data = await response.json();
+        const response = await fetch(`/api/extract?stream=1&url=${encodeURIComponent(finalUrl)}`, { signal });
+        const data = await readStageStream<ExtractedContent>(response, event => setLoadingMessage(stageMessage(event)));
         setExtracted(data);
 
         // Fire article_open once on success
@@ -140,11 +169,22 @@ export function ReaderView({ article, onBack, debug = false }: ReaderViewProps)
           try { const h = new URL(finalUrl).hostname; trackEvent('article_open', { publisherHost: h, cacheStatus: 'miss', ok: true }); } catch {}
         }
 
+        // Remember paywalled sources so the feed can mark them
+        if (data?.status === 'paywall') {
+          try {
+            const h = new URL(data.url || finalUrl).hostname;
+            markDomainPaywalled(h);
+            trackEvent('article_paywall', { publisherHost: h });
+          } catch {}
+        }
+
         // Step 4: Cache successful extractions (skip in debug mode)
         if (!debug && data?.success && data?.contentHtml) {
           setCachedExtract(finalUrl, data);
+          attachSavedContent(article.id, data);
         }
       } catch (error) {
+        if (signal.aborted) return;
         console.error('Failed to extract article:', error);
         setExtracted({
           success: false,
@@ -153,12 +193,48 @@ export function ReaderView({ article, onBack, debug = false }: ReaderViewProps)
         });
         setPublisherUrl(article.url);
       } finally {
-        setLoading(false);
+        if (!signal.aborted) setLoading(false);
       }
     };
 
     fetchExtractedContent();
-  }, [article.url, debug]);
+    return () => controller.abort();
+  }, [article.id, article.url, debug]);
+
+  // YouTube embed cards in the article open in the video player
+  const handleContentClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const card = (e.target as Element).closest('figure[data-embed="youtube"]');
+    const videoId = card?.getAttribute('data-embed-id');
+    if (!videoId || !YOUTUBE_ID_PATTERN.test(videoId)) return;
+
+    e.preventDefault();
+    setEmbedVideo({ id: videoId, url: `https://www.youtube.com/watch?v=${videoId}` });
+  };
+
+  // Hero image, unless the article body already shows it
+  const renderLeadImage = () => {
+    const image = extracted?.leadImage;
+    if (!image || contentHasImage(extracted?.contentHtml ?? '', image)) return null;
+
+    return (
+      <figure className="mb-6">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={proxyImageUrl(image.url, READER_IMAGE_WIDTH)}
+          alt={image.alt ?? ''}
+          width={image.width}
+          height={image.height}
+          loading="lazy"
+          className="w-full h-auto rounded-lg bg-zinc-100 dark:bg-zinc-800"
+        />
+        {image.caption && (
+          <figcaption className="mt-2 text-sm text-zinc-500 dark:text-zinc-400">
+            {image.caption}
+          </figcaption>
+        )}
+      </figure>
+    );
+  };
 
   // Compute content node to avoid complex nested ternaries
   const renderContent = () => {
@@ -168,6 +244,18 @@ export function ReaderView({ article, onBack, debug = false }: ReaderViewProps)
           <div className="text-center">
             <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-accent mb-4"></div>
             <p className="text-zinc-600 dark:text-zinc-400">{loadingMessage}</p>
+            {(publisherUrl || article.url) && (
+              <a
+                href={publisherUrl || article.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                onClick={handleCancelLoading}
+                className="inline-block mt-4 text-sm text-accent hover:underline"
+                style={{ touchAction: 'manipulation' }}
+              >
+                Cancel and open site
+              </a>
+            )}
           </div>
         </div>
       );
@@ -183,10 +271,73 @@ export function ReaderView({ article, onBack, debug = false }: ReaderViewProps)
       }
 
       return (
-        <div
-          className={`reader-content text-base sm:text-lg leading-8 text-foreground ${getTextSizeClass(textSize)}`}
-          dangerouslySetInnerHTML={{ __html: cleanedHtml }}
-        />
+        <>
+          {renderLeadImage()}
+          <div
+            className={`reader-content text-base sm:text-lg leading-8 text-foreground ${getTextSizeClass(textSize)}`}
+            onClick={handleContentClick}
+            dangerouslySetInnerHTML={{ __html: cleanedHtml }}
+          />
+        </>
+      );
+    }
+
+    // Subscriber content: show the teaser, then send the reader to the site
+    if (extracted?.status === 'paywall') {
+      const siteUrl = extracted.url || publisherUrl || article.url;
+      const siteName = extracted.siteName || article.source;
+
+      return (
+        <div>
+          {renderLeadImage()}
+          {extracted.contentHtml ? (
+            <div
+              className={`reader-content text-base sm:text-lg leading-8 text-foreground ${getTextSizeClass(textSize)}`}
+              onClick={handleContentClick}
+              dangerouslySetInnerHTML={{ __html: extracted.contentHtml }}
+            />
+          ) : extracted.excerpt ? (
+            <p className={`reader-content text-base sm:text-lg leading-8 text-foreground ${getTextSizeClass(textSize)}`}>
+              {extracted.excerpt}
+            </p>
+          ) : null}
+          <div className="text-center py-12 mt-6 border-t border-zinc-200 dark:border-zinc-800">
+            <div className="text-4xl mb-4">🔒</div>
+            <h3 className="text-lg font-medium mb-2 text-foreground">
+              Subscriber content
+            </h3>
+            <p className="text-zinc-600 dark:text-zinc-400 mb-6">
+              {siteName
+                ? `${siteName} requires a subscription to read the full article.`
+                : 'This article requires a subscription to read in full.'}
+            </p>
+            {siteUrl && (
+              <a
+                href={siteUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                onClick={handleOpenOriginal}
+                className="inline-flex items-center gap-2 px-5 py-3 bg-accent text-white rounded-lg hover:opacity-90 active:opacity-80 transition-opacity"
+                style={{ touchAction: 'manipulation' }}
+              >
+                <span className="font-medium">Open on site</span>
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"
+                  />
+                </svg>
+              </a>
+            )}
+          </div>
+        </div>
       );
     }
 
@@ -358,7 +509,41 @@ export function ReaderView({ article, onBack, debug = false }: ReaderViewProps)
     try { const h = url ? new URL(url).hostname : undefined; trackEvent('open_original', { publisherHost: h }); } catch {}
   }, [extracted?.url, publisherUrl, article.url]);
 
+  // Give up on reader mode while loading: stop the request and read on the site
+  const handleCancelLoading = useCallback(() => {
+    loadAbortRef.current?.abort();
+    handleOpenOriginal();
+    onBack();
+  }, [handleOpenOriginal, onBack]);
+
   const originalUrl = extracted?.url || publisherUrl || article.url;
+  // Feed dates win; the article's own metadata fills in when the feed has none
+  const displayDate = article.date || (extracted?.publishedAt ? formatDate(extracted.publishedAt) : '');
+  const displayTimeAgo = article.timeAgo || (extracted?.publishedAt ? getRelativeTime(extracted.publishedAt) : '');
+
+  const handleToggleSave = useCallback(() => {
+    if (isSaved) {
+      removeSavedItem(article.id);
+      setIsSaved(false);
+      return;
+    }
+
+    const summary = summaryFromArticle({
+      ...article,
+      title: article.title || extracted?.title || '',
+      source: article.source || extracted?.siteName || '',
+      author: article.author || extracted?.byline,
+    });
+    if (!summary) return;
+    if (!summary.sourceDomain && originalUrl) {
+      try { summary.sourceDomain = new URL(originalUrl).hostname.replace(/^www\./, ''); } catch {}
+    }
+
+    if (saveArticle(summary, extracted)) {
+      setIsSaved(true);
+      trackEvent('item_save', { kind: 'article', publisherHost: summary.sourceDomain });
+    }
+  }, [isSaved, article, extracted, originalUrl]);
 
   return (
     <div className="flex flex-col h-[100dvh] md:h-screen bg-background text-foreground">
@@ -388,40 +573,65 @@ export function ReaderView({ article, onBack, debug = false }: ReaderViewProps)
             <span className="text-base font-medium">Back</span>
           </button>
 
-          {/* Center: Text Size control */}
-          <div ref={textSizeRef} className="relative justify-self-center">
+          {/* Center: Text Size + Save controls */}
+          <div className="flex items-center gap-1 justify-self-center">
+            <div ref={textSizeRef} className="relative">
+              <button
+                onClick={() => setShowTextSizeMenu(prev => !prev)}
+                className="inline-flex items-center justify-center h-10 w-10 rounded-lg text-base font-semibold text-foreground hover:bg-zinc-100 dark:hover:bg-zinc-800 active:bg-zinc-200 dark:active:bg-zinc-700 transition-colors"
+                style={{ touchAction: 'manipulation' }}
+                aria-label="Text size"
+                aria-expanded={showTextSizeMenu}
+              >
+                Aa
+              </button>
+
+              {showTextSizeMenu && (
+                <div className="absolute top-full left-1/2 -translate-x-1/2 mt-1 z-50 bg-background border border-border rounded-lg shadow-lg overflow-hidden min-w-[160px]">
+                  {([
+                    { value: 'default' as const, label: 'Default' },
+                    { value: 'large' as const, label: 'Large' },
+                    { value: 'larger' as const, label: 'Larger' },
+                  ]).map(({ value, label }) => (
+                    <button
+                      key={value}
+                      onClick={() => handleTextSizeChange(value)}
+                      className={`w-full px-4 py-2.5 text-left text-sm font-medium transition-colors ${
+                        textSize === value
+                          ? 'text-accent bg-accent/10'
+                          : 'text-foreground hover:bg-zinc-50 dark:hover:bg-zinc-900'
+                      }`}
+                      style={{ touchAction: 'manipulation' }}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
             <button
-              onClick={() => setShowTextSizeMenu(prev => !prev)}
-              className="inline-flex items-center justify-center h-10 w-10 rounded-lg text-base font-semibold text-foreground hover:bg-zinc-100 dark:hover:bg-zinc-800 active:bg-zinc-200 dark:active:bg-zinc-700 transition-colors"
+              onClick={handleToggleSave}
+              className={`inline-flex items-center justify-center h-10 w-10 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 active:bg-zinc-200 dark:active:bg-zinc-700 transition-colors ${
+                isSaved ? 'text-accent' : 'text-foreground'
+              }`}
               style={{ touchAction: 'manipulation' }}
-              aria-label="Text size"
-              aria-expanded={showTextSizeMenu}
+              aria-label={isSaved ? 'Remove from Saved' : 'Save for later'}
+              aria-pressed={isSaved}
             >
-              Aa
+              <svg
+                className="w-5 h-5"
+                fill={isSaved ? 'currentColor' : 'none'}
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z"
+                />
+              </svg>
             </button>
-
-            {showTextSizeMenu && (
-              <div className="absolute top-full left-1/2 -translate-x-1/2 mt-1 z-50 bg-background border border-border rounded-lg shadow-lg overflow-hidden min-w-[160px]">
-                {([
-                  { value: 'default' as const, label: 'Default' },
-                  { value: 'large' as const, label: 'Large' },
-                  { value: 'larger' as const, label: 'Larger' },
-                ]).map(({ value, label }) => (
-                  <button
-                    key={value}
-                    onClick={() => handleTextSizeChange(value)}
-                    className={`w-full px-4 py-2.5 text-left text-sm font-medium transition-colors ${
-                      textSize === value
-                        ? 'text-accent bg-accent/10'
-                        : 'text-foreground hover:bg-zinc-50 dark:hover:bg-zinc-900'
-                    }`}
-                    style={{ touchAction: 'manipulation' }}
-                  >
-                    {label}
-                  </button>
-                ))}
-              </div>
-            )}
           </div>
 
           {/* Right: Original link */}
@@ -483,11 +693,11 @@ export function ReaderView({ article, onBack, debug = false }: ReaderViewProps)
             )}
 
             {/* Date/time stamp — only render if at least one value exists */}
-            {(article.date || article.timeAgo) && (
+            {(displayDate || displayTimeAgo) && (
               <div className="flex items-center gap-1.5 text-xs text-zinc-500 dark:text-zinc-400">
-                {article.date && <span>{article.date}</span>}
-                {article.date && article.timeAgo && <span>·</span>}
-                {article.timeAgo && <span>{article.timeAgo}</span>}
+                {displayDate && <span>{displayDate}</span>}
+                {displayDate && displayTimeAgo && <span>·</span>}
+                {displayTimeAgo && <span>{displayTimeAgo}</span>}
               </div>
             )}
           </div>
@@ -504,6 +714,15 @@ export function ReaderView({ article, onBack, debug = false }: ReaderViewProps)
           {renderContent()}
         </ContentColumn>
       </article>
+
+      {/* Video player for YouTube embeds */}
+      {embedVideo && (
+        <VideoPlayerModal
+          videoId={embedVideo.id}
+          youtubeUrl={embedVideo.url}
+          onClose={() => setEmbedVideo(null)}
+        />
+      )}
     </div>
   );
 }
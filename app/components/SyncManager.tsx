@@ -0,0 +1,17 @@
+'use client';
+
+import { useEffect } from 'react';
+import { initAutoSync } from '../lib/sync';
+
+/**
+ * Runs background cross-device sync when the user has turned it on
+ * (Settings → Sync). Syncs on mount, after local changes, and when the
+ * app becomes visible again. Renders nothing.
+ *
+ * Mounted in app/(app)/layout.tsx so it only runs on app routes.
+ */
+export function SyncManager() {
+  useEffect(() => initAutoSync(), []);
+
+  return null;
+}
@@ -19,6 +19,8 @@ interface VideoListProps {
   onAddToTrusted?: (channelId: string, channelTitle: string) => void;
   trustedChannelIds?: Set<string>;
   onVideoClick: (video: Video) => void;
+  savedIds?: Set<string>;
+  onToggleSave?: (video: Video) => void;
 }
 
 export function VideoList({
@@ -27,6 +29,8 @@ export function VideoList({
   onAddToTrusted,
   trustedChannelIds = new Set(),
   onVideoClick,
+  savedIds,
+  onToggleSave,
 }: VideoListProps) {
   const handleAddToTrusted = (e: React.MouseEvent, video: Video) => {
     e.preventDefault();
@@ -36,12 +40,19 @@ export function VideoList({
     }
   };
 
+  const handleToggleSave = (e: React.MouseEvent, video: Video) => {
+    e.preventDefault();
+    e.stopPropagation();
+    onToggleSave?.(video);
+  };
+
   return (
     <div>
       {videos.map((video, index) => {
         const isTrusted = trustedChannelIds.has(video.channelId);
         const isLast = index === videos.length - 1;
         const showAction = showAddToTrusted && !isTrusted && video.channelId;
+        const isSaved = savedIds?.has(video.id) ?? false;
 
         return (
           <div
@@ -98,6 +109,22 @@ export function VideoList({
                           Add to Trusted
                         </button>
                       )}
+                      {onToggleSave && (
+                        <button
+                          onClick={(e) => handleToggleSave(e, video)}
+                          onPointerDown={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                          }}
+                          aria-pressed={isSaved}
+                          className={`shrink-0 whitespace-nowrap pointer-events-auto px-2 py-1 -my-1 text-xs font-medium leading-tight hover:underline transition-colors ${
+                            isSaved ? 'text-zinc-500 dark:text-zinc-400' : 'text-accent'
+                          }`}
+                          style={{ touchAction: 'manipulation' }}
+                        >
+                          {isSaved ? 'Saved' : 'Save'}
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
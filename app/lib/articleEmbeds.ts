@@ -0,0 +1,181 @@
+/**
+ * Social and video embeds in article pages.
+ *
+ * Publishers embed tweets, Instagram and Bluesky posts as blockquotes that
+ * a widget script turns into cards, and YouTube clips as iframes. Neither
+ * survives reader mode: Readability strips the classes that mark them and
+ * the sanitizer drops scripts and iframes. normalizeEmbeds replaces them on
+ * the parsed page with a plain placeholder every strategy keeps:
+ *
+ *   <figure data-embed="youtube" data-embed-id="VIDEO_ID">
+ *     <a href="https://www.youtube.com/watch?v=VIDEO_ID">
+ *       <img src="https://i.ytimg.com/vi/VIDEO_ID/hqdefault.jpg" alt="...">
+ *       <strong>YouTube</strong>
+ *     </a>
+ *   </figure>
+ *
+ * ReaderView styles these as cards and opens YouTube ones in the video player.
+ */
+
+export type EmbedKind = 'twitter' | 'instagram' | 'bluesky' | 'youtube';
+
+export const EMBED_KINDS: EmbedKind[] = ['twitter', 'instagram', 'bluesky', 'youtube'];
+
+export const YOUTUBE_ID_PATTERN = /^[\w-]{11}$/;
+
+interface Embed {
+  kind: EmbedKind;
+  url: string;
+  label: string;     // provider line, e.g. "@PHNX_Suns on X"
+  text?: string;     // post text
+  imageUrl?: string; // video thumbnail
+  imageAlt?: string;
+  videoId?: string;
+}
+
+const TWEET_URL = /^https?:\/\/(?:www\.|mobile\.)?(?:twitter|x)\.com\/([^/?#]+)\/status\/\d+/i;
+const BLUESKY_URL = /^https?:\/\/bsky\.app\/profile\/([^/?#]+)\/post\/[^/?#]+/i;
+const INSTAGRAM_URL = /^https?:\/\/(?:www\.)?instagram\.com\/(?:[^/?#]+\/)?(?:p|reel|tv)\/[^/?#]+/i;
+const YOUTUBE_EMBED_URL = /(?:youtube(?:-nocookie)?\.com)\/embed\/([\w-]{11})/i;
+
+// Titles some sites leave on every YouTube iframe
+const GENERIC_VIDEO_TITLES = /^(youtube video player|youtube|video)$/i;
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function cleanText(value: string | null | undefined): string | undefined {
+  const text = value?.replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+function absoluteUrl(value: string | null | undefined, base: string): string | undefined {
+  if (!value) return undefined;
+  try {
+    return new URL(value, base).href;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Last link in the embed whose URL matches (the permalink follows the text)
+ */
+function findLink(el: Element, pattern: RegExp, base: string): RegExpMatchArray | null {
+  let match: RegExpMatchArray | null = null;
+  for (const a of Array.from(el.querySelectorAll('a[href]'))) {
+    const href = absoluteUrl(a.getAttribute('href'), base);
+    match = href?.match(pattern) ?? match;
+  }
+  return match;
+}
+
+function tweetEmbed(el: Element, base: string): Embed | null {
+  const match = findLink(el, TWEET_URL, base);
+  if (!match) return null;
+  return {
+    kind: 'twitter',
+    url: match[0],
+    label: `@${match[1]} on X`,
+    text: cleanText(el.querySelector('p')?.textContent),
+  };
+}
+
+function blueskyEmbed(el: Element, base: string): Embed | null {
+  const match = findLink(el, BLUESKY_URL, base);
+  if (!match) return null;
+  return {
+    kind: 'bluesky',
+    url: match[0],
+    label: `@${match[1]} on Bluesky`,
+    text: cleanText(el.querySelector('p')?.textContent),
+  };
+}
+
+function instagramEmbed(el: Element, base: string): Embed | null {
+  const permalink = el.getAttribute('data-instgrm-permalink') ?? el.getAttribute('src');
+  const match = absoluteUrl(permalink, base)?.match(INSTAGRAM_URL) ?? findLink(el, INSTAGRAM_URL, base);
+  if (!match) return null;
+  return { kind: 'instagram', url: match[0], label: 'View on Instagram' };
+}
+
+function youtubeEmbed(el: Element, base: string): Embed | null {
+  const src = absoluteUrl(el.getAttribute('src') || el.getAttribute('data-src'), base);
+  const videoId = el.getAttribute('videoid') ?? src?.match(YOUTUBE_EMBED_URL)?.[1];
+  if (!videoId || !YOUTUBE_ID_PATTERN.test(videoId)) return null;
+
+  const title = cleanText(el.getAttribute('title') ?? el.getAttribute('playlabel'));
+  const text = title && !GENERIC_VIDEO_TITLES.test(title) ? title : undefined;
+  return {
+    kind: 'youtube',
+    url: `https://www.youtube.com/watch?v=${videoId}`,
+    label: 'YouTube',
+    text,
+    imageUrl: `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+    imageAlt: text ?? 'YouTube video',
+    videoId,
+  };
+}
+
+/** Embed markup and how to read it */
+const EMBED_SOURCES: { selector: string; parse: (el: Element, base: string) => Embed | null }[] = [
+  { selector: 'blockquote.twitter-tweet, blockquote.twitter-video', parse: tweetEmbed },
+  { selector: 'blockquote.bluesky-embed', parse: blueskyEmbed },
+  { selector: 'blockquote.instagram-media, iframe.instagram-media, iframe[src*="instagram.com/"]', parse: instagramEmbed },
+  {
+    selector: 'iframe[src*="youtube.com/embed/"], iframe[src*="youtube-nocookie.com/embed/"], iframe[data-src*="youtube.com/embed/"], lite-youtube[videoid]',
+    parse: youtubeEmbed,
+  },
+];
+
+function buildPlaceholder(doc: Document, embed: Embed): HTMLElement {
+  const figure = doc.createElement('figure');
+  figure.setAttribute('data-embed', embed.kind);
+  if (embed.videoId) figure.setAttribute('data-embed-id', embed.videoId);
+
+  const link = doc.createElement('a');
+  link.setAttribute('href', embed.url);
+
+  if (embed.imageUrl) {
+    const img = doc.createElement('img');
+    img.setAttribute('src', embed.imageUrl);
+    img.setAttribute('alt', embed.imageAlt ?? '');
+    link.appendChild(img);
+  }
+
+  const label = doc.createElement('strong');
+  label.textContent = embed.label;
+  link.appendChild(label);
+
+  if (embed.text) {
+    const text = doc.createElement('p');
+    text.textContent = embed.text;
+    link.appendChild(text);
+  }
+
+  figure.appendChild(link);
+  return figure;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Replace known embed markup in the page with placeholders.
+ * Returns the kind of each embed replaced.
+ */
+export function normalizeEmbeds(doc: Document, pageUrl: string): EmbedKind[] {
+  const kinds: EmbedKind[] = [];
+
+  for (const { selector, parse } of EMBED_SOURCES) {
+    for (const el of Array.from(doc.querySelectorAll(selector))) {
+      const embed = parse(el, pageUrl);
+      if (!embed) continue;
+      el.replaceWith(buildPlaceholder(doc, embed));
+      kinds.push(embed.kind);
+    }
+  }
+  return kinds;
+}
@@ -0,0 +1,199 @@
+/**
+ * schema.org article metadata from a page's JSON-LD.
+ *
+ * Many publishers (SB Nation, Yahoo, azcentral) embed a NewsArticle in
+ * <script type="application/ld+json"> with the full body, authors and dates.
+ * Used by the json_ld extraction strategy and to fill byline and dates on
+ * results from other strategies.
+ */
+
+export interface ArticleJsonLd {
+  type: string;             // schema.org @type, e.g. "NewsArticle"
+  headline?: string;
+  description?: string;
+  articleBody?: string;
+  authors: string[];
+  publisherName?: string;
+  publishedAt?: string;     // ISO 8601
+  modifiedAt?: string;      // ISO 8601
+  isAccessibleForFree?: boolean; // false on subscriber-only articles (also set via hasPart)
+  image?: ArticleJsonLdImage;
+}
+
+export interface ArticleJsonLdImage {
+  url: string;
+  caption?: string;
+  width?: number;
+  height?: number;
+}
+
+/** schema.org types treated as an article */
+const ARTICLE_TYPES = new Set([
+  'Article',
+  'NewsArticle',
+  'ReportageNewsArticle',
+  'AnalysisNewsArticle',
+  'OpinionNewsArticle',
+  'BackgroundNewsArticle',
+  'SportsArticle',
+  'BlogPosting',
+  'LiveBlogPosting',
+  'Report',
+]);
+
+type JsonLdNode = Record<string, unknown>;
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function isNode(value: unknown): value is JsonLdNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function asText(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const text = value.trim();
+  return text || undefined;
+}
+
+function nodeTypes(node: JsonLdNode): string[] {
+  return asArray(node['@type']).filter((t): t is string => typeof t === 'string');
+}
+
+/**
+ * Every node in the page's JSON-LD blocks, with @graph and arrays flattened
+ */
+function collectNodes(doc: Document): JsonLdNode[] {
+  const nodes: JsonLdNode[] = [];
+  const visit = (value: unknown) => {
+    for (const item of asArray(value)) {
+      if (!isNode(item)) continue;
+      nodes.push(item);
+      if (item['@graph']) visit(item['@graph']);
+    }
+  };
+
+  for (const script of Array.from(doc.querySelectorAll('script[type="application/ld+json"]'))) {
+    const raw = (script.textContent || '').trim().replace(/^<!--|-->$/g, '');
+    if (!raw) continue;
+    try {
+      visit(JSON.parse(raw));
+    } catch {
+      // Malformed JSON-LD is common; skip the block
+    }
+  }
+  return nodes;
+}
+
+/**
+ * Resolve a {"@id": ...} reference against the page's other nodes
+ */
+function resolveRef(value: unknown, byId: Map<string, JsonLdNode>): unknown {
+  if (isNode(value) && typeof value['@id'] === 'string' && Object.keys(value).length === 1) {
+    return byId.get(value['@id']) ?? value;
+  }
+  return value;
+}
+
+function personNames(value: unknown, byId: Map<string, JsonLdNode>): string[] {
+  const names: string[] = [];
+  for (const item of asArray(value)) {
+    const resolved = resolveRef(item, byId);
+    const name = typeof resolved === 'string' ? asText(resolved) : isNode(resolved) ? asText(resolved.name) : undefined;
+    if (name && !names.includes(name)) names.push(name);
+  }
+  return names;
+}
+
+function asBoolean(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string' && /^(true|false)$/i.test(value.trim())) {
+    return value.trim().toLowerCase() === 'true';
+  }
+  return undefined;
+}
+
+/**
+ * schema.org paywall markup: isAccessibleForFree on the article,
+ * or on a hasPart section that holds the locked body
+ */
+function accessibleForFree(article: JsonLdNode): boolean | undefined {
+  const parts = asArray(article.hasPart).filter(isNode);
+  if (parts.some(part => asBoolean(part.isAccessibleForFree) === false)) return false;
+  return asBoolean(article.isAccessibleForFree);
+}
+
+function asNumber(value: unknown): number | undefined {
+  const n = typeof value === 'number' ? value : typeof value === 'string' ? parseInt(value, 10) : NaN;
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * First image: a URL string or an ImageObject
+ */
+function firstImage(value: unknown, byId: Map<string, JsonLdNode>): ArticleJsonLdImage | undefined {
+  for (const item of asArray(value)) {
+    const resolved = resolveRef(item, byId);
+    if (typeof resolved === 'string') {
+      const url = asText(resolved);
+      if (url) return { url };
+    } else if (isNode(resolved)) {
+      const url = asText(resolved.url) ?? asText(resolved.contentUrl);
+      if (!url) continue;
+      return {
+        url,
+        caption: asText(resolved.caption) ?? asText(resolved.description),
+        width: asNumber(resolved.width),
+        height: asNumber(resolved.height),
+      };
+    }
+  }
+  return undefined;
+}
+
+function isoDate(value: unknown): string | undefined {
+  const text = asText(value);
+  if (!text) return undefined;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Find the page's article in JSON-LD, or null if it has none.
+ * Prefers an article that carries its body text.
+ */
+export function parseArticleJsonLd(doc: Document): ArticleJsonLd | null {
+  const nodes = collectNodes(doc);
+  const articles = nodes.filter(node => nodeTypes(node).some(t => ARTICLE_TYPES.has(t)));
+  const article = articles.find(node => asText(node.articleBody)) ?? articles[0];
+  if (!article) return null;
+
+  const byId = new Map<string, JsonLdNode>();
+  for (const node of nodes) {
+    if (typeof node['@id'] === 'string') byId.set(node['@id'], node);
+  }
+  const publisher = resolveRef(asArray(article.publisher)[0], byId);
+
+  return {
+    type: nodeTypes(article).find(t => ARTICLE_TYPES.has(t))!,
+    headline: asText(article.headline) ?? asText(article.name),
+    description: asText(article.description),
+    articleBody: asText(article.articleBody),
+    authors: personNames(article.author, byId),
+    publisherName: isNode(publisher) ? asText(publisher.name) : undefined,
+    publishedAt: isoDate(article.datePublished),
+    modifiedAt: isoDate(article.dateModified),
+    isAccessibleForFree: accessibleForFree(article),
+    image: firstImage(article.image, byId),
+  };
+}
@@ -0,0 +1,196 @@
+/**
+ * Shared headless browser for the Playwright fallback in /api/extract.
+ *
+ * Launching Chromium costs seconds, so one browser per server instance is
+ * kept alive and reused. Each render gets its own context, closed afterwards,
+ * so no cookies, storage, service workers or cache carry over from one
+ * publisher to the next. At most PLAYWRIGHT_MAX_CONCURRENCY pages render at
+ * once; further requests wait in a bounded queue. The browser shuts down
+ * after a minute idle.
+ *
+ * Set PLAYWRIGHT_WS_ENDPOINT to use an external browser server
+ * (`npx playwright run-server` / `launchServer()`) instead of launching one.
+ *
+ * Server-only: import dynamically so Playwright isn't bundled on Vercel.
+ */
+
+import { chromium, type Browser, type BrowserContext, type Page } from 'playwright';
+
+/** Whether the request's browser was launched, already running, or a newly connected server */
+export type BrowserSource = 'launched' | 'reused' | 'connected';
+
+export interface BrowserLease {
+  browser: BrowserSource;
+  queueWaitMs: number;
+}
+
+export interface BrowserPageOptions {
+  /** Limit for `work`, after the queue wait (default 60s) */
+  timeoutMs?: number;
+  /** Called once a browser has been assigned to the request */
+  onLease?: (lease: BrowserLease) => void;
+}
+
+function envInt(value: string | undefined, fallback: number): number {
+  const n = parseInt(value ?? '', 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+const MAX_CONCURRENCY = envInt(process.env.PLAYWRIGHT_MAX_CONCURRENCY, 2);
+const WS_ENDPOINT = process.env.PLAYWRIGHT_WS_ENDPOINT || undefined;
+
+const MAX_QUEUE = 8;               // requests waiting beyond this fail fast
+const QUEUE_TIMEOUT_MS = 20000;
+const DEFAULT_PAGE_TIMEOUT_MS = 60000;
+const IDLE_SHUTDOWN_MS = 60000;
+
+const CONTEXT_OPTIONS = {
+  userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  extraHTTPHeaders: {
+    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+    'Accept-Language': 'en-US,en;q=0.9',
+    'Sec-Fetch-Dest': 'document',
+    'Sec-Fetch-Mode': 'navigate',
+    'Sec-Fetch-Site': 'none',
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Pool state (per server instance)
+// ---------------------------------------------------------------------------
+
+let browserPromise: Promise<Browser> | null = null;
+let activeCount = 0;
+const waiting: (() => void)[] = [];
+let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Wait for a free render slot (rejects when the queue is full or too slow)
+ */
+function acquireSlot(): Promise<void> {
+  if (activeCount < MAX_CONCURRENCY) {
+    activeCount++;
+    return Promise.resolve();
+  }
+  if (waiting.length >= MAX_QUEUE) {
+    return Promise.reject(new Error('Headless browser queue is full'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const grant = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      const index = waiting.indexOf(grant);
+      if (index !== -1) waiting.splice(index, 1);
+      reject(new Error('Timed out waiting for a headless browser'));
+    }, QUEUE_TIMEOUT_MS);
+    waiting.push(grant);
+  });
+}
+
+/**
+ * Hand the slot to the next waiting request, or free it
+ */
+function releaseSlot(): void {
+  const next = waiting.shift();
+  if (next) {
+    next();
+    return;
+  }
+  activeCount--;
+  if (activeCount === 0) scheduleIdleShutdown();
+}
+
+function scheduleIdleShutdown(): void {
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = setTimeout(() => {
+    idleTimer = null;
+    if (activeCount > 0 || !browserPromise) return;
+    console.log('[BrowserPool] Idle, closing browser');
+    const closing = browserPromise;
+    browserPromise = null;
+    closing.then(browser => browser.close()).catch(() => {});
+  }, IDLE_SHUTDOWN_MS);
+  idleTimer.unref?.();
+}
+
+/**
+ * The running browser, or a new one (launches and connects are shared by
+ * concurrent callers)
+ */
+async function getBrowser(): Promise<{ browser: Browser; source: BrowserSource }> {
+  if (browserPromise) {
+    return { browser: await browserPromise, source: 'reused' };
+  }
+
+  const source: BrowserSource = WS_ENDPOINT ? 'connected' : 'launched';
+  console.log(`[BrowserPool] ${WS_ENDPOINT ? 'Connecting to browser server' : 'Launching browser'}`);
+
+  const starting = WS_ENDPOINT
+    ? chromium.connect(WS_ENDPOINT)
+    : chromium.launch({ headless: true, args: ['--no-sandbox', '--disable-setuid-sandbox'] });
+  browserPromise = starting;
+
+  try {
+    const browser = await starting;
+    browser.on('disconnected', () => {
+      if (browserPromise === starting) {
+        console.log('[BrowserPool] Browser disconnected');
+        browserPromise = null;
+      }
+    });
+    return { browser, source };
+  } catch (error) {
+    if (browserPromise === starting) browserPromise = null;
+    throw error;
+  }
+}
+
+function withTimeout<T>(work: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Headless render timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  work.catch(() => {}); // the loser's rejection is handled by the race
+  return Promise.race([work, timeout]).finally(() => clearTimeout(timer));
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Run `work` with a fresh page, in a fresh context, from the shared browser.
+ * Waits for a render slot first; the context is closed afterwards.
+ */
+export async function withBrowserPage<T>(
+  work: (page: Page) => Promise<T>,
+  { timeoutMs = DEFAULT_PAGE_TIMEOUT_MS, onLease }: BrowserPageOptions = {}
+): Promise<T> {
+  const queuedAt = Date.now();
+  await acquireSlot();
+  const queueWaitMs = Date.now() - queuedAt;
+  if (idleTimer) {
+    clearTimeout(idleTimer);
+    idleTimer = null;
+  }
+
+  let context: BrowserContext | undefined;
+  try {
+    const { browser, source } = await getBrowser();
+    onLease?.({ browser: source, queueWaitMs });
+
+    context = await browser.newContext(CONTEXT_OPTIONS);
+    const page = await context.newPage();
+    return await withTimeout(work(page), timeoutMs);
+  } finally {
+    await context?.close().catch(() => {});
+    releaseSlot();
+  }
+}
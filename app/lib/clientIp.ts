@@ -0,0 +1,24 @@
+/**
+ * Client address for per-client limits in API routes.
+ *
+ * Only headers the trusted proxy in front of the app sets are used: on
+ * Vercel, X-Vercel-Forwarded-For and X-Real-IP (both overwritten by the
+ * platform). Otherwise the last X-Forwarded-For hop, which is the one the
+ * nearest proxy appended; earlier hops come from the client and can be
+ * forged. `next start` must therefore sit behind a reverse proxy that sets
+ * X-Real-IP or appends to X-Forwarded-For. Requests with none of these
+ * share the "unknown" bucket.
+ */
+
+function lastHop(header: string | null): string | undefined {
+  return header?.split(',').pop()?.trim() || undefined;
+}
+
+export function clientIp(request: Request): string {
+  return (
+    lastHop(request.headers.get('x-vercel-forwarded-for')) ||
+    request.headers.get('x-real-ip')?.trim() ||
+    lastHop(request.headers.get('x-forwarded-for')) ||
+    'unknown'
+  );
+}
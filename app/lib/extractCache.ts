@@ -16,7 +16,7 @@ interface CacheEntry {
 }
 
 interface CacheStore {
-  version: 1;
+  version: 2;                         // bumped when the payload format changes (2: sanitized HTML)
   index: string[];                    // URLs oldest → newest
   entries: { [url: string]: CacheEntry };
 }
@@ -26,7 +26,7 @@ interface CacheStore {
 // ---------------------------------------------------------------------------
 
 function emptyStore(): CacheStore {
-  return { version: 1, index: [], entries: {} };
+  return { version: 2, index: [], entries: {} };
 }
 
 function safeLoad(): CacheStore {
@@ -35,7 +35,7 @@ function safeLoad(): CacheStore {
     const raw = localStorage.getItem(STORAGE_KEY);
     if (!raw) return emptyStore();
     const parsed = JSON.parse(raw);
-    if (parsed?.version !== 1) return emptyStore();
+    if (parsed?.version !== 2) return emptyStore();
     return parsed as CacheStore;
   } catch {
     return emptyStore();
@@ -118,6 +118,22 @@ export function getCachedExtract(url: string): any | null {
   return entry.payload;
 }
 
+/**
+ * Lead image URLs of cached extracts, keyed by article URL.
+ * Lets the feed show a thumbnail for articles the feed had no image for.
+ */
+export function getCachedLeadImages(): Map<string, string> {
+  const store = safeLoad();
+  purgeExpired(store);
+
+  const images = new Map<string, string>();
+  for (const url of store.index) {
+    const image = store.entries[url]?.payload?.leadImage?.url;
+    if (typeof image === 'string') images.set(url, image);
+  }
+  return images;
+}
+
 /**
  * Store a successful extract response in the cache.
  * Only call this for successful extractions with content.
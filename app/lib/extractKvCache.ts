@@ -13,6 +13,7 @@
  */
 
 import { createHash } from 'crypto';
+import type { LeadImage } from './leadImage';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -28,6 +29,11 @@ export interface CachedExtract {
   textContent: string;
   excerpt?: string;
   length: number;
+  authors?: string[];
+  publishedAt?: string; // ISO 8601
+  modifiedAt?: string;
+  leadImage?: LeadImage;
+  pageCount?: number;
   cachedAt: number; // unix ms
 }
 
@@ -40,8 +46,12 @@ export interface CachedExtract {
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 let _redis: any | null | undefined; // undefined = not yet initialized
 
+/**
+ * Shared Upstash client, or null when KV is not configured.
+ * Also used by the sync store (syncStore.ts).
+ */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function getRedis(): any | null {
+export function getRedis(): any | null {
   if (_redis !== undefined) return _redis;
 
   const url = process.env.KV_REST_API_URL;
@@ -130,11 +140,12 @@ export function normalizeUrl(input: string): string {
 // Cache Key
 // ---------------------------------------------------------------------------
 
-const CACHE_KEY_PREFIX = 'sr:ext:v1:';
+// v2: content HTML is sanitized before caching
+const CACHE_KEY_PREFIX = 'sr:ext:v2:';
 
 /**
  * Create a short, collision-resistant cache key from a normalized URL.
- * Format: sr:ext:v1:<16-char-sha256-hex>
+ * Format: sr:ext:v2:<16-char-sha256-hex>
  */
 export function makeCacheKey(normalizedUrl: string): string {
   const hash = createHash('sha256').update(normalizedUrl).digest('hex').substring(0, 16);
@@ -206,6 +217,11 @@ export function buildCachedPayload(
     textContent?: string;
     excerpt?: string;
     length?: number;
+    authors?: string[];
+    publishedAt?: string;
+    modifiedAt?: string;
+    leadImage?: LeadImage;
+    pageCount?: number;
   }
 ): CachedExtract | null {
   // Only cache if we have the minimum required fields
@@ -221,6 +237,11 @@ export function buildCachedPayload(
     textContent: result.textContent || '',
     excerpt: result.excerpt,
     length: result.length || result.textContent?.length || 0,
+    authors: result.authors,
+    publishedAt: result.publishedAt,
+    modifiedAt: result.modifiedAt,
+    leadImage: result.leadImage,
+    pageCount: result.pageCount,
     cachedAt: Date.now(),
   };
 }
@@ -0,0 +1,48 @@
+import { JSDOM } from 'jsdom';
+import { describe, expect, it } from 'vitest';
+import { findNextPageUrl } from './extractPagination';
+
+function nextPage(pageUrl: string, body: string): string | null {
+  const { document } = new JSDOM(`<!doctype html><html><body>${body}</body></html>`).window;
+  return findNextPageUrl(document, pageUrl);
+}
+
+describe('findNextPageUrl', () => {
+  it.each([
+    ['https://pub.example/story', '/story?page=2', 'https://pub.example/story?page=2'],
+    ['https://pub.example/story?page=2', '/story?page=3', 'https://pub.example/story?page=3'],
+    ['https://pub.example/story/', '/story/page/2/', 'https://pub.example/story/page/2/'],
+    ['https://pub.example/story/page/2/', '/story/page/3/', 'https://pub.example/story/page/3/'],
+    ['https://pub.example/story/', '/story/2/', 'https://pub.example/story/2/'],
+    ['https://pub.example/story/2/', '/story/3/', 'https://pub.example/story/3/'],
+    ['https://pub.example/story/123', '/story/123/page/2', 'https://pub.example/story/123/page/2'],
+    ['https://pub.example/article?id=5', '/article?id=5&page=2', 'https://pub.example/article?id=5&page=2'],
+    ['https://pub.example/story?utm_source=x', '/story?page=2', 'https://pub.example/story?page=2'],
+  ])('follows rel="next" from %s to %s', (pageUrl, href, expected) => {
+    expect(nextPage(pageUrl, `<a rel="next" href="${href}">Next</a>`)).toBe(expected);
+  });
+
+  it.each([
+    ['next article by id', 'https://pub.example/story/123', '/story/124'],
+    ['next post in a series', 'https://pub.example/story/5-takeaways', '/story/6-takeaways'],
+    ['page skipped', 'https://pub.example/story', '/story?page=3'],
+    ['other article', 'https://pub.example/story', '/other?page=2'],
+    ['other site', 'https://pub.example/story', 'https://other.example/story?page=2'],
+    ['same page', 'https://pub.example/story?page=2', '/story?page=2'],
+    ['article with another id', 'https://pub.example/article?id=5', '/article?id=6&page=2'],
+    ['next day in a date path', 'https://pub.example/2024/10/9', '/2024/10/10'],
+    ['next number after an id', 'https://pub.example/story/123/2', '/story/123/3'],
+  ])('ignores rel="next" to the %s', (_name, pageUrl, href) => {
+    expect(nextPage(pageUrl, `<a rel="next" href="${href}">Next</a>`)).toBeNull();
+  });
+
+  it('uses a "Next" link in a pagination block', () => {
+    const body = '<div class="pagination"><a href="/story?page=1">1</a><a href="/story?page=2">Next ›</a></div>';
+    expect(nextPage('https://pub.example/story', body)).toBe('https://pub.example/story?page=2');
+  });
+
+  it('finds a plain link with the page number incremented', () => {
+    const body = '<a href="/story/124">Another story</a><a href="/story/page/2">2</a>';
+    expect(nextPage('https://pub.example/story', body)).toBe('https://pub.example/story/page/2');
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Multi-page articles.
+ *
+ * Long features and "takeaways" lists are often split across ?page=2,
+ * /page/2/ or /2/ pages. The next page is found from <link rel="next">, a rel="next"
+ * anchor, a "Next" link in a pagination block, or a link to the same
+ * article with the page number incremented. /api/extract follows these up
+ * to MAX_ARTICLE_PAGES and stitches the pages into one result.
+ */
+
+import type { ExtractCandidate } from './extractStrategies';
+import { normalizeUrl } from './extractKvCache';
+
+/** Pages per article, including the first */
+export const MAX_ARTICLE_PAGES = 5;
+
+const REL_NEXT_SELECTOR = 'link[rel~="next"][href], a[rel~="next"][href]';
+const PAGINATION_LINK_SELECTOR = [
+  '[class*="pagination"] a[href]',
+  '[class*="pager"] a[href]',
+  'nav[aria-label*="pagination" i] a[href]',
+].join(', ');
+const NEXT_LINK_TEXT = /^(next(\s+page)?|continue reading)?\s*[›»→>]?$/i;
+
+const PAGE_PARAMS = ['page', 'pg'];
+const PAGE_PATH = /\/page\/(\d{1,3})\/?$/;
+// A bare /N suffix is a page number only when small and not part of a date
+// or id path: /story/123 is an article id, /2024/10/9 a date
+const PAGE_SUFFIX = /\/(\d{1,2})\/?$/;
+const NUMERIC_SEGMENT_BEFORE_SUFFIX = /\/\d+\/\d{1,2}\/?$/;
+const MAX_SUFFIX_PAGE = 20;
+
+interface PageRef {
+  path: string;   // article path without the page segment or trailing slash
+  query: string;  // other query params, normalized (tracking params dropped, sorted)
+  page: number;   // 1 when the URL has no page number
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Last two labels of a hostname (www.azcentral.com -> azcentral.com)
+ */
+function siteOf(hostname: string): string {
+  return hostname.toLowerCase().split('.').slice(-2).join('.');
+}
+
+/**
+ * Query string without the page params, normalized like cache keys
+ */
+function articleQuery(url: URL): string {
+  const copy = new URL(url.href);
+  for (const param of PAGE_PARAMS) copy.searchParams.delete(param);
+  return new URL(normalizeUrl(copy.href)).search;
+}
+
+/**
+ * Article path, other query params and page number: ?page=N / ?pg=N,
+ * /page/N, or a small /N suffix (/story/2/ -> /story, 2)
+ */
+function pageRef(url: URL): PageRef {
+  const path = url.pathname.replace(/\/$/, '');
+  const query = articleQuery(url);
+
+  for (const param of PAGE_PARAMS) {
+    const page = parseInt(url.searchParams.get(param) ?? '', 10);
+    if (page >= 1) return { path, query, page };
+  }
+
+  const pathMatch = url.pathname.match(PAGE_PATH);
+  if (pathMatch) {
+    return { path: url.pathname.replace(PAGE_PATH, ''), query, page: parseInt(pathMatch[1], 10) };
+  }
+
+  const suffixMatch = url.pathname.match(PAGE_SUFFIX);
+  const suffix = suffixMatch ? parseInt(suffixMatch[1], 10) : 0;
+  if (suffix >= 1 && suffix <= MAX_SUFFIX_PAGE && !NUMERIC_SEGMENT_BEFORE_SUFFIX.test(url.pathname)) {
+    return { path: url.pathname.replace(PAGE_SUFFIX, ''), query, page: suffix };
+  }
+
+  return { path, query, page: 1 };
+}
+
+/**
+ * Whether `next` is the following page of the same article, not a different
+ * article (some sites also use rel="next" for the next post): same path
+ * and other query params, page number exactly one higher
+ */
+function isSameArticle(current: URL, next: URL): boolean {
+  if (siteOf(next.hostname) !== siteOf(current.hostname)) return false;
+  if (next.protocol !== 'http:' && next.protocol !== 'https:') return false;
+  if (next.href === current.href) return false;
+
+  const currentRef = pageRef(current);
+  const nextRef = pageRef(next);
+  return nextRef.path === currentRef.path && nextRef.query === currentRef.query && nextRef.page === currentRef.page + 1;
+}
+
+function resolve(href: string | null, base: URL): URL | null {
+  if (!href) return null;
+  try {
+    const url = new URL(href, base);
+    url.hash = '';
+    return url;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Find the URL of the article's next page, or null if it has none
+ */
+export function findNextPageUrl(doc: Document, pageUrl: string): string | null {
+  let current: URL;
+  try {
+    current = new URL(pageUrl);
+  } catch {
+    return null;
+  }
+
+  // 1. rel="next"
+  for (const el of Array.from(doc.querySelectorAll(REL_NEXT_SELECTOR))) {
+    const url = resolve(el.getAttribute('href'), current);
+    if (url && isSameArticle(current, url)) return url.href;
+  }
+
+  // 2. "Next" in a pagination block
+  for (const a of Array.from(doc.querySelectorAll(PAGINATION_LINK_SELECTOR))) {
+    const text = (a.textContent || '').replace(/\s+/g, ' ').trim();
+    const label = a.getAttribute('aria-label') || '';
+    if (!text && !label) continue;
+    if (!NEXT_LINK_TEXT.test(text) && !/^next/i.test(label)) continue;
+    const url = resolve(a.getAttribute('href'), current);
+    if (url && isSameArticle(current, url)) return url.href;
+  }
+
+  // 3. A link to this article with the page number incremented
+  for (const a of Array.from(doc.querySelectorAll('a[href]'))) {
+    const url = resolve(a.getAttribute('href'), current);
+    if (url && isSameArticle(current, url)) return url.href;
+  }
+
+  return null;
+}
+
+/**
+ * Combine the candidates extracted from each page of an article.
+ * Title, byline, metadata and lead image come from the first page.
+ */
+export function stitchPages(pages: ExtractCandidate[]): ExtractCandidate {
+  const [first] = pages;
+  if (pages.length === 1) return first;
+
+  const contentHtml = pages
+    .map((page, index) => index === 0
+      ? page.contentHtml
+      : `<hr>\n<p><small>Page ${index + 1} of ${pages.length}</small></p>\n${page.contentHtml}`)
+    .join('\n');
+  const textContent = pages.map(page => page.textContent.trim()).join('\n\n');
+
+  return { ...first, contentHtml, textContent, length: textContent.length };
+}
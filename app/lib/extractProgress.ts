@@ -0,0 +1,139 @@
+/**
+ * Progress events for the streaming variants of /api/resolve and /api/extract.
+ *
+ * With `?stream=1` either route answers with Server-Sent Events instead of
+ * JSON: `stage` events while it works, then one final event carrying the
+ * same JSON body the plain route returns -- `done` when it succeeded,
+ * `failed` otherwise. The reader uses them to show what the server is doing
+ * during slow extractions (redirects, retries, headless rendering).
+ */
+
+export type ExtractStage =
+  | 'resolving'   // Google News wrapper -> publisher URL
+  | 'fetching'    // publisher page request
+  | 'parsing'     // extraction strategies
+  | 'variant'     // AMP / print version
+  | 'headless'    // Playwright render
+  | 'paginating'; // next pages of a multi-page article
+
+export interface StageEvent {
+  stage: ExtractStage;
+  detail?: string;
+}
+
+export type StageReporter = (stage: ExtractStage, detail?: string) => void;
+
+/** Reporter for non-streaming requests */
+export const ignoreStage: StageReporter = () => {};
+
+const STAGE_LABELS: Record<ExtractStage, string> = {
+  resolving: 'Resolving article URL',
+  fetching: 'Fetching article',
+  parsing: 'Extracting article text',
+  variant: 'Trying a lighter version of the page',
+  headless: 'Rendering the page in a headless browser',
+  paginating: 'Loading more pages',
+};
+
+/**
+ * Reader-facing text for a stage event
+ */
+export function stageMessage(event: StageEvent): string {
+  const label = STAGE_LABELS[event.stage] ?? 'Loading article';
+  return event.detail ? `${label} (${event.detail})...` : `${label}...`;
+}
+
+// ---------------------------------------------------------------------------
+// Server
+// ---------------------------------------------------------------------------
+
+/**
+ * Run `work` and stream its stages and result as Server-Sent Events.
+ * If the client disconnects, the work still finishes (and caches its result).
+ */
+export function streamStages(work: (report: StageReporter) => Promise<{ success?: boolean }>): Response {
+  const encoder = new TextEncoder();
+  let open = true;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!open) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          open = false;
+        }
+      };
+
+      try {
+        const payload = await work((stage, detail) => send('stage', { stage, detail }));
+        send(payload.success ? 'done' : 'failed', payload);
+      } catch (error) {
+        console.error('[Stream] Request failed:', error);
+        send('failed', { success: false, error: 'Internal error' });
+      } finally {
+        if (open) controller.close();
+        open = false;
+      }
+    },
+    cancel() {
+      open = false;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no', // don't let proxies buffer the stream
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+/**
+ * Read a stage stream, reporting each stage; resolves with the final payload.
+ * Rejects if the stream ends without one (or the fetch is aborted).
+ */
+export async function readStageStream<T>(response: Response, onStage: (event: StageEvent) => void): Promise<T> {
+  if (!response.body) {
+    throw new Error(`No stream in response (HTTP ${response.status})`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const message = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      let data = '';
+      for (const line of message.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (!data) continue;
+
+      if (event === 'stage') {
+        onStage(JSON.parse(data) as StageEvent);
+      } else if (event === 'done' || event === 'failed') {
+        await reader.cancel();
+        return JSON.parse(data) as T;
+      }
+    }
+  }
+
+  throw new Error('Stream ended without a result');
+}
@@ -0,0 +1,234 @@
+/**
+ * Per-domain extraction rules consulted by /api/extract.
+ *
+ * Problem sites get an entry here instead of another branch in the route.
+ * A rule applies to its domains and all of their subdomains. Every field
+ * is optional except `id`, `name` and `domains`; sites without a rule use
+ * the generic pipeline.
+ */
+
+export interface ShellSignature {
+  titles?: string[];          // exact page titles (lowercase) of the generic shell page
+  titleIncludes?: string[];   // substrings (lowercase) of shell page titles
+  titleSuffix?: string;       // "<x> - Site" suffix (lowercase); with null/undefined as <x> the page failed to render
+  htmlMarkers?: string[][];   // confirms a shell-titled page: any group whose markers all appear in the HTML
+}
+
+/**
+ * A step the Playwright fallback runs after navigation, before capturing the HTML
+ * (see runPageActions in pageActions.ts). Steps never fail the render.
+ */
+export type PageAction =
+  | { action: 'click'; selectors: string[]; timeoutMs?: number }              // first visible match in any frame, if one appears
+  | { action: 'scroll'; steps?: number; delayMs?: number }                    // to the bottom in steps, for lazy-loaded content
+  | { action: 'waitForSelector'; selectors?: string[]; timeoutMs?: number }   // default: the rule's content selectors
+  | { action: 'waitForNetworkIdle'; timeoutMs?: number }
+  | { action: 'wait'; ms: number };
+
+export interface ExtractRule {
+  id: string;                 // stable short id, used in logs
+  name: string;               // display name used in user-facing errors
+  domains: string[];          // registrable domains (subdomains match too)
+  contentSelectors?: string[];  // article body, in priority order (default for a waitForSelector page action)
+  removeSelectors?: string[];   // stripped from the page before extraction
+  shell?: ShellSignature;       // generic page served instead of the article
+  requiresJavaScript?: boolean; // thin server-rendered pages are retried with Playwright
+  blocked?: boolean;            // site blocks reader mode: 404s count as blocking, failures report "blocked"
+  headers?: Record<string, string>; // extra request headers for server-side fetches
+  navigationTimeoutMs?: number; // Playwright navigation timeout (default 15s)
+  pageActions?: PageAction[];   // Playwright steps before capture (default DEFAULT_PAGE_ACTIONS)
+}
+
+/** "Accept" buttons of common cookie-consent overlays */
+export const CONSENT_BUTTON_SELECTORS = [
+  '#onetrust-accept-btn-handler',                                 // OneTrust
+  '.qc-cmp2-summary-buttons button[mode="primary"]',              // Quantcast
+  '#didomi-notice-agree-button',                                  // Didomi
+  '#truste-consent-button',                                       // TrustArc
+  'button.sp_choice_type_11',                                     // Sourcepoint (in an iframe)
+  '#CybotCookiebotDialogBodyLevelButtonLevelOptinAllowAll',       // Cookiebot
+  '[data-testid="uc-accept-all-button"]',                         // Usercentrics
+];
+
+/**
+ * Playwright steps for sites whose rule doesn't set its own: only dismiss
+ * consent. Waits and scrolling cost seconds per render, so a site that
+ * needs them gets them in its rule.
+ */
+export const DEFAULT_PAGE_ACTIONS: PageAction[] = [
+  { action: 'click', selectors: CONSENT_BUTTON_SELECTORS },
+];
+
+export const EXTRACT_RULES: ExtractRule[] = [
+  {
+    id: 'espn',
+    name: 'ESPN',
+    domains: ['espn.com', 'espn.go.com'],
+    contentSelectors: [
+      'article',
+      '[data-testid="article-body"]',
+      '[class*="Article__Content"]',
+      'main article',
+      'section article',
+    ],
+    shell: {
+      titles: ['espn', 'espn.com'],
+      titleIncludes: ['espn - serving sports fans'],
+      titleSuffix: '- espn',
+      htmlMarkers: [['nfl', 'scoreboard'], ['see all', 'scores']],
+    },
+    requiresJavaScript: true,
+    blocked: true,
+    navigationTimeoutMs: 45000,
+    // The article body often hydrates late: wait, scroll, then wait again
+    pageActions: [
+      { action: 'click', selectors: CONSENT_BUTTON_SELECTORS },
+      { action: 'waitForSelector', timeoutMs: 8000 },
+      { action: 'wait', ms: 3000 },
+      { action: 'scroll', steps: 4, delayMs: 500 },
+      { action: 'waitForNetworkIdle', timeoutMs: 10000 },
+      { action: 'waitForSelector', timeoutMs: 5000 },
+    ],
+  },
+];
+
+// Below these sizes a Readability result from a rule's domain is treated as a shell
+const SHELL_MAX_HTML_LENGTH = 500;
+const SHELL_MAX_TEXT_LENGTH = 300;
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+/**
+ * Find the rule for a hostname, or null if the site has none
+ */
+export function getExtractRule(hostname: string): ExtractRule | null {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  return EXTRACT_RULES.find(rule =>
+    rule.domains.some(domain => host === domain || host.endsWith(`.${domain}`))
+  ) ?? null;
+}
+
+/**
+ * Rule for a URL string, or null if the URL is invalid or has no rule
+ */
+export function getExtractRuleForUrl(url: string): ExtractRule | null {
+  try {
+    return getExtractRule(new URL(url).hostname);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * User-facing error for a site that blocks reader mode
+ */
+export function blockedErrorMessage(rule: ExtractRule): string {
+  return `${rule.name} blocks reader mode`;
+}
+
+// ---------------------------------------------------------------------------
+// Document preparation
+// ---------------------------------------------------------------------------
+
+/**
+ * Strip the rule's removal selectors from a parsed page (in place)
+ */
+export function applyRemoveSelectors(doc: Document, rule: ExtractRule | null): void {
+  for (const selector of rule?.removeSelectors ?? []) {
+    try {
+      doc.querySelectorAll(selector).forEach(el => el.remove());
+    } catch {
+      console.warn('[ExtractRules] Invalid remove selector:', rule!.id, selector);
+    }
+  }
+}
+
+/**
+ * First element matching the rule's content selectors with at least `minText` characters
+ */
+export function findRuleContent(doc: Document, rule: ExtractRule | null, minText: number): Element | null {
+  for (const selector of rule?.contentSelectors ?? []) {
+    try {
+      const el = doc.querySelector(selector);
+      if (el && (el.textContent?.trim().length ?? 0) > minText) return el;
+    } catch {
+      console.warn('[ExtractRules] Invalid content selector:', rule!.id, selector);
+    }
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Shell detection
+// ---------------------------------------------------------------------------
+
+/**
+ * Detect a shell page (generic site page instead of the article) from raw HTML
+ */
+export function isShellPage(rule: ExtractRule, html: string, title: string): boolean {
+  const shell = rule.shell;
+  if (!shell) return false;
+
+  const lowerTitle = title.toLowerCase();
+  const lowerHtml = html.toLowerCase();
+
+  const titleMatches = (shell.titles ?? []).includes(lowerTitle) ||
+    (shell.titleIncludes ?? []).some(part => lowerTitle.includes(part));
+  if (!titleMatches) return false;
+
+  console.log(`[Extract] ${rule.name} shell page detected via title:`, title);
+
+  // Verify it's actually a shell by checking content
+  const hasMarkers = (shell.htmlMarkers ?? []).some(group => group.every(marker => lowerHtml.includes(marker)));
+  const lacksStoryMarkers = !lowerHtml.includes('story') &&
+                             !lowerHtml.includes('article') &&
+                             lowerHtml.split('<p>').length < 5; // Few paragraphs
+
+  return hasMarkers || lacksStoryMarkers;
+}
+
+/**
+ * Detect a shell page from Readability results (before the quality gate).
+ * Catches false positives like "null - ESPN" titles that pass quality gates.
+ */
+export function isShellResult(rule: ExtractRule, params: {
+  title: string;
+  textContent: string;
+  contentHtml: string;
+}): boolean {
+  const shell = rule.shell;
+  if (!shell) return false;
+
+  const title = (params.title ?? '').trim();
+  const lowerTitle = title.toLowerCase();
+
+  // Detect "null - ESPN" or similar malformed titles
+  if (title.startsWith('null') ||
+      title.startsWith('undefined') ||
+      (shell.titles ?? []).includes(lowerTitle) ||
+      (!!shell.titleSuffix && lowerTitle.includes(shell.titleSuffix) &&
+        (lowerTitle.includes('null') || lowerTitle.includes('undefined')))) {
+    console.log(`[Extract] ${rule.name} shell result detected via malformed title:`, title);
+    return true;
+  }
+
+  // Detect JSON error payload in content
+  const text = (params.textContent ?? '').trim();
+  if (text.startsWith('{') &&
+      (text.includes('"status":404') || text.includes('"status": 404')) &&
+      text.includes('"error"')) {
+    console.log(`[Extract] ${rule.name} shell result detected via JSON error payload`);
+    return true;
+  }
+
+  // Detect very short content that looks like a shell page
+  const html = (params.contentHtml ?? '').trim();
+  if (html.length < SHELL_MAX_HTML_LENGTH && text.length < SHELL_MAX_TEXT_LENGTH) {
+    console.log(`[Extract] ${rule.name} shell result detected via insufficient content`);
+    return true;
+  }
+
+  return false;
+}
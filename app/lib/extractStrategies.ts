@@ -0,0 +1,399 @@
+/**
+ * Extraction strategy pipeline for /api/extract.
+ *
+ * A fetched page is parsed once into an ExtractPage. Each strategy turns it
+ * into a candidate result; candidates go through one shell check and one
+ * quality gate, in EXTRACT_STRATEGIES order, and the first that passes wins.
+ *
+ * To add a strategy: add its name to ExtractStrategyName and an entry to
+ * EXTRACT_STRATEGIES. Its name becomes the `extractMethod` in health logs
+ * (prefixed with `playwright_` for Playwright-rendered pages).
+ */
+
+import { JSDOM } from 'jsdom';
+import { Readability } from '@mozilla/readability';
+import { ExtractRule, applyRemoveSelectors, findRuleContent, isShellResult } from './extractRules';
+import { ArticleJsonLd, parseArticleJsonLd } from './articleJsonLd';
+import type { PageVariantKind } from './extractVariants';
+import { PaywallSignal, detectPaywall } from './paywallDetect';
+import { LeadImage, findLeadImage } from './leadImage';
+import { sanitizeArticleHtml } from './sanitizeHtml';
+import { normalizeEmbeds } from './articleEmbeds';
+import type { ExtractMethod } from './healthLog';
+
+export type ExtractStrategyName = 'readability' | 'json_ld' | 'fallback';
+
+/**
+ * A fetched publisher page, parsed once and shared by all strategies.
+ * The rule's removal selectors are already applied to `document`.
+ * Strategies must not mutate it (clone first, as Readability does).
+ */
+export interface ExtractPage {
+  url: string;              // final URL after redirects
+  status: number;           // HTTP status (200 for Playwright renders)
+  contentType: string;
+  html: string;
+  document: Document;
+  pageTitle: string;
+  textPreview: string;      // first 200 chars of body text
+  jsonLd: ArticleJsonLd | null;
+  leadImage: LeadImage | null;
+  rule: ExtractRule | null;
+  playwrightUsed: boolean;
+  redirectCount?: number;   // redirects followed to reach url (server-side fetches)
+  variant?: { kind: PageVariantKind; articleUrl: string }; // AMP / print version of articleUrl
+}
+
+/**
+ * Content produced by one strategy, before the quality gate
+ */
+export interface ExtractCandidate {
+  title: string;
+  byline?: string;
+  siteName?: string;
+  contentHtml: string;
+  textContent: string;
+  excerpt?: string;
+  length: number;
+  authors?: string[];
+  publishedAt?: string;     // ISO 8601
+  modifiedAt?: string;      // ISO 8601
+  leadImage?: LeadImage;
+}
+
+export interface ExtractStrategy {
+  name: ExtractStrategyName;
+  extract: (page: ExtractPage) => ExtractCandidate | null;
+}
+
+export interface QualityCheck {
+  passed: boolean;
+  titleLen: number;
+  textLen: number;
+  looksLikeJsonError: boolean;
+}
+
+export interface StrategyAttempt {
+  strategy: ExtractStrategyName;
+  candidate: ExtractCandidate | null;
+}
+
+/**
+ * Result of running the pipeline on one page.
+ * ok: a candidate passed. shell: a candidate was the site's shell page.
+ * paywall: only a teaser came through on a page with paywall markers
+ *   (markup alone only counts when the quality gate failed).
+ * rejected: candidates failed the quality gate (first one reported).
+ * none: no strategy produced a candidate.
+ */
+export type PipelineOutcome =
+  | { kind: 'ok'; strategy: ExtractStrategyName; candidate: ExtractCandidate; fallbackUsed: boolean; attempts: StrategyAttempt[] }
+  | { kind: 'shell'; strategy: ExtractStrategyName; rule: ExtractRule; attempts: StrategyAttempt[] }
+  | { kind: 'paywall'; strategy?: ExtractStrategyName; teaser: ExtractCandidate | null; signals: PaywallSignal[]; attempts: StrategyAttempt[] }
+  | { kind: 'rejected'; strategy: ExtractStrategyName; candidate: ExtractCandidate; quality: QualityCheck; fallbackUsed: boolean; attempts: StrategyAttempt[] }
+  | { kind: 'none'; attempts: StrategyAttempt[] };
+
+// Quality gate thresholds
+const MIN_TITLE_LENGTH = 8;
+const MIN_TEXT_LENGTH = 400;
+
+// ---------------------------------------------------------------------------
+// Page
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse fetched HTML into the page shared by all strategies
+ */
+export function createExtractPage(
+  fetched: Omit<ExtractPage, 'document' | 'pageTitle' | 'textPreview' | 'jsonLd' | 'leadImage'>
+): ExtractPage {
+  const document = new JSDOM(fetched.html, { url: fetched.url }).window.document;
+  const pageTitle = document.title || '';
+  const textPreview = (document.body?.textContent?.trim() || '').substring(0, 200).trim();
+  // Before removal selectors, which may strip <script> blocks
+  const jsonLd = parseArticleJsonLd(document);
+  const leadImage = findLeadImage(document, fetched.url, jsonLd?.image);
+  applyRemoveSelectors(document, fetched.rule);
+
+  const embeds = normalizeEmbeds(document, fetched.url);
+  if (embeds.length > 0) {
+    console.log('[Extract] Normalized embeds:', embeds.join(', '));
+  }
+
+  return { ...fetched, document, pageTitle, textPreview, jsonLd, leadImage };
+}
+
+// ---------------------------------------------------------------------------
+// Strategies
+// ---------------------------------------------------------------------------
+
+const readabilityStrategy: ExtractStrategy = {
+  name: 'readability',
+  extract: (page) => {
+    // Readability mutates the document it parses
+    const article = new Readability(page.document.cloneNode(true) as Document).parse();
+    if (!article) return null;
+
+    return {
+      title: article.title ?? '',
+      byline: article.byline || undefined,
+      siteName: article.siteName || undefined,
+      contentHtml: article.content ?? '',
+      textContent: article.textContent ?? '',
+      excerpt: article.excerpt || undefined,
+      length: article.length ?? 0,
+      publishedAt: toIsoDate(article.publishedTime),
+    };
+  },
+};
+
+const jsonLdStrategy: ExtractStrategy = {
+  name: 'json_ld',
+  extract: (page) => {
+    const jsonLd = page.jsonLd;
+    if (!jsonLd?.articleBody) return null;
+
+    // articleBody is plain text, but some publishers put HTML in it
+    let body = jsonLd.articleBody;
+    if (/<[a-z][\s\S]*>/i.test(body)) {
+      const container = page.document.createElement('div');
+      container.innerHTML = body.replace(/<\/(p|div|h[1-6]|li)>|<br\s*\/?>/gi, '$&\n\n');
+      body = container.textContent || '';
+    }
+
+    const paragraphs = body.split(/\r?\n/).map(p => p.trim()).filter(Boolean);
+    const textContent = paragraphs.join('\n\n');
+
+    return {
+      title: jsonLd.headline || page.pageTitle,
+      byline: jsonLd.authors.join(', ') || undefined,
+      siteName: jsonLd.publisherName,
+      contentHtml: paragraphs.map(p => `<p>${escapeHtml(p)}</p>`).join('\n'),
+      textContent,
+      excerpt: jsonLd.description,
+      length: textContent.length,
+    };
+  },
+};
+
+const fallbackStrategy: ExtractStrategy = {
+  name: 'fallback',
+  extract: (page) => {
+    const fallback = fallbackExtract(page.document, page.rule);
+    if (!fallback) return null;
+
+    return {
+      title: page.pageTitle,
+      contentHtml: fallback.html,
+      textContent: fallback.text,
+      length: fallback.text.length,
+    };
+  },
+};
+
+/**
+ * Strategies in priority order
+ */
+export const EXTRACT_STRATEGIES: ExtractStrategy[] = [
+  readabilityStrategy,
+  jsonLdStrategy,
+  fallbackStrategy,
+];
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toIsoDate(value: string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Site content selectors, then semantic elements, then the largest div by text
+ */
+function fallbackExtract(doc: Document, rule: ExtractRule | null): { html: string; text: string } | null {
+  // Try the site's own content selectors first
+  const ruleContent = findRuleContent(doc, rule, MIN_TEXT_LENGTH);
+  if (ruleContent) {
+    return {
+      html: ruleContent.innerHTML,
+      text: ruleContent.textContent?.trim() || '',
+    };
+  }
+
+  // Then semantic elements
+  const candidates = [
+    doc.querySelector('article'),
+    doc.querySelector('main'),
+    doc.querySelector('[itemprop="articleBody"]'),
+  ];
+
+  for (const elem of candidates) {
+    if (elem && elem.textContent && elem.textContent.trim().length > MIN_TEXT_LENGTH) {
+      return {
+        html: elem.innerHTML,
+        text: elem.textContent.trim(),
+      };
+    }
+  }
+
+  // Find largest div by text content
+  const allDivs = Array.from(doc.querySelectorAll('div'));
+  const excludeTags = ['nav', 'header', 'footer', 'aside'];
+
+  let largestDiv: HTMLElement | null = null;
+  let maxLength = 0;
+
+  for (const div of allDivs) {
+    // Skip if inside excluded elements
+    if (excludeTags.some(tag => div.closest(tag))) {
+      continue;
+    }
+
+    const textLength = div.textContent?.trim().length || 0;
+    if (textLength > maxLength) {
+      maxLength = textLength;
+      largestDiv = div;
+    }
+  }
+
+  if (largestDiv && maxLength > MIN_TEXT_LENGTH) {
+    return {
+      html: largestDiv.innerHTML,
+      text: largestDiv.textContent?.trim() || '',
+    };
+  }
+
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Pipeline
+// ---------------------------------------------------------------------------
+
+/**
+ * Quality gate: a real title and enough text, and not a JSON error payload
+ * disguised as text
+ */
+export function checkQuality(candidate: ExtractCandidate): QualityCheck {
+  const safeTitle = (candidate.title ?? '').trim();
+  const safeText = (candidate.textContent ?? '').trim();
+
+  const looksLikeJsonError =
+    safeText.startsWith('{') &&
+    (safeText.includes('"status":404') || safeText.includes('"status": 404')) &&
+    safeText.includes('"error"');
+
+  return {
+    passed: safeTitle.length >= MIN_TITLE_LENGTH && safeText.length >= MIN_TEXT_LENGTH && !looksLikeJsonError,
+    titleLen: safeTitle.length,
+    textLen: safeText.length,
+    looksLikeJsonError,
+  };
+}
+
+/**
+ * Prepare a winning candidate for the response: sanitize its HTML and fill
+ * what the strategy didn't find from page metadata (byline, authors and
+ * dates from JSON-LD, and the lead image)
+ */
+function finishCandidate(candidate: ExtractCandidate, page: ExtractPage): ExtractCandidate {
+  const jsonLd = page.jsonLd;
+  const authors = jsonLd && jsonLd.authors.length > 0 ? jsonLd.authors : undefined;
+
+  return {
+    ...candidate,
+    contentHtml: sanitizeArticleHtml(candidate.contentHtml, page.url),
+    byline: candidate.byline || authors?.join(', '),
+    authors: candidate.authors ?? authors,
+    publishedAt: jsonLd?.publishedAt ?? candidate.publishedAt,
+    modifiedAt: jsonLd?.modifiedAt ?? candidate.modifiedAt,
+    leadImage: candidate.leadImage ?? page.leadImage ?? undefined,
+  };
+}
+
+/**
+ * Run the strategies on a page until one produces a candidate that passes
+ * the quality gate. A shell page stops the pipeline. A teaser-length result
+ * on a page with paywall markers is reported as a paywall (see detectPaywall).
+ */
+export function runExtractStrategies(
+  page: ExtractPage,
+  strategies: ExtractStrategy[] = EXTRACT_STRATEGIES
+): PipelineOutcome {
+  const outcome = runStrategyChain(page, strategies);
+  if (outcome.kind === 'shell' || outcome.kind === 'paywall') return outcome;
+
+  const teaser = outcome.kind === 'none' ? null : finishCandidate(outcome.candidate, page);
+  const signals = detectPaywall(page, teaser, outcome.kind === 'ok');
+  if (!signals) return outcome;
+
+  console.log('[Extract] Paywall detected:', { signals, textLen: teaser?.textContent.trim().length ?? 0, url: page.url });
+  return {
+    kind: 'paywall',
+    strategy: outcome.kind === 'none' ? undefined : outcome.strategy,
+    teaser,
+    signals,
+    attempts: outcome.attempts,
+  };
+}
+
+function runStrategyChain(page: ExtractPage, strategies: ExtractStrategy[]): PipelineOutcome {
+  const attempts: StrategyAttempt[] = [];
+  let rejected: PipelineOutcome | null = null;
+
+  for (const [index, strategy] of strategies.entries()) {
+    let candidate: ExtractCandidate | null = null;
+    try {
+      candidate = strategy.extract(page);
+    } catch (error) {
+      console.error(`[Extract] Strategy ${strategy.name} failed:`, error);
+    }
+    attempts.push({ strategy: strategy.name, candidate });
+    if (!candidate) continue;
+
+    // Shell detection BEFORE quality gate (catches "null - ESPN" titles)
+    if (page.rule?.shell && isShellResult(page.rule, {
+      title: candidate.title.trim(),
+      textContent: candidate.textContent.trim(),
+      contentHtml: candidate.contentHtml,
+    })) {
+      return { kind: 'shell', strategy: strategy.name, rule: page.rule, attempts };
+    }
+
+    const quality = checkQuality(candidate);
+    if (quality.passed) {
+      return {
+        kind: 'ok',
+        strategy: strategy.name,
+        candidate: finishCandidate(candidate, page),
+        fallbackUsed: index > 0,
+        attempts,
+      };
+    }
+
+    console.log(`[Extract] ${strategy.name} quality gate failed:`, {
+      titleLen: quality.titleLen,
+      textLen: quality.textLen,
+      looksLikeJsonError: quality.looksLikeJsonError,
+      rule: page.rule?.id,
+      url: page.url,
+    });
+    rejected ??= { kind: 'rejected', strategy: strategy.name, candidate, quality, fallbackUsed: index > 0, attempts };
+  }
+
+  return rejected ?? { kind: 'none', attempts };
+}
+
+/**
+ * Health log extraction method for a strategy
+ */
+export function extractMethodFor(strategy: ExtractStrategyName, playwrightUsed: boolean): ExtractMethod {
+  return playwrightUsed ? `playwright_${strategy}` : strategy;
+}
@@ -0,0 +1,63 @@
+/**
+ * Lighter versions of an article page (AMP, print) advertised in its HTML.
+ *
+ * AMP and print pages are server-rendered, so a plain fetch of one often
+ * succeeds where the full page is a JavaScript shell, at a fraction of the
+ * cost of a Playwright render. /api/extract tries them before Playwright.
+ */
+
+export type PageVariantKind = 'amp' | 'print';
+
+export interface PageVariant {
+  kind: PageVariantKind;
+  url: string;
+}
+
+/** Where each variant is advertised, in the order they are tried */
+const VARIANT_LINKS: { kind: PageVariantKind; selector: string }[] = [
+  { kind: 'amp', selector: 'link[rel~="amphtml"][href]' },
+  { kind: 'print', selector: 'link[rel~="alternate"][media="print"][href]' },
+];
+
+const MAX_VARIANTS = 2;
+
+/**
+ * Last two labels of a hostname (amp.azcentral.com -> azcentral.com).
+ * Variants on other sites (AMP caches, syndication) are ignored.
+ */
+function siteOf(hostname: string): string {
+  return hostname.toLowerCase().split('.').slice(-2).join('.');
+}
+
+/**
+ * Find same-site AMP / print variants of a parsed page
+ */
+export function findPageVariants(doc: Document, pageUrl: string): PageVariant[] {
+  let page: URL;
+  try {
+    page = new URL(pageUrl);
+  } catch {
+    return [];
+  }
+
+  const variants: PageVariant[] = [];
+  for (const { kind, selector } of VARIANT_LINKS) {
+    const href = doc.querySelector(selector)?.getAttribute('href');
+    if (!href) continue;
+
+    let url: URL;
+    try {
+      url = new URL(href, page);
+    } catch {
+      continue;
+    }
+
+    const sameSite = siteOf(url.hostname) === siteOf(page.hostname);
+    const isHttp = url.protocol === 'http:' || url.protocol === 'https:';
+    const isNew = url.href !== page.href && !variants.some(v => v.url === url.href);
+    if (sameSite && isHttp && isNew) {
+      variants.push({ kind, url: url.href });
+    }
+  }
+  return variants.slice(0, MAX_VARIANTS);
+}
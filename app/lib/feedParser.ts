@@ -0,0 +1,385 @@
+/**
+ * Feed parsing for RSS 2.0, Atom 1.0 and JSON Feed 1.1.
+ *
+ * XML feeds are parsed with JSDOM's XML parser so CDATA sections,
+ * namespaced elements (dc:, media:, content:) and Atom <entry> elements
+ * are handled by a real parser instead of regexes.
+ *
+ * Server-only (depends on jsdom). Never throws: malformed input yields
+ * an empty item list.
+ */
+
+import { JSDOM } from 'jsdom';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type FeedFormat = 'rss' | 'atom' | 'json' | 'unknown';
+
+/** A single normalized feed entry, independent of source format */
+export interface FeedItem {
+  title: string;
+  link: string;
+  guid?: string;
+  pubDate?: string;      // raw date string as found in the feed
+  source?: string;       // publisher name (Google News <source>)
+  sourceUrl?: string;    // publisher homepage (Google News <source url>)
+  author?: string;
+  thumbnail?: string;
+  contentHtml?: string;  // content:encoded / atom content / content_html
+  summary?: string;
+}
+
+export interface ParsedFeed {
+  format: FeedFormat;
+  title?: string;
+  link?: string;
+  items: FeedItem[];
+}
+
+// ---------------------------------------------------------------------------
+// Namespaces
+// ---------------------------------------------------------------------------
+
+const NS_ATOM = 'http://www.w3.org/2005/Atom';
+const NS_DC = 'http://purl.org/dc/elements/1.1/';
+const NS_CONTENT = 'http://purl.org/rss/1.0/modules/content/';
+const NS_MEDIA = 'http://search.yahoo.com/mrss/';
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/** XML only predefines five entities; these are the HTML ones feeds leak most often */
+const HTML_ENTITY_MAP: Record<string, string> = {
+  nbsp: '\u00A0',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  eacute: 'é',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+};
+
+const XML_SAFE_ENTITY_RE = /&(?!(?:amp|lt|gt|quot|apos|#\d+|#x[\da-fA-F]+);)(\w+;)?/g;
+
+/**
+ * Make loosely-formed feed XML parseable: map known HTML entities to
+ * characters and escape any remaining bare ampersands.
+ */
+function sanitizeXml(xml: string): string {
+  return xml.replace(XML_SAFE_ENTITY_RE, (match, entity?: string) => {
+    if (entity) {
+      const name = entity.slice(0, -1);
+      if (name in HTML_ENTITY_MAP) return HTML_ENTITY_MAP[name];
+    }
+    return '&amp;' + (entity ?? '');
+  });
+}
+
+/**
+ * Decode entities left in text after XML parsing. CDATA titles and
+ * Atom type="html" text carry HTML-escaped content the parser won't touch.
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith('#')) {
+      const code = entity.startsWith('#x') ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    switch (entity) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default: return HTML_ENTITY_MAP[entity] ?? match;
+    }
+  });
+}
+
+/** Parse XML text, retrying once with sanitized input if the strict parse fails */
+function parseXml(xmlText: string): Document | null {
+  try {
+    return new JSDOM(xmlText, { contentType: 'text/xml' }).window.document;
+  } catch {
+    try {
+      return new JSDOM(sanitizeXml(xmlText), { contentType: 'text/xml' }).window.document;
+    } catch (error) {
+      console.error('[Feed] XML parsing error:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+}
+
+/** Direct children of `parent` matching localName (and namespace, when given) */
+function children(parent: Element, localName: string, ns?: string | null): Element[] {
+  return Array.from(parent.children).filter(
+    (el) => el.localName === localName && (ns === undefined || el.namespaceURI === ns)
+  );
+}
+
+function child(parent: Element, localName: string, ns?: string | null): Element | undefined {
+  return children(parent, localName, ns)[0];
+}
+
+/** Trimmed text of the first matching child, or undefined if missing/empty */
+function childText(parent: Element, localName: string, ns?: string | null): string | undefined {
+  const text = child(parent, localName, ns)?.textContent?.trim();
+  return text ? text : undefined;
+}
+
+/** Like childText, but entity-decoded for display fields (titles, names) */
+function childDisplayText(parent: Element, localName: string, ns?: string | null): string | undefined {
+  const text = childText(parent, localName, ns);
+  return text ? decodeEntities(text) : undefined;
+}
+
+/** Resolve a possibly-relative URL against a base; returns undefined if invalid */
+function absolutize(url: string | null | undefined, base?: string): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url.trim(), base).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+/** First <img src> in an HTML fragment (thumbnail of last resort) */
+function firstImageSrc(html: string | undefined): string | undefined {
+  if (!html) return undefined;
+  return html.match(/<img[^>]+src=["']([^"']+)["']/i)?.[1];
+}
+
+/**
+ * Thumbnail from Media RSS, shared by RSS items and Atom entries.
+ * Prefers media:thumbnail, then image media:content, then media:group.
+ */
+function mediaThumbnail(el: Element): string | undefined {
+  const thumb = child(el, 'thumbnail', NS_MEDIA)?.getAttribute('url');
+  if (thumb) return thumb;
+
+  for (const content of children(el, 'content', NS_MEDIA)) {
+    const medium = content.getAttribute('medium');
+    const type = content.getAttribute('type') || '';
+    const url = content.getAttribute('url');
+    if (url && (medium === 'image' || type.startsWith('image/'))) return url;
+    const nested = child(content, 'thumbnail', NS_MEDIA)?.getAttribute('url');
+    if (nested) return nested;
+  }
+
+  const group = child(el, 'group', NS_MEDIA);
+  return group ? mediaThumbnail(group) : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// RSS 2.0
+// ---------------------------------------------------------------------------
+
+function parseRssItem(item: Element, baseUrl?: string): FeedItem | null {
+  const title = childDisplayText(item, 'title', null);
+  const guidEl = child(item, 'guid', null);
+  const guid = guidEl?.textContent?.trim() || undefined;
+
+  // <link> is preferred; a permalink guid is a valid fallback per spec
+  let link = absolutize(childText(item, 'link', null), baseUrl);
+  if (!link && guid && guidEl?.getAttribute('isPermaLink') !== 'false') {
+    link = absolutize(guid, baseUrl);
+  }
+
+  if (!title || !link) return null;
+
+  const sourceEl = child(item, 'source', null);
+  const contentHtml = childText(item, 'encoded', NS_CONTENT);
+  const summary = childText(item, 'description', null);
+
+  const enclosure = child(item, 'enclosure', null);
+  const enclosureImage = enclosure && (enclosure.getAttribute('type') || '').startsWith('image/')
+    ? enclosure.getAttribute('url') || undefined
+    : undefined;
+
+  return {
+    title,
+    link,
+    guid,
+    pubDate: childText(item, 'pubDate', null) || childText(item, 'date', NS_DC),
+    source: sourceEl?.textContent?.trim() ? decodeEntities(sourceEl.textContent.trim()) : undefined,
+    sourceUrl: absolutize(sourceEl?.getAttribute('url')),
+    author: childDisplayText(item, 'creator', NS_DC) || childDisplayText(item, 'author', null),
+    thumbnail: absolutize(
+      mediaThumbnail(item) || enclosureImage || firstImageSrc(contentHtml) || firstImageSrc(summary),
+      link
+    ),
+    contentHtml,
+    summary,
+  };
+}
+
+function parseRss(doc: Document): ParsedFeed {
+  const channel = child(doc.documentElement, 'channel', null);
+  const itemEls = channel ? children(channel, 'item', null) : [];
+
+  const link = channel ? childText(channel, 'link', null) : undefined;
+  const items = itemEls
+    .map((item) => parseRssItem(item, link))
+    .filter((item): item is FeedItem => item !== null);
+
+  return {
+    format: 'rss',
+    title: channel ? childDisplayText(channel, 'title', null) : undefined,
+    link,
+    items,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Atom 1.0
+// ---------------------------------------------------------------------------
+
+/** Pick the alternate (or first rel-less) link href */
+function atomLink(el: Element, baseUrl?: string): string | undefined {
+  const links = children(el, 'link', NS_ATOM);
+  const alternate = links.find((l) => (l.getAttribute('rel') || 'alternate') === 'alternate');
+  return absolutize((alternate ?? links[0])?.getAttribute('href'), baseUrl);
+}
+
+function parseAtomEntry(entry: Element, baseUrl?: string): FeedItem | null {
+  const title = childDisplayText(entry, 'title', NS_ATOM);
+  const link = atomLink(entry, baseUrl);
+  if (!title || !link) return null;
+
+  const authorEl = child(entry, 'author', NS_ATOM);
+  const contentHtml = childText(entry, 'content', NS_ATOM);
+  const summary = childText(entry, 'summary', NS_ATOM);
+  const sourceEl = child(entry, 'source', NS_ATOM);
+
+  return {
+    title,
+    link,
+    guid: childText(entry, 'id', NS_ATOM),
+    pubDate: childText(entry, 'published', NS_ATOM) || childText(entry, 'updated', NS_ATOM),
+    source: sourceEl ? childDisplayText(sourceEl, 'title', NS_ATOM) : undefined,
+    sourceUrl: sourceEl ? atomLink(sourceEl) : undefined,
+    author: (authorEl ? childDisplayText(authorEl, 'name', NS_ATOM) : undefined) || childDisplayText(entry, 'creator', NS_DC),
+    thumbnail: absolutize(mediaThumbnail(entry) || firstImageSrc(contentHtml) || firstImageSrc(summary), link),
+    contentHtml,
+    summary,
+  };
+}
+
+function parseAtom(doc: Document): ParsedFeed {
+  const feed = doc.documentElement;
+  const link = atomLink(feed);
+  const items = children(feed, 'entry', NS_ATOM)
+    .map((entry) => parseAtomEntry(entry, link))
+    .filter((item): item is FeedItem => item !== null);
+
+  return {
+    format: 'atom',
+    title: childDisplayText(feed, 'title', NS_ATOM),
+    link,
+    items,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// JSON Feed 1.1
+// ---------------------------------------------------------------------------
+
+interface JsonFeedAuthor {
+  name?: string;
+}
+
+interface JsonFeedItem {
+  id?: string | number;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  content_html?: string;
+  content_text?: string;
+  summary?: string;
+  image?: string;
+  banner_image?: string;
+  date_published?: string;
+  date_modified?: string;
+  authors?: JsonFeedAuthor[];
+  author?: JsonFeedAuthor; // JSON Feed 1.0
+}
+
+interface JsonFeedDocument {
+  version?: string;
+  title?: string;
+  home_page_url?: string;
+  items?: JsonFeedItem[];
+}
+
+function parseJsonFeed(data: JsonFeedDocument): ParsedFeed {
+  const baseUrl = data.home_page_url;
+  const items = (Array.isArray(data.items) ? data.items : [])
+    .map((item): FeedItem | null => {
+      const title = typeof item.title === 'string' ? item.title.trim() : '';
+      const link = absolutize(item.url || item.external_url, baseUrl);
+      if (!title || !link) return null;
+
+      const author = item.authors?.find((a) => a?.name)?.name || item.author?.name;
+
+      return {
+        title,
+        link,
+        guid: item.id !== undefined ? String(item.id) : undefined,
+        pubDate: item.date_published || item.date_modified,
+        author: author || undefined,
+        thumbnail: absolutize(item.image || item.banner_image || firstImageSrc(item.content_html), link),
+        contentHtml: item.content_html,
+        summary: item.summary || item.content_text,
+      };
+    })
+    .filter((item): item is FeedItem => item !== null);
+
+  return { format: 'json', title: data.title, link: baseUrl, items };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a feed document of any supported format.
+ * Format is detected from content, not from the Content-Type header,
+ * since publishers frequently mislabel feeds.
+ */
+export function parseFeed(text: string): ParsedFeed {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+
+  try {
+    if (trimmed.startsWith('{')) {
+      const data = JSON.parse(trimmed) as JsonFeedDocument;
+      if (typeof data.version === 'string' && data.version.includes('jsonfeed.org')) {
+        return parseJsonFeed(data);
+      }
+      return { format: 'unknown', items: [] };
+    }
+
+    const doc = parseXml(trimmed);
+    if (!doc?.documentElement) return { format: 'unknown', items: [] };
+
+    const root = doc.documentElement;
+    if (root.localName === 'feed' && root.namespaceURI === NS_ATOM) {
+      return parseAtom(doc);
+    }
+    if (root.localName === 'rss') {
+      return parseRss(doc);
+    }
+
+    return { format: 'unknown', items: [] };
+  } catch (error) {
+    console.error('[Feed] Parsing error:', error instanceof Error ? error.message : error);
+    return { format: 'unknown', items: [] };
+  }
+}
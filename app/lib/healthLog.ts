@@ -13,12 +13,16 @@
  * - Never throws; errors silently swallowed
  */
 
+import type { ExtractStrategyName } from './extractStrategies';
+import type { PageVariantKind } from './extractVariants';
+import type { BrowserSource } from './browserPool';
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-export type HealthRoute = '/api/search' | '/api/resolve' | '/api/extract' | '/api/videos';
-export type HealthType = 'search' | 'resolve' | 'extract' | 'videos';
+export type HealthRoute = '/api/search' | '/api/resolve' | '/api/extract' | '/api/videos' | '/api/sync';
+export type HealthType = 'search' | 'resolve' | 'extract' | 'videos' | 'sync';
 export type CacheStatus = 'hit' | 'miss' | 'bypass' | 'stale' | 'none';
 export type CacheMode = 'normal' | 'refresh_bypass';
 
@@ -33,6 +37,8 @@ export type HealthErrorReason =
   | 'fetch_error'       // network-level: ECONNREFUSED, ENOTFOUND, DNS, etc.
   | 'http_4xx'          // non-blocking 4xx (e.g. 404)
   | 'http_5xx'          // server errors 5xx
+  | 'throttled'         // our own per-host rate limit (outboundLimiter) refused the request
+  | 'robots_disallowed' // publisher's robots.txt disallows the URL (RESPECT_ROBOTS_TXT=1)
   | 'non_html'          // response wasn't text/html
   | 'readability_empty' // Readability returned null or empty
   | 'quality_gate_failed'
@@ -52,7 +58,8 @@ interface HealthEventBase {
 export interface SearchHealthFields extends HealthEventBase {
   type: 'search';
   route: '/api/search';
-  source: 'google_news_rss';
+  source: 'google_news_rss' | 'publisher_rss';
+  feedId?: string;            // publisher feed id (publisher_rss only)
   query: string;
   itemsReturned: number;
   itemsParsed: number;
@@ -77,8 +84,8 @@ export interface ResolveHealthFields extends HealthEventBase {
   errorMessage?: string;
 }
 
-/** Extract method used for content extraction */
-export type ExtractMethod = 'readability' | 'fallback' | 'playwright_readability' | 'playwright_fallback' | 'none';
+/** Extract method used for content extraction (winning strategy name, see extractStrategies) */
+export type ExtractMethod = ExtractStrategyName | `playwright_${ExtractStrategyName}` | 'none';
 
 /** Extract-specific fields */
 export interface ExtractHealthFields extends HealthEventBase {
@@ -93,8 +100,12 @@ export interface ExtractHealthFields extends HealthEventBase {
   readabilityOk?: boolean;
   qualityGatePassed?: boolean;
   playwrightUsed?: boolean;
+  playwrightBrowser?: BrowserSource; // pooled browser launched for this request, or reused
+  playwrightQueueMs?: number;         // wait for a free headless render slot
   extractMethod?: ExtractMethod;
   fallbackUsed?: boolean;
+  pageVariant?: PageVariantKind; // AMP / print version the result was extracted from
+  pageCount?: number;             // pages stitched into a multi-page article
   cacheStatus: CacheStatus;
   cacheMode?: CacheMode;
   cacheLayer?: 'l1' | 'l2';
@@ -123,7 +134,20 @@ export interface VideosHealthFields extends HealthEventBase {
   errorMessage?: string;
 }
 
-export type HealthEvent = SearchHealthFields | ResolveHealthFields | ExtractHealthFields | VideosHealthFields;
+/** Sync-specific fields */
+export interface SyncHealthFields extends HealthEventBase {
+  type: 'sync';
+  route: '/api/sync';
+  action: 'register' | 'pair' | 'redeem' | 'pull' | 'push';
+  backend: 'redis' | 'memory';
+  httpStatus: number;
+  entriesIn?: number;         // entries pushed by the device
+  entriesOut?: number;        // entries in the returned document
+  errorReason?: HealthErrorReason;
+  errorMessage?: string;
+}
+
+export type HealthEvent = SearchHealthFields | ResolveHealthFields | ExtractHealthFields | VideosHealthFields | SyncHealthFields;
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -157,7 +181,7 @@ export function safeHost(url: string | null | undefined): string {
 
 /**
  * Normalize an error into a standard reason + truncated message.
- * Works for search/resolve/extract/videos failures.
+ * Works for search/resolve/extract/videos/sync failures.
  *
  * Uses the v2 taxonomy: blocked (not blocked_401_403_429), paywall,
  * http_4xx, http_5xx as separate buckets.
@@ -171,8 +195,15 @@ export function normalizeError(
 
   let reason: HealthErrorReason = 'unknown';
 
+  // Our own politeness limits (before fetch errors: messages read "Fetch error: Throttled...")
+  if (lower.includes('throttled')) {
+    reason = 'throttled';
+  }
+  else if (lower.includes('robots.txt')) {
+    reason = 'robots_disallowed';
+  }
   // Timeout
-  if (lower.includes('timeout') || lower.includes('aborted') || lower.includes('abort')) {
+  else if (lower.includes('timeout') || lower.includes('aborted') || lower.includes('abort')) {
     reason = 'timeout';
   }
   // Paywall (check before blocked so "paywall" isn't caught by generic blocked)
@@ -255,6 +286,7 @@ export function healthLog(event: HealthEvent): void {
       case 'search': {
         const e = event as SearchHealthFields;
         entry.source = e.source;
+        if (e.feedId) entry.feedId = e.feedId;
         entry.query = truncate(e.query, 80);
         entry.itemsReturned = e.itemsReturned;
         entry.itemsParsed = e.itemsParsed;
@@ -292,8 +324,12 @@ export function healthLog(event: HealthEvent): void {
         if (e.readabilityOk !== undefined) entry.readabilityOk = e.readabilityOk;
         if (e.qualityGatePassed !== undefined) entry.qualityGatePassed = e.qualityGatePassed;
         if (e.playwrightUsed !== undefined) entry.playwrightUsed = e.playwrightUsed;
+        if (e.playwrightBrowser) entry.playwrightBrowser = e.playwrightBrowser;
+        if (e.playwrightQueueMs !== undefined) entry.playwrightQueueMs = e.playwrightQueueMs;
         if (e.extractMethod) entry.extractMethod = e.extractMethod;
         if (e.fallbackUsed !== undefined) entry.fallbackUsed = e.fallbackUsed;
+        if (e.pageVariant) entry.pageVariant = e.pageVariant;
+        if (e.pageCount !== undefined && e.pageCount > 1) entry.pageCount = e.pageCount;
         entry.cacheStatus = e.cacheStatus;
         if (e.cacheMode) entry.cacheMode = e.cacheMode;
         if (e.cacheLayer) entry.cacheLayer = e.cacheLayer;
@@ -324,6 +360,19 @@ export function healthLog(event: HealthEvent): void {
         }
         break;
       }
+      case 'sync': {
+        const e = event as SyncHealthFields;
+        entry.action = e.action;
+        entry.backend = e.backend;
+        entry.httpStatus = e.httpStatus;
+        if (e.entriesIn !== undefined) entry.entriesIn = e.entriesIn;
+        if (e.entriesOut !== undefined) entry.entriesOut = e.entriesOut;
+        if (!e.ok) {
+          if (e.errorReason) entry.errorReason = e.errorReason;
+          if (e.errorMessage) entry.errorMessage = truncate(e.errorMessage, 300);
+        }
+        break;
+      }
     }
 
     console.log(JSON.stringify(entry));
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { httpRequest } from './httpClient';
+
+vi.mock('node:dns/promises', () => ({
+  lookup: vi.fn(async () => [{ address: '93.184.216.34', family: 4 }]),
+}));
+
+function redirect(location: string): Response {
+  return new Response(null, { status: 302, headers: { location } });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('httpRequest', () => {
+  it('returns the redirect chain and final URL', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(redirect('https://b.example/two'))
+      .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await httpRequest('https://a.example/one');
+    expect(result.error).toBeUndefined();
+    expect(result.url).toBe('https://b.example/two');
+    expect(result.redirectChain).toEqual(['https://a.example/one']);
+  });
+
+  it('keeps the partial chain when a later hop fails', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(redirect('https://b.example/two'))
+      .mockResolvedValueOnce(redirect('https://c.example/three'))
+      .mockRejectedValueOnce(Object.assign(new TypeError('fetch failed'), { cause: { code: 'ECONNRESET' } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await httpRequest('https://a.example/one');
+    expect(result.response).toBeUndefined();
+    expect(result.error).toBe('fetch failed (ECONNRESET)');
+    expect(result.url).toBe('https://c.example/three');
+    expect(result.redirectChain).toEqual(['https://a.example/one', 'https://b.example/two']);
+  });
+
+  it('rejects redirects to private addresses', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValueOnce(redirect('http://169.254.169.254/latest/meta-data/')));
+
+    const result = await httpRequest('https://a.example/one');
+    expect(result.errorReason).toBe('invalid_url');
+    expect(result.url).toBe('https://a.example/one');
+  });
+});
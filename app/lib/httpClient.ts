@@ -0,0 +1,270 @@
+/**
+ * Server-side HTTP client for the API routes' outbound requests.
+ *
+ * Every route needs the same things from fetch(): a deadline, a retry when
+ * a feed or API has a momentary 5xx, redirects that can't be steered to a
+ * private address, bodies that can't exhaust memory, and failures reported
+ * in the HealthErrorReason taxonomy. httpRequest() does all of these and
+ * returns a result object instead of throwing:
+ *
+ * - `timeoutMs` limits each attempt, reading the body included
+ * - GET/HEAD requests are retried `retries` times after a 5xx or a timeout,
+ *   with jittered exponential backoff
+ * - redirects are followed by hand: each hop must pass validateUrl and
+ *   resolve to public addresses, and the chain is returned as `redirectChain`
+ * - `polite` sends each hop through the per-host limiter (politeFetch)
+ *
+ * Read bodies with readText / readBytes to cap their size.
+ */
+
+import { normalizeError, HealthErrorReason } from './healthLog';
+import { politeFetch, PoliteFetchOptions } from './outboundLimiter';
+import { checkResolvedHost, validateUrl } from './urlSafety';
+
+/** Desktop Chrome, for publisher pages that serve bots a different page */
+export const BROWSER_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+/** Honest UA for feeds and APIs */
+export const FEED_USER_AGENT = 'Mozilla/5.0 (compatible; SunsReader/1.0)';
+
+/** Browser-like headers for HTML page requests */
+export const BROWSER_HEADERS: Record<string, string> = {
+  'User-Agent': BROWSER_USER_AGENT,
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.9',
+};
+
+export interface HttpRequestOptions {
+  method?: 'GET' | 'HEAD' | 'POST';
+  headers?: Record<string, string>;
+  body?: string;
+  timeoutMs?: number;           // per attempt, body included (default 10s)
+  signal?: AbortSignal;         // caller's cancellation or overall deadline
+  retries?: number;             // extra attempts for GET/HEAD after a 5xx or timeout (default 0)
+  maxRedirects?: number;        // default 5; 0 returns 3xx responses as-is
+  polite?: PoliteFetchOptions;  // pace through the per-host limiter
+  cache?: RequestCache;
+}
+
+export interface HttpResult {
+  response?: Response;          // final response, body unread
+  url: string;                  // final URL
+  redirectChain: string[];      // URLs redirected from, in order
+  attempts: number;
+  error?: string;               // no response, or a non-2xx one
+  errorReason?: HealthErrorReason;
+}
+
+/** Where an attempt has got to, kept up to date as it follows redirects */
+interface RedirectTrail {
+  url: string;
+  redirectChain: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_REDIRECTS = 5;
+const RETRY_STATUSES = new Set([500, 502, 503, 504]);
+const BACKOFF_BASE_MS = 300;
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Equal-jitter exponential backoff: half the delay fixed, half random
+ */
+function backoffMs(attempt: number): number {
+  const delay = BACKOFF_BASE_MS * 2 ** (attempt - 1);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function failure(
+  url: string,
+  redirectChain: string[],
+  attempts: number,
+  error: string,
+  { response, reason }: { response?: Response; reason?: HealthErrorReason } = {}
+): HttpResult {
+  return {
+    response,
+    url,
+    redirectChain,
+    attempts,
+    error,
+    errorReason: reason ?? normalizeError(error, response?.status).errorReason,
+  };
+}
+
+/**
+ * Message for a fetch() rejection, with the network error code when there is one
+ */
+function describeError(error: unknown, timeoutMs: number): string {
+  if (error instanceof Error) {
+    if (error.name === 'TimeoutError') return `Timeout after ${timeoutMs}ms`;
+    if (error.name === 'AbortError') return 'Aborted';
+    const code = (error.cause as { code?: string } | undefined)?.code;
+    return code ? `${error.message} (${code})` : error.message;
+  }
+  return String(error);
+}
+
+/**
+ * One attempt: the request and any redirects, each hop validated (URL and DNS).
+ * `trail` tracks the current URL and chain so a rejection mid-chain can
+ * still report them.
+ */
+async function attempt(
+  url: URL,
+  options: HttpRequestOptions,
+  signal: AbortSignal,
+  attempts: number,
+  trail: RedirectTrail
+): Promise<HttpResult> {
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const { redirectChain } = trail;
+  let current = url;
+  let method = options.method ?? 'GET';
+  let body = options.body;
+
+  for (let hop = 0; ; hop++) {
+    const resolved = await checkResolvedHost(current.hostname);
+    if (!resolved.valid) {
+      return failure(current.href, redirectChain, attempts, `${resolved.error}`, { reason: 'invalid_url' });
+    }
+
+    const init: RequestInit = {
+      method,
+      headers: options.headers,
+      body,
+      redirect: 'manual',
+      cache: options.cache,
+      signal,
+    };
+    const response = options.polite
+      ? await politeFetch(current, init, options.polite)
+      : await fetch(current, init);
+
+    const location = response.headers.get('location');
+    if (maxRedirects === 0 || response.status < 300 || response.status >= 400 || !location) {
+      return response.ok
+        ? { response, url: current.href, redirectChain, attempts }
+        : failure(current.href, redirectChain, attempts, `HTTP ${response.status}`, { response });
+    }
+
+    await response.body?.cancel().catch(() => {});
+    if (hop >= maxRedirects) {
+      return failure(current.href, redirectChain, attempts, `Too many redirects (>${maxRedirects})`, { reason: 'fetch_error' });
+    }
+
+    const next = validateUrl(new URL(location, current).href);
+    if (!next.valid || !next.url) {
+      return failure(current.href, redirectChain, attempts, `Redirect rejected: ${next.error}`, { reason: 'invalid_url' });
+    }
+
+    // 303, and 301/302 after a POST, continue as GET
+    if (response.status === 303 || (method === 'POST' && (response.status === 301 || response.status === 302))) {
+      method = 'GET';
+      body = undefined;
+    }
+    redirectChain.push(current.href);
+    current = next.url;
+    trail.url = current.href;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Make a request. Never throws: without a usable response, `error` and
+ * `errorReason` say why. Non-2xx responses are returned with both set.
+ */
+export async function httpRequest(input: string | URL, options: HttpRequestOptions = {}): Promise<HttpResult> {
+  const inputUrl = String(input);
+  const validation = validateUrl(inputUrl);
+  if (!validation.valid || !validation.url) {
+    return failure(inputUrl, [], 0, validation.error ?? 'Invalid URL format', { reason: 'invalid_url' });
+  }
+
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const method = options.method ?? 'GET';
+  const maxAttempts = 1 + (method === 'POST' ? 0 : options.retries ?? 0);
+  let result: HttpResult | null = null;
+
+  for (let attempts = 1; attempts <= maxAttempts; attempts++) {
+    if (attempts > 1) {
+      await sleep(backoffMs(attempts - 1), options.signal);
+      console.log(`[HTTP] Retry ${attempts - 1} for ${validation.url.hostname}:`, result?.error);
+    }
+    if (options.signal?.aborted) {
+      return failure(result?.url ?? inputUrl, result?.redirectChain ?? [], attempts - 1, 'Aborted');
+    }
+
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const signal = options.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+
+    const trail: RedirectTrail = { url: validation.url.href, redirectChain: [] };
+    let retryable: boolean;
+    try {
+      result = await attempt(validation.url, options, signal, attempts, trail);
+      retryable = result.response !== undefined && RETRY_STATUSES.has(result.response.status);
+    } catch (error) {
+      result = failure(trail.url, trail.redirectChain, attempts, describeError(error, timeoutMs));
+      // Timeouts of this attempt are retried; the caller's abort isn't
+      retryable = timeout.aborted && !options.signal?.aborted;
+    }
+
+    if (!retryable || attempts === maxAttempts) return result;
+    await result.response?.body?.cancel().catch(() => {});
+  }
+
+  return result!;
+}
+
+/**
+ * Read a response (or incoming request) body as bytes, or null once it
+ * exceeds `maxBytes`
+ */
+export async function readBytes(response: Response | Request, maxBytes: number): Promise<Buffer | null> {
+  const declared = parseInt(response.headers.get('content-length') ?? '', 10);
+  if (declared > maxBytes) {
+    await response.body?.cancel().catch(() => {});
+    return null;
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  const reader = response.body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Read a response (or incoming request) body as UTF-8 text, or null once it
+ * exceeds `maxBytes`
+ */
+export async function readText(response: Response | Request, maxBytes: number): Promise<string | null> {
+  const bytes = await readBytes(response, maxBytes);
+  return bytes ? new TextDecoder().decode(bytes) : null;
+}
@@ -0,0 +1,34 @@
+/**
+ * URLs for the /api/image proxy.
+ *
+ * Article images are loaded through our own origin so publishers' CDNs
+ * don't see the reader's IP or referrer, and hotlink protection doesn't
+ * break them. The proxy only serves the widths the app requests, so each
+ * image has at most two cached copies.
+ */
+
+export const IMAGE_PROXY_PATH = '/api/image';
+
+/** Width for images in the reader column (768px column, sharp on most phones) */
+export const READER_IMAGE_WIDTH = 960;
+
+/** Width for feed row thumbnails (64px at 2x) */
+export const THUMBNAIL_WIDTH = 160;
+
+/** Widths the proxy resizes to, smallest first; others are rejected */
+export const IMAGE_WIDTHS = [THUMBNAIL_WIDTH, READER_IMAGE_WIDTH];
+
+/**
+ * Snap a requested width to the next allowed width (capped at the largest)
+ */
+export function snapImageWidth(width: number): number {
+  return IMAGE_WIDTHS.find(w => w >= width) ?? IMAGE_WIDTHS[IMAGE_WIDTHS.length - 1];
+}
+
+/**
+ * Proxy URL for an absolute image URL, resized to `width`
+ */
+export function proxyImageUrl(url: string, width: number): string {
+  const params = new URLSearchParams({ url, w: String(snapImageWidth(width)) });
+  return `${IMAGE_PROXY_PATH}?${params.toString()}`;
+}
@@ -0,0 +1,106 @@
+/**
+ * Lead (hero) image of an article page.
+ *
+ * Readability often drops the hero image, which usually sits outside the
+ * article body. The page's social metadata (og:image, twitter:image) and
+ * JSON-LD name it reliably; alt text and caption come from the metadata
+ * or from the matching <img> / <figcaption> in the page.
+ */
+
+import type { ArticleJsonLdImage } from './articleJsonLd';
+
+export interface LeadImage {
+  url: string;            // absolute URL
+  alt?: string;
+  caption?: string;
+  width?: number;
+  height?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function metaContent(doc: Document, names: string[]): string | undefined {
+  for (const name of names) {
+    const value = doc
+      .querySelector(`meta[property="${name}"], meta[name="${name}"]`)
+      ?.getAttribute('content')
+      ?.trim();
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function absolutize(url: string | undefined, base: string): string | undefined {
+  if (!url) return undefined;
+  try {
+    const resolved = new URL(url, base);
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function positiveInt(value: string | undefined): number | undefined {
+  const n = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/** Last path segment, used to match resized copies of the same image */
+function fileName(url: string): string {
+  try {
+    return new URL(url).pathname.split('/').pop()?.toLowerCase() ?? '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * The page's own <img> for the image, to borrow its alt text and caption
+ */
+function findImageElement(doc: Document, url: string, base: string): HTMLImageElement | null {
+  const name = fileName(url);
+  if (!name) return null;
+
+  for (const img of Array.from(doc.querySelectorAll('img'))) {
+    const sources = [img.getAttribute('src'), img.getAttribute('data-src'), ...(img.getAttribute('srcset') ?? '').split(',')]
+      .map(src => src?.trim().split(/\s+/)[0])
+      .filter((src): src is string => !!src);
+    if (sources.some(src => fileName(absolutize(src, base) ?? '') === name)) return img;
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Find the lead image from og:image, twitter:image, then JSON-LD image
+ */
+export function findLeadImage(doc: Document, pageUrl: string, jsonLdImage?: ArticleJsonLdImage): LeadImage | null {
+  const url = absolutize(metaContent(doc, ['og:image:secure_url', 'og:image', 'twitter:image', 'twitter:image:src']), pageUrl)
+    ?? absolutize(jsonLdImage?.url, pageUrl);
+  if (!url) return null;
+
+  const img = findImageElement(doc, url, pageUrl);
+  const figcaption = img?.closest('figure')?.querySelector('figcaption')?.textContent?.replace(/\s+/g, ' ').trim();
+  const fromJsonLd = jsonLdImage && fileName(jsonLdImage.url) === fileName(url) ? jsonLdImage : undefined;
+
+  return {
+    url,
+    alt: metaContent(doc, ['og:image:alt', 'twitter:image:alt']) || img?.getAttribute('alt')?.trim() || undefined,
+    caption: fromJsonLd?.caption || figcaption || undefined,
+    width: positiveInt(metaContent(doc, ['og:image:width'])) ?? fromJsonLd?.width,
+    height: positiveInt(metaContent(doc, ['og:image:height'])) ?? fromJsonLd?.height,
+  };
+}
+
+/**
+ * Whether article HTML already shows the image (so the reader shouldn't repeat it)
+ */
+export function contentHasImage(contentHtml: string, image: LeadImage): boolean {
+  const name = fileName(image.url);
+  return !!name && contentHtml.toLowerCase().includes(name);
+}
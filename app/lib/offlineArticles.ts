@@ -0,0 +1,307 @@
+/**
+ * Offline reading mode: background prefetch of unread Trusted articles
+ * into IndexedDB.
+ *
+ * The localStorage extract cache only holds the last 50 articles the user
+ * opened. When offline mode is on, every unread Trusted article is resolved
+ * and extracted after the feed loads, and the last feed is kept too, so the
+ * whole Trusted tab stays readable without a connection.
+ */
+
+import { Article, ArticleSummary } from '../types/article';
+import { SavedArticleContent, toSavedContent } from './savedItems';
+import { resolvePublisherUrl, isGoogleNewsUrl } from './resolvePublisherUrl';
+
+const ENABLED_KEY = 'sr:offline:enabled';
+const DB_NAME = 'suns-reader-offline';
+const DB_VERSION = 1;
+const ARTICLES_STORE = 'articles';
+const META_STORE = 'meta';
+const FEED_KEY = 'feed';
+const PREFETCH_CONCURRENCY = 3;
+
+/**
+ * A downloaded article, keyed by feed article id
+ */
+export interface OfflineArticle {
+  id: string;
+  articleUrl: string; // feed URL (may be a Google News wrapper)
+  downloadedAt: number;
+  bytes: number;      // approximate stored size
+  content: SavedArticleContent;
+}
+
+/**
+ * Last feed fetched while offline mode was on
+ */
+export interface OfflineFeed {
+  ts: number;
+  teamId: string;
+  timeWindow: string;
+  articles: ArticleSummary[];
+}
+
+export interface OfflineUsage {
+  count: number;
+  bytes: number;
+}
+
+// Article ids currently being downloaded (across overlapping prefetch runs)
+const pendingIds = new Set<string>();
+
+// ---------------------------------------------------------------------------
+// Preference
+// ---------------------------------------------------------------------------
+
+/**
+ * Check if offline mode is turned on (default off)
+ */
+export function isOfflineModeEnabled(): boolean {
+  if (typeof window === 'undefined') return false;
+  try {
+    return localStorage.getItem(ENABLED_KEY) === '1';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Turn offline mode on or off. Turning it off deletes downloaded articles.
+ */
+export async function setOfflineModeEnabled(enabled: boolean): Promise<void> {
+  if (typeof window === 'undefined') return;
+  try {
+    if (enabled) {
+      localStorage.setItem(ENABLED_KEY, '1');
+    } else {
+      localStorage.removeItem(ENABLED_KEY);
+    }
+  } catch (error) {
+    console.error('Failed to save offline mode:', error);
+  }
+  if (!enabled) {
+    await clearOfflineArticles();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// IndexedDB helpers
+// ---------------------------------------------------------------------------
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ARTICLES_STORE)) {
+          db.createObjectStore(ARTICLES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry on the next call if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Run one request in its own transaction and resolve with its result
+ */
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function notifyChanged(): void {
+  window.dispatchEvent(new Event('offlineArticlesChanged'));
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Get a downloaded article by feed article id
+ */
+export async function getOfflineArticle(id: string): Promise<OfflineArticle | null> {
+  if (typeof window === 'undefined' || !id) return null;
+  try {
+    const record = await withStore<OfflineArticle | undefined>(ARTICLES_STORE, 'readonly', s => s.get(id));
+    return record ?? null;
+  } catch (error) {
+    console.error('Failed to get offline article:', error);
+    return null;
+  }
+}
+
+/**
+ * Get the ids of all downloaded articles
+ */
+export async function getOfflineArticleIds(): Promise<Set<string>> {
+  if (typeof window === 'undefined') return new Set();
+  try {
+    const keys = await withStore(ARTICLES_STORE, 'readonly', s => s.getAllKeys());
+    return new Set(keys.map(String));
+  } catch (error) {
+    console.error('Failed to get offline article ids:', error);
+    return new Set();
+  }
+}
+
+/**
+ * Number of downloaded articles and their approximate size
+ */
+export async function getOfflineUsage(): Promise<OfflineUsage> {
+  if (typeof window === 'undefined') return { count: 0, bytes: 0 };
+  try {
+    const records = await withStore<OfflineArticle[]>(ARTICLES_STORE, 'readonly', s => s.getAll());
+    return {
+      count: records.length,
+      bytes: records.reduce((sum, r) => sum + (r.bytes || 0), 0),
+    };
+  } catch (error) {
+    console.error('Failed to get offline usage:', error);
+    return { count: 0, bytes: 0 };
+  }
+}
+
+/**
+ * Delete all downloaded articles and the stored feed
+ */
+export async function clearOfflineArticles(): Promise<void> {
+  if (typeof window === 'undefined') return;
+  try {
+    await withStore(ARTICLES_STORE, 'readwrite', s => s.clear());
+    await withStore(META_STORE, 'readwrite', s => s.delete(FEED_KEY));
+    notifyChanged();
+  } catch (error) {
+    console.error('Failed to clear offline articles:', error);
+  }
+}
+
+/**
+ * Keep the latest feed so the Trusted tab can render without a connection
+ */
+export async function saveOfflineFeed(feed: OfflineFeed): Promise<void> {
+  if (typeof window === 'undefined') return;
+  try {
+    await withStore(META_STORE, 'readwrite', s => s.put(feed, FEED_KEY));
+  } catch (error) {
+    console.error('Failed to save offline feed:', error);
+  }
+}
+
+/**
+ * Get the feed stored by saveOfflineFeed, if any
+ */
+export async function getOfflineFeed(): Promise<OfflineFeed | null> {
+  if (typeof window === 'undefined') return null;
+  try {
+    const feed = await withStore<OfflineFeed | undefined>(META_STORE, 'readonly', s => s.get(FEED_KEY));
+    return feed ?? null;
+  } catch (error) {
+    console.error('Failed to get offline feed:', error);
+    return null;
+  }
+}
+
+/**
+ * Resolve and extract one article. Returns null if it can't be read offline.
+ */
+async function downloadArticle(article: { id: string; url: string }): Promise<OfflineArticle | null> {
+  const finalUrl = isGoogleNewsUrl(article.url) ? await resolvePublisherUrl(article.url) : article.url;
+  if (!finalUrl) return null;
+
+  const response = await fetch(`/api/extract?url=${encodeURIComponent(finalUrl)}`);
+  if (!response.ok) return null;
+
+  const content = toSavedContent(await response.json());
+  if (!content) return null;
+
+  return {
+    id: article.id,
+    articleUrl: article.url,
+    downloadedAt: Date.now(),
+    bytes: new Blob([JSON.stringify(content)]).size,
+    content,
+  };
+}
+
+/**
+ * Download the unread articles in the list in the background,
+ * PREFETCH_CONCURRENCY at a time. Downloads not in the list are deleted first
+ * (they dropped out of the feed or their source is no longer trusted).
+ * Runs to completion even if the caller unmounts, so opening an article
+ * doesn't cut the prefetch short. Returns how many were newly downloaded.
+ */
+export async function prefetchOfflineArticles(
+  articles: Pick<Article, 'id' | 'url' | 'isRead'>[]
+): Promise<number> {
+  if (typeof window === 'undefined' || !isOfflineModeEnabled() || !navigator.onLine) return 0;
+
+  const existing = await getOfflineArticleIds();
+  const keep = new Set(articles.map(a => a.id));
+
+  const stale = [...existing].filter(id => !keep.has(id));
+  if (stale.length > 0) {
+    try {
+      for (const id of stale) {
+        await withStore(ARTICLES_STORE, 'readwrite', s => s.delete(id));
+      }
+      notifyChanged();
+    } catch (error) {
+      console.error('Failed to prune offline articles:', error);
+    }
+  }
+
+  const queue = articles.filter(
+    (a): a is typeof a & { url: string } => !!a.url && !a.isRead && !existing.has(a.id) && !pendingIds.has(a.id)
+  );
+  queue.forEach(a => pendingIds.add(a.id));
+  let downloaded = 0;
+
+  const worker = async () => {
+    while (queue.length > 0 && isOfflineModeEnabled()) {
+      const article = queue.shift()!;
+      try {
+        const record = await downloadArticle(article);
+        if (record) {
+          await withStore(ARTICLES_STORE, 'readwrite', s => s.put(record));
+          downloaded++;
+          notifyChanged();
+        }
+      } catch (error) {
+        console.error('[Offline] Failed to download', article.url, error);
+      } finally {
+        pendingIds.delete(article.id);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: PREFETCH_CONCURRENCY }, worker));
+  // Anything left after offline mode was turned off can be picked up by a later run
+  queue.forEach(a => pendingIds.delete(a.id));
+
+  console.log(`[Offline] Downloaded ${downloaded} articles (${existing.size - stale.length} already stored)`);
+  return downloaded;
+}
@@ -0,0 +1,184 @@
+/**
+ * OPML import/export for trusted sources, for interop with other feed readers.
+ *
+ * Import maps each outline to a trusted domain (from htmlUrl, else xmlUrl)
+ * or, for YouTube channel feeds, to a trusted video source. Export writes
+ * domains and channels as two outline groups. Client-only (uses DOMParser).
+ */
+
+import { getTrustedDomains, addTrustedDomain, normalizeDomain } from './trustedDomains';
+import { TrustedVideoSource, getTrustedVideoSources, addTrustedVideoSource } from './trustedVideoSources';
+import { PUBLISHER_FEEDS } from './publisherFeeds';
+
+const YOUTUBE_FEED_URL = 'https://www.youtube.com/feeds/videos.xml?channel_id=';
+const YOUTUBE_CHANNEL_URL = 'https://www.youtube.com/channel/';
+const CHANNEL_ID_PATTERN = /^UC[\w-]{22}$/;
+
+export interface OpmlSources {
+  domains: string[];
+  videoSources: TrustedVideoSource[];
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+function parseUrl(value: string | null): URL | null {
+  if (!value) return null;
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+function isYouTubeHost(hostname: string): boolean {
+  return /(^|\.)youtube\.com$/.test(hostname);
+}
+
+/**
+ * Channel id from a YouTube channel feed (`?channel_id=UC…`) or channel page (`/channel/UC…`)
+ */
+function youTubeChannelId(url: URL): string | null {
+  if (!isYouTubeHost(url.hostname)) return null;
+  const fromQuery = url.searchParams.get('channel_id');
+  if (fromQuery && CHANNEL_ID_PATTERN.test(fromQuery)) return fromQuery;
+  const fromPath = url.pathname.match(/^\/channel\/([^/]+)/)?.[1];
+  return fromPath && CHANNEL_ID_PATTERN.test(fromPath) ? fromPath : null;
+}
+
+/**
+ * Extract trusted sources from OPML text.
+ * Returns null if the text is not an OPML document.
+ */
+export function parseOpml(text: string): OpmlSources | null {
+  const doc = new DOMParser().parseFromString(text, 'text/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) return null;
+  if (doc.documentElement.nodeName.toLowerCase() !== 'opml') return null;
+
+  const domains = new Set<string>();
+  const videoSources = new Map<string, TrustedVideoSource>();
+
+  for (const outline of Array.from(doc.getElementsByTagName('outline'))) {
+    const htmlUrl = parseUrl(outline.getAttribute('htmlUrl'));
+    const xmlUrl = parseUrl(outline.getAttribute('xmlUrl'));
+    if (!htmlUrl && !xmlUrl) continue; // folder
+
+    const title = (outline.getAttribute('title') || outline.getAttribute('text') || '').trim();
+
+    const channelId = (xmlUrl && youTubeChannelId(xmlUrl)) || (htmlUrl && youTubeChannelId(htmlUrl));
+    if (channelId) {
+      if (!videoSources.has(channelId)) {
+        videoSources.set(channelId, { channelId, channelTitle: title || channelId });
+      }
+      continue;
+    }
+
+    // Other YouTube URLs (handles, playlists) can't be mapped to a channel id
+    const url = htmlUrl ?? xmlUrl!;
+    if (isYouTubeHost(url.hostname)) continue;
+
+    domains.add(normalizeDomain(url.hostname));
+  }
+
+  return { domains: [...domains], videoSources: [...videoSources.values()] };
+}
+
+/**
+ * Add the sources from an OPML file to the trusted lists.
+ * Returns how many were new, or null if the text is not OPML.
+ */
+export function importOpml(text: string): { domainsAdded: number; videoSourcesAdded: number } | null {
+  const sources = parseOpml(text);
+  if (!sources) return null;
+
+  const existingDomains = new Set(getTrustedDomains());
+  const existingChannels = new Set(getTrustedVideoSources().map(s => s.channelId));
+
+  let domainsAdded = 0;
+  for (const domain of sources.domains) {
+    if (existingDomains.has(domain)) continue;
+    addTrustedDomain(domain);
+    domainsAdded++;
+  }
+
+  let videoSourcesAdded = 0;
+  for (const source of sources.videoSources) {
+    if (existingChannels.has(source.channelId)) continue;
+    addTrustedVideoSource(source.channelId, source.channelTitle);
+    videoSourcesAdded++;
+  }
+
+  console.log(`[OPML] Imported ${domainsAdded} domains, ${videoSourcesAdded} video sources`);
+  return { domainsAdded, videoSourcesAdded };
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Known feed URL for a domain from the publisher feed registry, if any
+ */
+function knownFeedUrl(domain: string): string | undefined {
+  for (const feeds of Object.values(PUBLISHER_FEEDS)) {
+    const feed = feeds.find(f => f.domain === domain);
+    if (feed) return feed.url;
+  }
+  return undefined;
+}
+
+/**
+ * Serialize trusted sources as an OPML 2.0 document
+ */
+export function buildOpml(domains: string[], videoSources: TrustedVideoSource[]): string {
+  const domainOutlines = domains.map(domain => {
+    const feedUrl = knownFeedUrl(domain);
+    const attrs = feedUrl
+      ? `type="rss" text="${escapeXml(domain)}" xmlUrl="${escapeXml(feedUrl)}" htmlUrl="https://${escapeXml(domain)}/"`
+      : `type="link" text="${escapeXml(domain)}" htmlUrl="https://${escapeXml(domain)}/"`;
+    return `      <outline ${attrs}/>`;
+  });
+
+  const videoOutlines = videoSources.map(source => {
+    const id = escapeXml(source.channelId);
+    const title = escapeXml(source.channelTitle);
+    return `      <outline type="rss" text="${title}" title="${title}" xmlUrl="${YOUTUBE_FEED_URL}${id}" htmlUrl="${YOUTUBE_CHANNEL_URL}${id}"/>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    '    <title>Suns Reader trusted sources</title>',
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+    '    <outline text="Trusted Sources">',
+    ...domainOutlines,
+    '    </outline>',
+    '    <outline text="Trusted Videos">',
+    ...videoOutlines,
+    '    </outline>',
+    '  </body>',
+    '</opml>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Export the current trusted domains and channels as OPML
+ */
+export function exportOpml(): string {
+  return buildOpml(getTrustedDomains(), getTrustedVideoSources());
+}
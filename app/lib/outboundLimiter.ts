@@ -0,0 +1,343 @@
+/**
+ * Per-publisher politeness for server-side fetches.
+ *
+ * A burst of readers opening the same outlet would otherwise send a burst
+ * of requests from our IP, which is how hosts end up blocking us.
+ * politeFetch() gives each host:
+ *
+ * - a token bucket (steady rate plus a small burst), in memory or, with
+ *   OUTBOUND_LIMITER_STORE=redis, shared across instances through Upstash
+ * - a cap on requests in flight at once (per instance)
+ * - optionally (RESPECT_ROBOTS_TXT=1), a robots.txt check
+ *
+ * Requests wait up to MAX_WAIT_MS for their turn, then fail with a
+ * "Throttled" error instead of piling up.
+ */
+
+import { getRedis } from './extractKvCache';
+import { httpRequest, readText } from './httpClient';
+
+interface HostLimits {
+  ratePerSec: number;  // bucket refill rate
+  burst: number;       // bucket size
+  maxInFlight: number; // concurrent requests per instance
+}
+
+export interface PoliteFetchOptions {
+  /** Check the host's robots.txt first (when RESPECT_ROBOTS_TXT=1) */
+  robots?: boolean;
+}
+
+const DEFAULT_LIMITS: HostLimits = { ratePerSec: 1, burst: 5, maxInFlight: 3 };
+
+/** Hosts that take more traffic (keys: hostname without www.) */
+const HOST_LIMITS: Record<string, HostLimits> = {
+  'news.google.com': { ratePerSec: 10, burst: 30, maxInFlight: 10 },
+};
+
+const MAX_WAIT_MS = 5000;
+const IDLE_STATE_MS = 10 * 60 * 1000; // forget hosts idle this long
+const REDIS_RETRY_MS = 60 * 1000;     // after a Redis error, use memory this long
+
+const USE_REDIS = process.env.OUTBOUND_LIMITER_STORE === 'redis';
+const RESPECT_ROBOTS_TXT = process.env.RESPECT_ROBOTS_TXT === '1';
+
+const ROBOTS_USER_AGENT = 'sunsreader';
+const ROBOTS_TTL_MS = 6 * 60 * 60 * 1000;
+const ROBOTS_ERROR_TTL_MS = 10 * 60 * 1000;
+const ROBOTS_TIMEOUT_MS = 5000;
+const ROBOTS_MAX_LENGTH = 512 * 1024;
+
+// Reserve a token: returns ms to wait for it, or -1 if that exceeds ARGV[4]
+const TOKEN_BUCKET_SCRIPT = `
+local rate = tonumber(ARGV[1])
+local burst = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local maxWait = tonumber(ARGV[4])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1]) or burst
+local ts = tonumber(state[2]) or now
+tokens = math.min(burst, tokens + math.max(0, now - ts) / 1000 * rate)
+local wait = 0
+if tokens < 1 then wait = math.ceil((1 - tokens) / rate * 1000) end
+if wait > maxWait then return -1 end
+redis.call('HSET', KEYS[1], 'tokens', tokens - 1, 'ts', now)
+redis.call('PEXPIRE', KEYS[1], math.ceil(burst / rate * 1000) + 1000)
+return wait
+`;
+
+// ---------------------------------------------------------------------------
+// Limiter state (per server instance)
+// ---------------------------------------------------------------------------
+
+const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+const inFlight = new Map<string, { active: number; waiting: (() => void)[] }>();
+const robotsCache = new Map<string, { rules: RobotsRule[]; expires: number }>();
+let redisRetryAt = 0; // Redis is skipped until then after an error
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function hostKey(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^www\./, '');
+}
+
+function limitsFor(host: string): HostLimits {
+  return HOST_LIMITS[host] ?? DEFAULT_LIMITS;
+}
+
+function throttledError(host: string): Error {
+  return new Error(`Throttled: too many requests to ${host}`);
+}
+
+function abortError(): Error {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  if (ms <= 0) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function pruneIdleHosts(now: number): void {
+  if (buckets.size < 500) return;
+  for (const [host, bucket] of buckets) {
+    if (now - bucket.updatedAt > IDLE_STATE_MS) buckets.delete(host);
+  }
+}
+
+function reserveTokenInMemory(host: string, limits: HostLimits, now: number): number {
+  pruneIdleHosts(now);
+  const bucket = buckets.get(host) ?? { tokens: limits.burst, updatedAt: now };
+  const tokens = Math.min(limits.burst, bucket.tokens + (now - bucket.updatedAt) / 1000 * limits.ratePerSec);
+  const wait = tokens >= 1 ? 0 : Math.ceil((1 - tokens) / limits.ratePerSec * 1000);
+  if (wait > MAX_WAIT_MS) return -1;
+  buckets.set(host, { tokens: tokens - 1, updatedAt: now });
+  return wait;
+}
+
+/**
+ * Reserve the host's next request token; returns how long to wait for it,
+ * or -1 if the wait would exceed MAX_WAIT_MS
+ */
+async function reserveToken(host: string): Promise<number> {
+  const limits = limitsFor(host);
+  const now = Date.now();
+  const redis = USE_REDIS && now >= redisRetryAt ? getRedis() : null;
+
+  if (redis) {
+    try {
+      const wait = await redis.eval(
+        TOKEN_BUCKET_SCRIPT,
+        [`sr:rl:${host}`],
+        [limits.ratePerSec, limits.burst, now, MAX_WAIT_MS]
+      );
+      return Number(wait);
+    } catch (err) {
+      redisRetryAt = Date.now() + REDIS_RETRY_MS;
+      console.log(`[Outbound] Redis limiter unavailable, using memory for ${REDIS_RETRY_MS / 1000}s:`, err instanceof Error ? err.message : err);
+    }
+  }
+  return reserveTokenInMemory(host, limits, now);
+}
+
+/**
+ * Wait for one of the host's in-flight slots (released by releaseSlot)
+ */
+function acquireSlot(host: string, signal?: AbortSignal | null): Promise<void> {
+  const limits = limitsFor(host);
+  const state = inFlight.get(host) ?? { active: 0, waiting: [] };
+  inFlight.set(host, state);
+
+  if (state.active < limits.maxInFlight) {
+    state.active++;
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const grant = () => {
+      cleanup();
+      resolve();
+    };
+    const fail = (error: Error) => {
+      const index = state.waiting.indexOf(grant);
+      if (index !== -1) state.waiting.splice(index, 1);
+      cleanup();
+      reject(error);
+    };
+    const onAbort = () => fail(abortError());
+    const timer = setTimeout(() => fail(throttledError(host)), MAX_WAIT_MS);
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    state.waiting.push(grant);
+  });
+}
+
+function releaseSlot(host: string): void {
+  const state = inFlight.get(host);
+  if (!state) return;
+  const next = state.waiting.shift();
+  if (next) {
+    next(); // slot passes straight to the next waiter
+    return;
+  }
+  state.active--;
+  if (state.active === 0) inFlight.delete(host);
+}
+
+/**
+ * Wait for the host's rate limit and a free slot, then fetch.
+ * The slot is released once the response headers arrive.
+ */
+async function limitedFetch(url: URL, init: RequestInit): Promise<Response> {
+  const host = hostKey(url);
+  const wait = await reserveToken(host);
+  if (wait < 0) throw throttledError(host);
+  if (wait > 0) {
+    console.log(`[Outbound] Waiting ${wait}ms for ${host}`);
+    await sleep(wait, init.signal);
+  }
+
+  await acquireSlot(host, init.signal);
+  try {
+    return await fetch(url, init);
+  } finally {
+    releaseSlot(host);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// robots.txt
+// ---------------------------------------------------------------------------
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number; // specificity: longest match wins
+}
+
+function robotsPattern(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Rules that apply to us: our own group if the file has one, else `*`
+ */
+function parseRobots(text: string): RobotsRule[] {
+  const groups: { agents: string[]; rules: RobotsRule[] }[] = [];
+  let current: { agents: string[]; rules: RobotsRule[] } | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*/, '').trim();
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    const field = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!current || current.rules.length > 0) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+    } else if ((field === 'allow' || field === 'disallow') && current) {
+      if (!value) continue; // "Disallow:" allows everything
+      current.rules.push({ allow: field === 'allow', pattern: robotsPattern(value), length: value.length });
+    }
+  }
+
+  const ours = groups.find(group => group.agents.some(agent => agent === ROBOTS_USER_AGENT));
+  return (ours ?? groups.find(group => group.agents.includes('*')))?.rules ?? [];
+}
+
+async function robotsRulesFor(url: URL): Promise<RobotsRule[]> {
+  const cached = robotsCache.get(url.origin);
+  if (cached && cached.expires > Date.now()) return cached.rules;
+
+  let rules: RobotsRule[] = [];
+  let ttl = ROBOTS_TTL_MS;
+  // Paced like any request to the host; redirects are validated hop by hop
+  const { response } = await httpRequest(new URL('/robots.txt', url.origin), {
+    timeoutMs: ROBOTS_TIMEOUT_MS,
+    polite: {},
+  });
+  try {
+    if (!response || response.status >= 500) {
+      ttl = ROBOTS_ERROR_TTL_MS; // unreachable: don't block on it, retry soon
+      await response?.body?.cancel().catch(() => {});
+    } else if (response.ok) {
+      const text = await readText(response, ROBOTS_MAX_LENGTH);
+      if (text === null) console.log('[Outbound] robots.txt too large, ignoring:', url.hostname);
+      rules = parseRobots(text ?? '');
+    } else {
+      await response.body?.cancel().catch(() => {}); // no robots.txt (4xx) means no restrictions
+    }
+  } catch {
+    ttl = ROBOTS_ERROR_TTL_MS;
+  }
+
+  robotsCache.set(url.origin, { rules, expires: Date.now() + ttl });
+  return rules;
+}
+
+/**
+ * Whether the host's robots.txt lets us fetch the URL
+ */
+async function isAllowedByRobots(url: URL): Promise<boolean> {
+  const path = url.pathname + url.search;
+  let best: RobotsRule | null = null;
+  for (const rule of await robotsRulesFor(url)) {
+    if (!rule.pattern.test(path)) continue;
+    if (!best || rule.length > best.length || (rule.length === best.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return best?.allow ?? true;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * fetch() with per-host rate limiting, in-flight caps and (optionally)
+ * robots.txt checks. Rejects with a "Throttled" error when the host's
+ * limit can't be met within MAX_WAIT_MS, or "Disallowed by robots.txt".
+ * Redirects to other hosts are not limited.
+ */
+export async function politeFetch(
+  input: string | URL,
+  init: RequestInit = {},
+  { robots = false }: PoliteFetchOptions = {}
+): Promise<Response> {
+  const url = new URL(input);
+
+  if (robots && RESPECT_ROBOTS_TXT && !(await isAllowedByRobots(url))) {
+    console.log('[Outbound] Disallowed by robots.txt:', url.hostname + url.pathname);
+    throw new Error(`Disallowed by robots.txt: ${url.hostname}`);
+  }
+
+  return limitedFetch(url, init);
+}
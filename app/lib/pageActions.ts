@@ -0,0 +1,122 @@
+/**
+ * Runs a rule's page actions in the Playwright fallback.
+ *
+ * Rendered pages often aren't ready to capture right after navigation: a
+ * cookie-consent overlay covers the article, or the body only hydrates as
+ * the reader scrolls. The steps to take are configuration (`pageActions`
+ * on an ExtractRule, else DEFAULT_PAGE_ACTIONS in extractRules.ts); this
+ * module only knows how to perform each kind.
+ */
+
+import type { Page } from 'playwright';
+import { DEFAULT_PAGE_ACTIONS, ExtractRule, PageAction } from './extractRules';
+
+/** Time for all of a page's actions; steps after it are skipped */
+export const PAGE_ACTIONS_BUDGET_MS = 30000;
+
+const CLICK_TIMEOUT_MS = 3000;   // how long a consent button gets to appear
+const SELECTOR_TIMEOUT_MS = 8000;
+const NETWORK_IDLE_TIMEOUT_MS = 10000;
+const SCROLL_STEPS = 5;
+const SCROLL_DELAY_MS = 400;
+const POLL_MS = 250;
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Click the first visible match of any selector, in the page or its iframes
+ * (some consent tools render in one). Polls until `timeoutMs`.
+ */
+async function clickFirstVisible(page: Page, selectors: string[], timeoutMs: number): Promise<string | null> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (true) {
+    for (const frame of page.frames()) {
+      for (const selector of selectors) {
+        const target = frame.locator(selector).first();
+        if (await target.isVisible().catch(() => false)) {
+          await target.click({ timeout: 2000 });
+          return selector;
+        }
+      }
+    }
+    if (Date.now() >= deadline) return null;
+    await page.waitForTimeout(POLL_MS);
+  }
+}
+
+async function scrollToBottom(page: Page, steps: number, delayMs: number): Promise<void> {
+  for (let step = 1; step <= steps; step++) {
+    await page.evaluate(fraction => {
+      window.scrollTo(0, document.documentElement.scrollHeight * fraction);
+    }, step / steps);
+    await page.waitForTimeout(delayMs);
+  }
+}
+
+/**
+ * Page actions for a site: its rule's, or the defaults
+ */
+function pageActionsFor(rule: ExtractRule | null): PageAction[] {
+  return rule?.pageActions ?? DEFAULT_PAGE_ACTIONS;
+}
+
+/**
+ * Perform one action; returns a short log label, or null if it found nothing to do
+ */
+async function runAction(page: Page, step: PageAction, rule: ExtractRule | null): Promise<string | null> {
+  switch (step.action) {
+    case 'click': {
+      const clicked = await clickFirstVisible(page, step.selectors, step.timeoutMs ?? CLICK_TIMEOUT_MS);
+      if (!clicked) return null;
+      await page.waitForTimeout(500); // let the overlay close
+      return `click ${clicked}`;
+    }
+    case 'scroll':
+      await scrollToBottom(page, step.steps ?? SCROLL_STEPS, step.delayMs ?? SCROLL_DELAY_MS);
+      return 'scroll';
+    case 'waitForSelector': {
+      const selectors = step.selectors ?? rule?.contentSelectors ?? [];
+      if (selectors.length === 0) return null;
+      await page.waitForSelector(selectors.join(', '), { timeout: step.timeoutMs ?? SELECTOR_TIMEOUT_MS });
+      return 'content found';
+    }
+    case 'waitForNetworkIdle':
+      await page.waitForLoadState('networkidle', { timeout: step.timeoutMs ?? NETWORK_IDLE_TIMEOUT_MS });
+      return 'network idle';
+    case 'wait':
+      await page.waitForTimeout(step.ms);
+      return `wait ${step.ms}ms`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Run the site's page actions in order. A step that fails or times out is
+ * logged and skipped, and steps stop after PAGE_ACTIONS_BUDGET_MS; the page
+ * is captured either way.
+ * Returns the labels of the steps that took effect.
+ */
+export async function runPageActions(page: Page, rule: ExtractRule | null): Promise<string[]> {
+  const done: string[] = [];
+  const deadline = Date.now() + PAGE_ACTIONS_BUDGET_MS;
+
+  for (const step of pageActionsFor(rule)) {
+    if (Date.now() >= deadline) {
+      console.log('[Extract] Page actions out of time, capturing now');
+      break;
+    }
+    try {
+      const label = await runAction(page, step, rule);
+      if (label) done.push(label);
+    } catch (error) {
+      console.log(`[Extract] Page action ${step.action} skipped:`, error instanceof Error ? error.message.split('\n')[0] : error);
+    }
+  }
+  return done;
+}
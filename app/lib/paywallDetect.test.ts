@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createExtractPage, runExtractStrategies } from './extractStrategies';
+
+const URL = 'https://publisher.example/2024/story';
+
+function page(body: string, head = '') {
+  return createExtractPage({
+    url: URL,
+    status: 200,
+    contentType: 'text/html',
+    html: `<html><head><title>A complete short news story</title>${head}</head><body>${body}</body></html>`,
+    rule: null,
+    playwrightUsed: false,
+  });
+}
+
+function article(chars: number): string {
+  const sentence = 'The Suns beat the Lakers on Tuesday night behind a strong fourth quarter. ';
+  const text = sentence.repeat(Math.ceil(chars / sentence.length)).slice(0, chars);
+  return `<article><h1>A complete short news story</h1><p>${text}</p></article>`;
+}
+
+const DORMANT_PAYWALL = '<div class="paywall-container" hidden></div>';
+const LOCKED_JSON_LD = '<script type="application/ld+json">' +
+  JSON.stringify({ '@type': 'NewsArticle', headline: 'A complete short news story', isAccessibleForFree: false }) +
+  '</script>';
+
+describe('paywall detection', () => {
+  it('keeps a short article that passed the quality gate despite dormant paywall markup', () => {
+    expect(runExtractStrategies(page(article(800) + DORMANT_PAYWALL)).kind).toBe('ok');
+  });
+
+  it('reports a paywall when markup accompanies a result that failed the quality gate', () => {
+    const outcome = runExtractStrategies(page(article(150) + DORMANT_PAYWALL));
+    expect(outcome.kind).toBe('paywall');
+  });
+
+  it('does not report a paywall for an empty shell page with a dormant paywall div', () => {
+    const shell = page('<div id="root"></div><div class="no-paywall"></div>' + DORMANT_PAYWALL);
+    expect(runExtractStrategies(shell).kind).not.toBe('paywall');
+  });
+
+  it('reports a paywall for a short article with a strong signal', () => {
+    const outcome = runExtractStrategies(page(article(800), LOCKED_JSON_LD));
+    expect(outcome.kind).toBe('paywall');
+    if (outcome.kind === 'paywall') expect(outcome.signals).toContain('json_ld');
+  });
+
+  it('leaves full-length articles alone even with strong signals', () => {
+    expect(runExtractStrategies(page(article(3000), LOCKED_JSON_LD)).kind).toBe('ok');
+  });
+});
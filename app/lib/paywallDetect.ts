@@ -0,0 +1,90 @@
+/**
+ * Paywall detection for /api/extract.
+ *
+ * A page is treated as paywalled when the extracted text is short (only a
+ * teaser came through) and the page carries a paywall marker. Marked pages
+ * that still yield a full article are left alone: some publishers tag every
+ * story as subscriber content but serve it anyway. Paywall-looking markup
+ * alone is weak evidence, since many CMS templates ship dormant paywall
+ * containers on free stories: it only counts when the quality gate failed
+ * and some teaser text came through, and /api/extract still tries the
+ * page's variants and Playwright before reporting it (hasStrongPaywallSignal).
+ */
+
+import type { ExtractCandidate, ExtractPage } from './extractStrategies';
+
+export type PaywallSignal =
+  | 'json_ld'       // schema.org isAccessibleForFree: false
+  | 'content_tier'  // <meta property="article:content_tier" content="locked">
+  | 'markup';       // known paywall / subscribe-wall elements
+
+// Articles with less text than this are treated as teasers
+const TEASER_MAX_LENGTH = 1500;
+
+/** Signals that mark the article itself as locked (not just the template) */
+const STRONG_SIGNALS: PaywallSignal[] = ['json_ld', 'content_tier'];
+
+/** Paywall containers from common paywall vendors and publisher templates */
+const PAYWALL_SELECTORS = [
+  '[class*="paywall"]',
+  '[class*="Paywall"]',
+  '[id*="paywall"]',
+  '[data-paywall]',
+  '.subscriber-only',
+  '.premium-content',
+  '.tp-modal',              // Piano
+  '#piano-inline-content',  // Piano
+  '.gnt_rb_pw',             // Gannett (azcentral)
+];
+
+/**
+ * Paywall markers present on the page
+ */
+function paywallSignals(page: ExtractPage): PaywallSignal[] {
+  const signals: PaywallSignal[] = [];
+  const doc = page.document;
+
+  if (page.jsonLd?.isAccessibleForFree === false) {
+    signals.push('json_ld');
+  }
+
+  const tier = doc.querySelector('meta[property="article:content_tier"], meta[name="article:content_tier"]');
+  if (tier?.getAttribute('content')?.trim().toLowerCase() === 'locked') {
+    signals.push('content_tier');
+  }
+
+  if (PAYWALL_SELECTORS.some(selector => doc.querySelector(selector))) {
+    signals.push('markup');
+  }
+
+  return signals;
+}
+
+/**
+ * Whether the signals include one that marks the article itself as locked,
+ * rather than only paywall-looking markup
+ */
+export function hasStrongPaywallSignal(signals: PaywallSignal[]): boolean {
+  return signals.some(signal => STRONG_SIGNALS.includes(signal));
+}
+
+/**
+ * Detect a paywalled article. `teaser` is the best content extracted from
+ * the page, if any; `passedQuality` says whether it passed the quality gate,
+ * in which case only a strong signal (JSON-LD, content tier) counts. Markup
+ * alone also needs a non-empty teaser: an empty JavaScript shell with a
+ * template paywall div is not a paywall.
+ * Returns the matching signals, or null if not paywalled.
+ */
+export function detectPaywall(
+  page: ExtractPage,
+  teaser: ExtractCandidate | null,
+  passedQuality: boolean
+): PaywallSignal[] | null {
+  const textLength = teaser?.textContent.trim().length ?? 0;
+  if (textLength >= TEASER_MAX_LENGTH) return null;
+
+  const signals = paywallSignals(page);
+  if (hasStrongPaywallSignal(signals)) return signals;
+  return !passedQuality && textLength > 0 && signals.length > 0 ? signals : null;
+}
@@ -0,0 +1,78 @@
+/**
+ * Local storage utilities for sources known to paywall their articles.
+ *
+ * Starts from a short built-in list and learns from the reader: a domain is
+ * added when /api/extract reports `status: "paywall"` for one of its
+ * articles. The feed marks rows from these sources.
+ */
+
+import { normalizeDomain } from './trustedDomains';
+
+const STORAGE_KEY = 'sr:paywalled:v1';
+
+/** Sources that paywall nearly every article */
+const KNOWN_PAYWALLED_DOMAINS = [
+  'theathletic.com',
+  'nytimes.com',
+  'wsj.com',
+  'washingtonpost.com',
+  'latimes.com',
+  'bostonglobe.com',
+  'bloomberg.com',
+];
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function loadLearnedDomains(): string[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const domains = stored ? JSON.parse(stored) : [];
+    return Array.isArray(domains) ? domains : [];
+  } catch (error) {
+    console.error('Failed to get paywalled sources:', error);
+    return [];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Get all paywalled source domains (built-in and learned)
+ */
+export function getPaywalledDomains(): Set<string> {
+  return new Set([...KNOWN_PAYWALLED_DOMAINS, ...loadLearnedDomains()]);
+}
+
+/**
+ * Check if a source domain (or a parent domain) is paywalled
+ */
+export function isPaywalledDomain(domain: string | undefined, paywalled: Set<string>): boolean {
+  if (!domain) return false;
+  const host = normalizeDomain(domain);
+  for (const entry of paywalled) {
+    if (host === entry || host.endsWith(`.${entry}`)) return true;
+  }
+  return false;
+}
+
+/**
+ * Remember that a source paywalls its articles
+ */
+export function markDomainPaywalled(domain: string): void {
+  if (typeof window === 'undefined' || !domain) return;
+
+  try {
+    const cleanDomain = normalizeDomain(domain);
+    if (isPaywalledDomain(cleanDomain, getPaywalledDomains())) return;
+
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...loadLearnedDomains(), cleanDomain]));
+    window.dispatchEvent(new Event('paywalledSourcesChanged'));
+  } catch (error) {
+    console.error('Failed to save paywalled source:', error);
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Direct publisher feeds fetched by /api/search alongside Google News.
+ *
+ * Items from these feeds carry canonical publisher URLs, so the reader
+ * extracts them directly without going through /api/resolve.
+ *
+ * Feeds are listed per team id (see teams.ts). Any format supported by
+ * feedParser (RSS 2.0, Atom, JSON Feed) works. Set `enabled: false` to
+ * pause a feed without removing its entry.
+ */
+
+export interface PublisherFeed {
+  id: string;          // stable short id, used in health logs
+  name: string;        // display name shown as the article source
+  url: string;         // feed URL
+  domain: string;      // publisher domain (matches trusted domain format)
+  enabled?: boolean;   // defaults to true
+}
+
+export const PUBLISHER_FEEDS: Record<string, PublisherFeed[]> = {
+  suns: [
+    {
+      id: 'bsots',
+      name: 'Bright Side of the Sun',
+      url: 'https://www.brightsideofthesun.com/rss/current.xml',
+      domain: 'brightsideofthesun.com',
+    },
+    {
+      id: 'arizonasports',
+      name: 'Arizona Sports',
+      url: 'https://arizonasports.com/category/nba/phoenix-suns/feed/',
+      domain: 'arizonasports.com',
+    },
+    {
+      id: 'azcentral',
+      name: 'azcentral',
+      url: 'https://rssfeeds.azcentral.com/phoenix/suns',
+      domain: 'azcentral.com',
+    },
+    {
+      id: 'valleyofthesuns',
+      name: 'Valley of the Suns',
+      url: 'https://valleyofthesuns.com/feed/',
+      domain: 'valleyofthesuns.com',
+    },
+  ],
+  lakers: [
+    {
+      id: 'silverscreenandroll',
+      name: 'Silver Screen and Roll',
+      url: 'https://www.silverscreenandroll.com/rss/current.xml',
+      domain: 'silverscreenandroll.com',
+    },
+  ],
+  celtics: [
+    {
+      id: 'celticsblog',
+      name: 'CelticsBlog',
+      url: 'https://www.celticsblog.com/rss/current.xml',
+      domain: 'celticsblog.com',
+    },
+  ],
+  warriors: [
+    {
+      id: 'goldenstateofmind',
+      name: 'Golden State of Mind',
+      url: 'https://www.goldenstateofmind.com/rss/current.xml',
+      domain: 'goldenstateofmind.com',
+    },
+  ],
+  knicks: [
+    {
+      id: 'postingandtoasting',
+      name: 'Posting and Toasting',
+      url: 'https://www.postingandtoasting.com/rss/current.xml',
+      domain: 'postingandtoasting.com',
+    },
+  ],
+};
+
+/**
+ * Get the publisher feeds that should be fetched for a team.
+ */
+export function getEnabledPublisherFeeds(teamId: string): PublisherFeed[] {
+  return (PUBLISHER_FEEDS[teamId] ?? []).filter(feed => feed.enabled !== false);
+}
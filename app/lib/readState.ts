@@ -2,8 +2,9 @@
  * Local storage utilities for managing read state
  */
 
+import { getStoredTimeWindow, getTimeWindowHours } from './timeWindow';
+
 const STORAGE_KEY = 'suns-reader-read-state';
-const READ_STATE_EXPIRY_HOURS = 24;
 
 interface ReadStateMap {
   [articleId: string]: number; // Unix timestamp when read
@@ -41,7 +42,7 @@ function saveReadStateMap(readState: ReadStateMap): void {
 }
 
 /**
- * Purge read entries older than 24 hours
+ * Purge read entries older than the feed time window
  */
 export function purgeExpiredReadState(): void {
   if (typeof window === 'undefined') return;
@@ -49,7 +50,7 @@ export function purgeExpiredReadState(): void {
   try {
     const readState = getReadStateMap();
     const now = Date.now();
-    const expiryMs = READ_STATE_EXPIRY_HOURS * 60 * 60 * 1000;
+    const expiryMs = getTimeWindowHours(getStoredTimeWindow()) * 60 * 60 * 1000;
 
     const filtered: ReadStateMap = {};
     let purgedCount = 0;
@@ -178,3 +179,37 @@ export function getReadCount(): number {
     return 0;
   }
 }
+
+/**
+ * Get all read entries (articleId → read timestamp). Used by sync/backup.
+ */
+export function getReadStateEntries(): { [articleId: string]: number } {
+  return { ...getReadStateMap() };
+}
+
+/**
+ * Apply read entries from another device or a backup:
+ * a timestamp marks the article read, null marks it unread.
+ */
+export function applyReadStateEntries(entries: { [articleId: string]: number | null }): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    const readState = getReadStateMap();
+
+    for (const [id, timestamp] of Object.entries(entries)) {
+      if (timestamp === null) {
+        delete readState[id];
+      } else {
+        readState[id] = timestamp;
+      }
+    }
+
+    saveReadStateMap(readState);
+
+    // Emit custom event to notify components of read state change
+    window.dispatchEvent(new Event('readStateChanged'));
+  } catch (error) {
+    console.error('Failed to apply read state:', error);
+  }
+}
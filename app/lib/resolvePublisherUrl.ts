@@ -1,23 +1,52 @@
+import { StageEvent, readStageStream } from './extractProgress';
+
+/**
+ * Check if URL is a Google News wrapper URL
+ */
+export function isGoogleNewsUrl(url: string): boolean {
+  if (!url) return false;
+  try {
+    const urlObj = new URL(url);
+    return urlObj.hostname.includes('news.google.com');
+  } catch {
+    return false;
+  }
+}
+
+interface ResolveOptions {
+  signal?: AbortSignal;
+  /** Stream progress from /api/resolve (?stream=1) */
+  onStage?: (event: StageEvent) => void;
+}
+
 /**
  * Resolves Google News RSS URLs to the actual publisher URL
  * using the /api/resolve endpoint
  */
-export async function resolvePublisherUrl(googleNewsUrl: string): Promise<string | null> {
+export async function resolvePublisherUrl(
+  googleNewsUrl: string,
+  { signal, onStage }: ResolveOptions = {}
+): Promise<string | null> {
   try {
-    const response = await fetch('/api/resolve', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ url: googleNewsUrl }),
-    });
+    const response = onStage
+      ? await fetch(`/api/resolve?stream=1&url=${encodeURIComponent(googleNewsUrl)}`, { signal })
+      : await fetch('/api/resolve', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ url: googleNewsUrl }),
+        signal,
+      });
 
     if (!response.ok) {
       console.error('[resolvePublisherUrl] HTTP error:', response.status);
       return null;
     }
 
-    const data = await response.json();
+    const data = onStage
+      ? await readStageStream<{ success: boolean; publisherUrl?: string }>(response, onStage)
+      : await response.json();
 
     if (data.success && data.publisherUrl) {
       return data.publisherUrl;
@@ -25,6 +54,7 @@ export async function resolvePublisherUrl(googleNewsUrl: string): Promise<string
 
     return null;
   } catch (error) {
+    if (signal?.aborted) return null;
     console.error('[resolvePublisherUrl] Error:', error);
     return null;
   }
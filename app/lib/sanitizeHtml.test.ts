@@ -0,0 +1,217 @@
+import { JSDOM } from 'jsdom';
+import { describe, expect, it } from 'vitest';
+import { sanitizeArticleHtml } from './sanitizeHtml';
+
+const BASE_URL = 'https://publisher.example/2024/story';
+
+function sanitize(html: string): string {
+  return sanitizeArticleHtml(html, BASE_URL);
+}
+
+/** Parse sanitized output back into a fragment for structural checks */
+function parse(html: string): HTMLElement {
+  const root = new JSDOM('').window.document.createElement('div');
+  root.innerHTML = sanitize(html);
+  return root;
+}
+
+/** Original URL behind an /api/image proxy URL */
+function proxiedUrl(src: string | null): string | null {
+  if (!src) return null;
+  return new URLSearchParams(src.split('?')[1]).get('url');
+}
+
+// ---------------------------------------------------------------------------
+// Malicious samples: none of these may survive in any form
+// ---------------------------------------------------------------------------
+
+const MALICIOUS_SAMPLES: { name: string; html: string }[] = [
+  { name: 'javascript: href', html: '<a href="javascript:alert(1)">x</a>' },
+  { name: 'javascript: href with whitespace and case', html: '<a href="  JaVaScRiPt:alert(1)">x</a>' },
+  { name: 'javascript: href with entity-encoded colon', html: '<a href="javascript&colon;alert(1)">x</a>' },
+  { name: 'javascript: href with embedded tab', html: '<a href="java\tscript:alert(1)">x</a>' },
+  { name: 'data: href', html: '<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">x</a>' },
+  { name: 'vbscript: href', html: '<a href="vbscript:msgbox(1)">x</a>' },
+  { name: 'data: image src', html: '<img src="data:image/svg+xml,<svg onload=alert(1)>" width="600" height="400">' },
+  { name: 'javascript: image src', html: '<img src="javascript:alert(1)" width="600" height="400">' },
+  { name: 'onerror handler', html: '<img src="https://cdn.example/a.jpg" onerror="alert(1)" width="600" height="400">' },
+  { name: 'onclick handler', html: '<p onclick="alert(1)">text</p>' },
+  { name: 'onmouseover handler on link', html: '<a href="https://ok.example/" onmouseover="alert(1)">x</a>' },
+  { name: 'style attribute', html: '<p style="background:url(javascript:alert(1))">text</p>' },
+  { name: 'script element', html: '<p>text</p><script>alert(1)</script>' },
+  { name: 'script with src', html: '<script src="https://evil.example/x.js"></script>' },
+  { name: 'style element', html: '<style>body{background:url("javascript:alert(1)")}</style><p>text</p>' },
+  { name: 'svg with onload', html: '<svg onload="alert(1)"><circle r="1"/></svg>' },
+  { name: 'svg with script', html: '<svg><script>alert(1)</script></svg>' },
+  { name: 'svg with foreignObject', html: '<svg><foreignObject><img src=x onerror=alert(1)></foreignObject></svg>' },
+  { name: 'math with link', html: '<math><mtext><a href="javascript:alert(1)">x</a></mtext></math>' },
+  { name: 'math mglyph mXSS', html: '<math><mtext><table><mglyph><style><img src=x onerror=alert(1)>' },
+  { name: 'noscript mXSS', html: '<noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript>' },
+  { name: 'iframe', html: '<iframe src="https://evil.example/"></iframe>' },
+  { name: 'iframe srcdoc', html: '<iframe srcdoc="<script>alert(1)</script>"></iframe>' },
+  { name: 'object and embed', html: '<object data="x.swf"></object><embed src="x.swf">' },
+  { name: 'form with action', html: '<form action="https://evil.example/"><input name="q"><button>go</button></form>' },
+  { name: 'meta refresh', html: '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">' },
+  { name: 'base href', html: '<base href="javascript:alert(1)//">' },
+  { name: 'template content', html: '<template><img src=x onerror=alert(1)></template>' },
+  { name: 'conditional comment', html: '<!--[if IE]><script>alert(1)</script><![endif]-->' },
+  { name: 'srcset with javascript: candidate', html: '<img srcset="javascript:alert(1) 1x" width="600" height="400">' },
+  { name: 'srcset with data: candidate', html: '<img srcset="data:image/svg+xml,<svg onload=alert(1)> 2x" width="600" height="400">' },
+  { name: 'cite with javascript:', html: '<blockquote cite="javascript:alert(1)">quote</blockquote>' },
+  { name: 'formaction on button', html: '<button formaction="javascript:alert(1)">x</button>' },
+  { name: 'unknown element with handler', html: '<details open ontoggle="alert(1)"><summary>x</summary></details>' },
+];
+
+const FORBIDDEN_PATTERNS = [
+  /javascript:/i,
+  /vbscript:/i,
+  /data:/i,
+  /<script/i,
+  /<style/i,
+  /<svg/i,
+  /<math/i,
+  /<iframe/i,
+  /<object/i,
+  /<embed/i,
+  /<form/i,
+  /<meta/i,
+  /<base/i,
+  /<noscript/i,
+  /\son[a-z]+\s*=/i,
+  /\sstyle\s*=/i,
+  /srcdoc/i,
+  /formaction/i,
+];
+
+describe('sanitizeArticleHtml: malicious corpus', () => {
+  it.each(MALICIOUS_SAMPLES)('neutralizes $name', ({ html }) => {
+    const output = sanitize(html);
+    for (const pattern of FORBIDDEN_PATTERNS) {
+      expect(output).not.toMatch(pattern);
+    }
+  });
+
+  it('leaves no element with an event-handler attribute', () => {
+    const root = parse(MALICIOUS_SAMPLES.map(sample => sample.html).join('\n'));
+    for (const el of Array.from(root.querySelectorAll('*'))) {
+      for (const { name } of Array.from(el.attributes)) {
+        expect(name.startsWith('on')).toBe(false);
+      }
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Links and URLs
+// ---------------------------------------------------------------------------
+
+describe('sanitizeArticleHtml: links', () => {
+  it('keeps http links, makes them absolute and opens them in a new tab', () => {
+    const a = parse('<a href="/other">x</a>').querySelector('a')!;
+    expect(a.getAttribute('href')).toBe('https://publisher.example/other');
+    expect(a.getAttribute('target')).toBe('_blank');
+    expect(a.getAttribute('rel')).toBe('noopener noreferrer');
+  });
+
+  it('keeps mailto: and tel: links', () => {
+    const root = parse('<a href="mailto:tips@publisher.example">m</a><a href="tel:+15555550100">t</a>');
+    const hrefs = Array.from(root.querySelectorAll('a')).map(a => a.getAttribute('href'));
+    expect(hrefs).toEqual(['mailto:tips@publisher.example', 'tel:+15555550100']);
+  });
+
+  it('drops unsafe hrefs but keeps the link text', () => {
+    const root = parse('<a href="javascript:alert(1)">read more</a>');
+    const a = root.querySelector('a')!;
+    expect(a.hasAttribute('href')).toBe(false);
+    expect(a.hasAttribute('target')).toBe(false);
+    expect(root.textContent).toBe('read more');
+  });
+
+  it('resolves cite URLs and drops unsafe ones', () => {
+    const root = parse('<blockquote cite="/source">a</blockquote><q cite="data:text/plain,x">b</q>');
+    expect(root.querySelector('blockquote')!.getAttribute('cite')).toBe('https://publisher.example/source');
+    expect(root.querySelector('q')!.hasAttribute('cite')).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Images
+// ---------------------------------------------------------------------------
+
+describe('sanitizeArticleHtml: images', () => {
+  it('routes images through the proxy at reader width', () => {
+    const img = parse('<img src="/photo.jpg" alt="Photo" width="800" height="600">').querySelector('img')!;
+    expect(img.getAttribute('src')).toMatch(/^\/api\/image\?/);
+    expect(proxiedUrl(img.getAttribute('src'))).toBe('https://publisher.example/photo.jpg');
+    expect(new URLSearchParams(img.getAttribute('src')!.split('?')[1]).get('w')).toBe('960');
+    expect(img.getAttribute('alt')).toBe('Photo');
+  });
+
+  it('replaces the original srcset with the proxied largest candidate', () => {
+    const img = parse('<img src="https://cdn.example/s.jpg" srcset="https://cdn.example/s.jpg 400w, https://cdn.example/l.jpg 1200w">').querySelector('img')!;
+    expect(proxiedUrl(img.getAttribute('src'))).toBe('https://cdn.example/l.jpg');
+    expect(img.hasAttribute('srcset')).toBe(false);
+  });
+
+  it('removes tracking pixels', () => {
+    const root = parse(
+      '<img src="https://tracker.example/p.gif" width="1" height="1">' +
+      '<img src="https://tracker.example/p2.gif" width="0" height="0">' +
+      '<img src="https://tracker.example/p3.gif" height="2">'
+    );
+    expect(root.querySelectorAll('img')).toHaveLength(0);
+  });
+
+  it('promotes lazy-loaded data-src over a placeholder src', () => {
+    const img = parse('<img src="data:image/gif;base64,R0lGOD" data-src="https://cdn.example/real.jpg">').querySelector('img')!;
+    expect(proxiedUrl(img.getAttribute('src'))).toBe('https://cdn.example/real.jpg');
+  });
+
+  it('keeps images that only have a srcset, using the largest candidate', () => {
+    const img = parse('<img srcset="https://cdn.example/s.jpg 400w, https://cdn.example/l.jpg 1200w" alt="x">').querySelector('img');
+    expect(img).not.toBeNull();
+    expect(proxiedUrl(img!.getAttribute('src'))).toBe('https://cdn.example/l.jpg');
+  });
+
+  it('drops unsafe srcset candidates and keeps the safe ones', () => {
+    const root = parse('<img srcset="javascript:alert(1) 2x, https://cdn.example/ok.jpg 1x">');
+    expect(proxiedUrl(root.querySelector('img')!.getAttribute('src'))).toBe('https://cdn.example/ok.jpg');
+    expect(root.innerHTML).not.toMatch(/javascript:/i);
+  });
+
+  it('removes images whose only sources are unsafe', () => {
+    expect(parse('<img srcset="javascript:alert(1) 1x">').querySelectorAll('img')).toHaveLength(0);
+    expect(parse('<img src="javascript:alert(1)">').querySelectorAll('img')).toHaveLength(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Structure
+// ---------------------------------------------------------------------------
+
+describe('sanitizeArticleHtml: structure', () => {
+  it('keeps article markup and strips disallowed attributes', () => {
+    const output = sanitize('<h2 class="x" id="y">Title</h2><p data-track="1"><strong>Bold</strong> text</p>');
+    expect(output).toBe('<h2>Title</h2><p><strong>Bold</strong> text</p>');
+  });
+
+  it('unwraps unknown elements but keeps their text', () => {
+    expect(sanitize('<custom-el><p>kept</p></custom-el>')).toBe('<p>kept</p>');
+  });
+
+  it('keeps valid embed placeholders and drops forged ones', () => {
+    const root = parse(
+      '<figure data-embed="youtube" data-embed-id="dQw4w9WgXcQ"></figure>' +
+      '<figure data-embed="evil" data-embed-id="x"></figure>'
+    );
+    const [valid, forged] = Array.from(root.querySelectorAll('figure'));
+    expect(valid.getAttribute('data-embed')).toBe('youtube');
+    expect(valid.getAttribute('data-embed-id')).toBe('dQw4w9WgXcQ');
+    expect(forged.hasAttribute('data-embed')).toBe(false);
+    expect(forged.hasAttribute('data-embed-id')).toBe(false);
+  });
+
+  it('returns an empty string for empty input', () => {
+    expect(sanitize('')).toBe('');
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Allowlist HTML sanitizer for extracted article content.
+ *
+ * Readability and the fallback selectors return publisher markup as-is,
+ * which the reader renders with dangerouslySetInnerHTML. Only text-level
+ * and structural elements survive; scripts, embeds, forms and tracking
+ * pixels are removed, unknown elements are unwrapped (their content kept),
+ * and every attribute not listed below is dropped. URLs are made absolute
+ * against the page URL and limited to safe schemes; links open in a new tab
+ * with rel="noopener noreferrer". Images are rewritten to load through the
+ * /api/image proxy at reader width.
+ */
+
+import { JSDOM } from 'jsdom';
+import { READER_IMAGE_WIDTH, proxyImageUrl } from './imageProxy';
+import { EMBED_KINDS, EmbedKind, YOUTUBE_ID_PATTERN } from './articleEmbeds';
+
+/** Removed together with their content */
+const DROP_TAGS = new Set([
+  'script', 'style', 'noscript', 'template', 'iframe', 'frame', 'frameset',
+  'object', 'embed', 'applet', 'form', 'input', 'button', 'select', 'option',
+  'textarea', 'link', 'meta', 'base', 'svg', 'math', 'canvas', 'audio',
+  'video', 'source', 'track', 'dialog', 'head', 'title',
+]);
+
+/** Kept, with only the listed attributes */
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  p: [], br: [], hr: [], div: [], span: [], section: [], article: [],
+  header: [], footer: [], aside: [],
+  h1: [], h2: [], h3: [], h4: [], h5: [], h6: [],
+  strong: [], b: [], em: [], i: [], u: [], s: [], del: [], ins: [],
+  sub: [], sup: [], small: [], mark: [], code: [], pre: [], kbd: [],
+  blockquote: ['cite'], q: ['cite'], cite: [],
+  abbr: ['title'], time: ['datetime'],
+  ul: [], ol: ['start', 'reversed'], li: [], dl: [], dt: [], dd: [],
+  a: ['href', 'title'],
+  img: ['src', 'srcset', 'alt', 'title', 'width', 'height'],
+  figure: ['data-embed', 'data-embed-id'], figcaption: [],
+  table: [], caption: [], thead: [], tbody: [], tfoot: [], tr: [],
+  th: ['colspan', 'rowspan', 'scope'], td: ['colspan', 'rowspan'],
+};
+
+const URL_ATTRIBUTES = new Set(['href', 'src', 'cite']);
+const LINK_PROTOCOLS = new Set(['http:', 'https:', 'mailto:', 'tel:']);
+const IMAGE_PROTOCOLS = new Set(['http:', 'https:']);
+
+// Images this size or smaller are tracking pixels
+const TRACKING_PIXEL_MAX_SIZE = 2;
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function safeUrl(value: string | null, baseUrl: string, protocols: Set<string>): string | null {
+  if (!value?.trim()) return null;
+  try {
+    const url = new URL(value.trim(), baseUrl);
+    return protocols.has(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function safeSrcset(value: string, baseUrl: string): string | null {
+  const candidates = value
+    .split(',')
+    .map(part => {
+      const [src, ...descriptor] = part.trim().split(/\s+/);
+      const url = safeUrl(src, baseUrl, IMAGE_PROTOCOLS);
+      return url ? [url, ...descriptor].join(' ') : null;
+    })
+    .filter((c): c is string => !!c);
+  return candidates.length > 0 ? candidates.join(', ') : null;
+}
+
+/**
+ * Largest candidate of a srcset (by width or density descriptor)
+ */
+function largestSrcsetUrl(srcset: string): string | null {
+  let best: { url: string; size: number } | null = null;
+  for (const part of srcset.split(',')) {
+    const [url, descriptor] = part.trim().split(/\s+/);
+    if (!url) continue;
+    const size = parseFloat(descriptor ?? '') || 1;
+    if (!best || size > best.size) best = { url, size };
+  }
+  return best?.url ?? null;
+}
+
+/**
+ * Point an image at the proxy at reader width, from its largest original
+ */
+function proxyImage(img: Element): void {
+  const original = largestSrcsetUrl(img.getAttribute('srcset') ?? '') ?? img.getAttribute('src');
+  if (!original) return;
+  img.setAttribute('src', proxyImageUrl(original, READER_IMAGE_WIDTH));
+  img.removeAttribute('srcset');
+}
+
+function isTrackingPixel(img: Element): boolean {
+  const width = parseInt(img.getAttribute('width') ?? '', 10);
+  const height = parseInt(img.getAttribute('height') ?? '', 10);
+  return (width >= 0 && width <= TRACKING_PIXEL_MAX_SIZE) || (height >= 0 && height <= TRACKING_PIXEL_MAX_SIZE);
+}
+
+/**
+ * Keep embed placeholder markers (see articleEmbeds.ts) only if well-formed
+ */
+function checkEmbedMarkers(figure: Element): void {
+  const kind = figure.getAttribute('data-embed');
+  if (kind !== null && !EMBED_KINDS.includes(kind as EmbedKind)) {
+    figure.removeAttribute('data-embed');
+  }
+  const id = figure.getAttribute('data-embed-id');
+  if (id !== null && (kind !== 'youtube' || !YOUTUBE_ID_PATTERN.test(id))) {
+    figure.removeAttribute('data-embed-id');
+  }
+}
+
+function unwrap(el: Element): void {
+  el.replaceWith(...Array.from(el.childNodes));
+}
+
+/**
+ * Lazy-loaded images keep the real URL in data-src and a placeholder in src
+ */
+function promoteLazySource(img: Element): void {
+  const src = img.getAttribute('src');
+  const lazySrc = img.getAttribute('data-src') ?? img.getAttribute('data-lazy-src');
+  if (lazySrc && (!src || src.startsWith('data:'))) img.setAttribute('src', lazySrc);
+  const lazySrcset = img.getAttribute('data-srcset');
+  if (lazySrcset && !img.getAttribute('srcset')) img.setAttribute('srcset', lazySrcset);
+}
+
+function sanitizeElement(el: Element, baseUrl: string): void {
+  const tag = el.tagName.toLowerCase();
+
+  if (DROP_TAGS.has(tag)) {
+    el.remove();
+    return;
+  }
+
+  sanitizeChildren(el, baseUrl);
+
+  const allowed = ALLOWED_ATTRIBUTES[tag];
+  if (!allowed) {
+    unwrap(el);
+    return;
+  }
+
+  if (tag === 'img') promoteLazySource(el);
+
+  for (const { name } of Array.from(el.attributes)) {
+    if (!allowed.includes(name)) el.removeAttribute(name);
+  }
+
+  for (const name of URL_ATTRIBUTES) {
+    if (!el.hasAttribute(name)) continue;
+    const url = safeUrl(el.getAttribute(name), baseUrl, tag === 'img' ? IMAGE_PROTOCOLS : LINK_PROTOCOLS);
+    if (url) el.setAttribute(name, url);
+    else el.removeAttribute(name);
+  }
+
+  if (tag === 'img') {
+    const srcset = el.getAttribute('srcset');
+    if (srcset !== null) {
+      const safe = safeSrcset(srcset, baseUrl);
+      if (safe) el.setAttribute('srcset', safe);
+      else el.removeAttribute('srcset');
+    }
+    // srcset-only images: the best candidate becomes src
+    const best = largestSrcsetUrl(el.getAttribute('srcset') ?? '');
+    if (!el.hasAttribute('src') && best) el.setAttribute('src', best);
+    if (!el.hasAttribute('src') || isTrackingPixel(el)) {
+      el.remove();
+      return;
+    }
+    proxyImage(el);
+  }
+
+  if (tag === 'figure') checkEmbedMarkers(el);
+
+  if (tag === 'a' && el.hasAttribute('href')) {
+    el.setAttribute('target', '_blank');
+    el.setAttribute('rel', 'noopener noreferrer');
+  }
+}
+
+function sanitizeChildren(parent: Element, baseUrl: string): void {
+  for (const node of Array.from(parent.childNodes)) {
+    if (node.nodeType === ELEMENT_NODE) {
+      sanitizeElement(node as Element, baseUrl);
+    } else if (node.nodeType !== TEXT_NODE) {
+      // Comments (including IE conditional comments), processing instructions
+      node.parentNode?.removeChild(node);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Sanitize article HTML; relative URLs resolve against `baseUrl`
+ */
+export function sanitizeArticleHtml(html: string, baseUrl: string): string {
+  if (!html) return '';
+
+  const { document } = new JSDOM('').window;
+  const root = document.createElement('div');
+  root.innerHTML = html;
+  sanitizeChildren(root, baseUrl);
+
+  return root.innerHTML;
+}
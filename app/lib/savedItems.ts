@@ -0,0 +1,250 @@
+/**
+ * Local storage utilities for saved-for-later articles and videos.
+ *
+ * Unlike read state and the feed, saved items never expire. Articles keep
+ * the extracted reader content (when available) so they stay readable
+ * offline from the Saved screen.
+ */
+
+import { Article, ArticleSummary } from '../types/article';
+import { getCachedExtract } from './extractCache';
+
+const STORAGE_KEY = 'sr:saved:v1';
+
+/**
+ * Reader content kept with a saved article (subset of the /api/extract response)
+ */
+export interface SavedArticleContent {
+  url: string; // publisher URL the content was extracted from
+  title?: string;
+  byline?: string;
+  siteName?: string;
+  contentHtml: string;
+}
+
+export interface SavedVideoMeta {
+  id: string;
+  title: string;
+  description: string;
+  thumbnail: string;
+  channelId: string;
+  channelTitle: string;
+  publishedAt: string;
+  url: string;
+}
+
+export interface SavedArticle {
+  kind: 'article';
+  id: string;
+  savedAt: number;
+  article: ArticleSummary;
+  content?: SavedArticleContent;
+}
+
+export interface SavedVideo {
+  kind: 'video';
+  id: string;
+  savedAt: number;
+  video: SavedVideoMeta;
+}
+
+export type SavedItem = SavedArticle | SavedVideo;
+
+interface SavedStore {
+  version: 1;
+  items: SavedItem[]; // newest first
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function loadItems(): SavedItem[] {
+  if (typeof window === 'undefined') return [];
+  return parseSavedItems(localStorage.getItem(STORAGE_KEY));
+}
+
+/**
+ * Persist items and notify listeners. Returns false if storage is full.
+ */
+function saveItems(items: SavedItem[]): boolean {
+  try {
+    const store: SavedStore = { version: 1, items };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+    window.dispatchEvent(new Event('savedItemsChanged'));
+    return true;
+  } catch (error) {
+    console.error('Failed to save items:', error);
+    return false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Pick the fields worth keeping from an extract payload
+ * (also used by the offline article store)
+ */
+export function toSavedContent(payload: unknown): SavedArticleContent | undefined {
+  const data = payload as Partial<SavedArticleContent> & { success?: boolean } | null;
+  if (!data?.success || !data.contentHtml || !data.url) return undefined;
+  return {
+    url: data.url,
+    title: data.title,
+    byline: data.byline,
+    siteName: data.siteName,
+    contentHtml: data.contentHtml,
+  };
+}
+
+/**
+ * Parse the raw stored value (see getSavedItemsSnapshot)
+ */
+export function parseSavedItems(raw: string | null): SavedItem[] {
+  if (!raw) return [];
+
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed?.version === 1 && Array.isArray(parsed.items) ? parsed.items : [];
+  } catch (error) {
+    console.error('Failed to get saved items:', error);
+    return [];
+  }
+}
+
+/**
+ * Raw stored value, for useSyncExternalStore (a string compares by value)
+ */
+export function getSavedItemsSnapshot(): string | null {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(STORAGE_KEY);
+}
+
+/**
+ * Subscribe to saved item changes in this tab and others.
+ * Returns an unsubscribe function.
+ */
+export function subscribeSavedItems(onChange: () => void): () => void {
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key === STORAGE_KEY) onChange();
+  };
+
+  window.addEventListener('savedItemsChanged', onChange);
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    window.removeEventListener('savedItemsChanged', onChange);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
+
+/**
+ * Get the ids of all saved items
+ */
+export function getSavedIds(): Set<string> {
+  return new Set(loadItems().map(item => item.id));
+}
+
+/**
+ * Check if an article or video is saved
+ */
+export function isItemSaved(id: string): boolean {
+  return loadItems().some(item => item.id === id);
+}
+
+/**
+ * Get the stored reader content for a saved article, if any
+ */
+export function getSavedArticleContent(id: string): SavedArticleContent | null {
+  const item = loadItems().find(i => i.id === id);
+  return item?.kind === 'article' && item.content ? item.content : null;
+}
+
+/**
+ * Build the summary stored for a saved article from a feed/reader Article
+ */
+export function summaryFromArticle(article: Article): ArticleSummary | null {
+  if (!article.url) return null;
+  return {
+    id: article.id,
+    title: article.title,
+    url: article.url,
+    publishedAt: article.publishedAt ?? '',
+    sourceName: article.source,
+    sourceDomain: article.sourceDomain ?? '',
+    author: article.author,
+    thumbnail: article.thumbnail,
+  };
+}
+
+/**
+ * Save an article. Extracted content is taken from the argument, else from
+ * the client extraction cache. If storage is full, the article is saved
+ * without content. Returns false if it could not be saved at all.
+ */
+export function saveArticle(article: ArticleSummary, extracted?: unknown): boolean {
+  if (typeof window === 'undefined') return false;
+
+  const items = loadItems().filter(item => item.id !== article.id);
+  const content = toSavedContent(extracted ?? getCachedExtract(article.url));
+  const item: SavedArticle = { kind: 'article', id: article.id, savedAt: Date.now(), article, content };
+
+  if (saveItems([item, ...items])) return true;
+  if (content && saveItems([{ ...item, content: undefined }, ...items])) {
+    console.warn('[Saved] Storage full, saved article without offline content');
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Attach reader content to an already-saved article that has none yet
+ */
+export function attachSavedContent(id: string, extracted: unknown): void {
+  if (typeof window === 'undefined') return;
+
+  const content = toSavedContent(extracted);
+  if (!content) return;
+
+  const items = loadItems();
+  const index = items.findIndex(i => i.id === id);
+  const item = items[index];
+  if (!item || item.kind !== 'article' || item.content) return;
+
+  items[index] = { ...item, content };
+  saveItems(items);
+}
+
+/**
+ * Save a video. Returns false if storage is full.
+ */
+export function saveVideo(video: SavedVideoMeta): boolean {
+  if (typeof window === 'undefined') return false;
+
+  const items = loadItems().filter(item => item.id !== video.id);
+  const meta: SavedVideoMeta = {
+    id: video.id,
+    title: video.title,
+    description: video.description,
+    thumbnail: video.thumbnail,
+    channelId: video.channelId,
+    channelTitle: video.channelTitle,
+    publishedAt: video.publishedAt,
+    url: video.url,
+  };
+  return saveItems([{ kind: 'video', id: video.id, savedAt: Date.now(), video: meta }, ...items]);
+}
+
+/**
+ * Remove a saved article or video
+ */
+export function removeSavedItem(id: string): void {
+  if (typeof window === 'undefined') return;
+
+  const items = loadItems();
+  const filtered = items.filter(item => item.id !== id);
+  if (filtered.length !== items.length) {
+    saveItems(filtered);
+  }
+}
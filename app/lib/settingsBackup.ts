@@ -0,0 +1,223 @@
+/**
+ * Export / import of all user settings as a versioned JSON backup file.
+ *
+ * Import goes through the regular add/remove/set functions so change
+ * events and dirty flags fire exactly as if the user had made the edits.
+ */
+
+import { getTrustedDomains, addTrustedDomain, removeTrustedDomain, normalizeDomain } from './trustedDomains';
+import {
+  TrustedVideoSource,
+  getTrustedVideoSources,
+  addTrustedVideoSource,
+  removeTrustedVideoSource,
+} from './trustedVideoSources';
+import { ThemePreference, getStoredThemePreference, setStoredThemePreference, applyTheme } from './theme';
+import { TextSizePreference, getStoredTextSize, setStoredTextSize } from './textSize';
+import { TEAM_PROFILES, getStoredTeamId, setStoredTeamId } from './teams';
+import { TimeWindow, getStoredTimeWindow, setStoredTimeWindow } from './timeWindow';
+import { getReadStateEntries, applyReadStateEntries, purgeExpiredReadState } from './readState';
+import {
+  getWatchedStateEntries,
+  applyWatchedStateEntries,
+  purgeExpiredVideoWatchedState,
+} from './videoWatchedState';
+
+const BACKUP_FORMAT = 'suns-reader-settings';
+const BACKUP_VERSION = 1;
+
+export interface SettingsBackup {
+  format: typeof BACKUP_FORMAT;
+  v: typeof BACKUP_VERSION;
+  exportedAt: string; // ISO 8601
+  trustedDomains: string[];
+  trustedVideoSources: TrustedVideoSource[];
+  theme: ThemePreference;
+  textSize: TextSizePreference;
+  team: string;
+  timeWindow: TimeWindow;
+  readState: Record<string, number>;    // articleId → read timestamp
+  watchedState: Record<string, number>; // videoId → watched timestamp
+}
+
+/**
+ * merge: add backup sources and read/watched entries to the current ones.
+ * replace: make sources and read/watched state match the backup exactly.
+ * Preferences (theme, text size, team, time window) are taken from the
+ * backup in both modes.
+ */
+export type ImportMode = 'merge' | 'replace';
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/**
+ * Snapshot the current settings into a backup document
+ */
+export function createSettingsBackup(): SettingsBackup {
+  return {
+    format: BACKUP_FORMAT,
+    v: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    trustedDomains: getTrustedDomains(),
+    trustedVideoSources: getTrustedVideoSources(),
+    theme: getStoredThemePreference(),
+    textSize: getStoredTextSize(),
+    team: getStoredTeamId(),
+    timeWindow: getStoredTimeWindow(),
+    readState: getReadStateEntries(),
+    watchedState: getWatchedStateEntries(),
+  };
+}
+
+/**
+ * Suggested download file name, e.g. suns-reader-settings-2025-01-15.json
+ */
+export function getBackupFileName(backup: SettingsBackup): string {
+  return `${BACKUP_FORMAT}-${backup.exportedAt.slice(0, 10)}.json`;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isTimestampMap(value: unknown): value is Record<string, number> {
+  return isRecord(value) && Object.values(value).every(t => typeof t === 'number' && Number.isFinite(t) && t > 0);
+}
+
+/**
+ * Parse and validate a backup file's text.
+ * Returns null if it is not a backup this version can read.
+ */
+export function parseSettingsBackup(text: string): SettingsBackup | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  if (!isRecord(data) || data.format !== BACKUP_FORMAT || data.v !== BACKUP_VERSION) return null;
+
+  const {
+    exportedAt,
+    trustedDomains,
+    trustedVideoSources,
+    theme,
+    textSize,
+    team,
+    timeWindow,
+    readState,
+    watchedState,
+  } = data;
+
+  if (typeof exportedAt !== 'string') return null;
+  if (!Array.isArray(trustedDomains) || !trustedDomains.every(d => typeof d === 'string' && d.trim())) return null;
+  if (
+    !Array.isArray(trustedVideoSources) ||
+    !trustedVideoSources.every(s => isRecord(s) && typeof s.channelId === 'string' && s.channelId && typeof s.channelTitle === 'string')
+  ) return null;
+  if (theme !== 'system' && theme !== 'light' && theme !== 'dark') return null;
+  if (textSize !== 'default' && textSize !== 'large' && textSize !== 'larger') return null;
+  if (typeof team !== 'string' || !TEAM_PROFILES.some(t => t.id === team)) return null;
+  if (timeWindow !== '24h' && timeWindow !== '3d' && timeWindow !== '7d') return null;
+  if (!isTimestampMap(readState) || !isTimestampMap(watchedState)) return null;
+
+  return {
+    format: BACKUP_FORMAT,
+    v: BACKUP_VERSION,
+    exportedAt,
+    trustedDomains,
+    trustedVideoSources: trustedVideoSources.map(s => ({ channelId: s.channelId, channelTitle: s.channelTitle })),
+    theme,
+    textSize,
+    team,
+    timeWindow,
+    readState,
+    watchedState,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the entries to apply for read/watched state.
+ * merge keeps the later timestamp per id; replace also clears ids not in the backup.
+ */
+function diffTimestampEntries(
+  current: Record<string, number>,
+  incoming: Record<string, number>,
+  mode: ImportMode
+): Record<string, number | null> {
+  const entries: Record<string, number | null> = {};
+
+  for (const [id, timestamp] of Object.entries(incoming)) {
+    if (mode === 'replace' || !(current[id] >= timestamp)) {
+      entries[id] = timestamp;
+    }
+  }
+  if (mode === 'replace') {
+    for (const id of Object.keys(current)) {
+      if (!(id in incoming)) entries[id] = null;
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Apply a validated backup to this device
+ */
+export function applySettingsBackup(backup: SettingsBackup, mode: ImportMode): void {
+  if (typeof window === 'undefined') return;
+
+  // Team first: an empty domain list falls back to the selected team's defaults
+  setStoredTeamId(backup.team);
+  setStoredTimeWindow(backup.timeWindow);
+  setStoredThemePreference(backup.theme);
+  applyTheme(backup.theme);
+  setStoredTextSize(backup.textSize);
+
+  // Add before removing so the list never passes through empty (which would reseed defaults)
+  const currentDomains = getTrustedDomains();
+  for (const domain of backup.trustedDomains) {
+    addTrustedDomain(domain);
+  }
+  if (mode === 'replace') {
+    const keep = new Set(backup.trustedDomains.map(normalizeDomain));
+    for (const domain of currentDomains) {
+      if (!keep.has(domain)) removeTrustedDomain(domain);
+    }
+  }
+
+  const currentSources = getTrustedVideoSources();
+  for (const source of backup.trustedVideoSources) {
+    addTrustedVideoSource(source.channelId, source.channelTitle);
+  }
+  if (mode === 'replace') {
+    const keep = new Set(backup.trustedVideoSources.map(s => s.channelId));
+    for (const source of currentSources) {
+      if (!keep.has(source.channelId)) removeTrustedVideoSource(source.channelId);
+    }
+  }
+
+  applyReadStateEntries(diffTimestampEntries(getReadStateEntries(), backup.readState, mode));
+  applyWatchedStateEntries(diffTimestampEntries(getWatchedStateEntries(), backup.watchedState, mode));
+
+  // Entries older than the (possibly new) time window are dropped as usual
+  purgeExpiredReadState();
+  purgeExpiredVideoWatchedState();
+
+  console.log(
+    `[Backup] Imported (${mode}): ${backup.trustedDomains.length} domains, ` +
+    `${backup.trustedVideoSources.length} video sources, ` +
+    `${Object.keys(backup.readState).length} read, ${Object.keys(backup.watchedState).length} watched`
+  );
+}
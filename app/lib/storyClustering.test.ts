@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { clusterArticles, pickStoryLead } from './storyClustering';
+import type { ArticleSummary } from '../types/article';
+
+function summary(id: string, sourceDomain: string, extra: Partial<ArticleSummary> = {}): ArticleSummary {
+  return {
+    id,
+    title: 'Suns beat Lakers behind Booker late fourth quarter surge',
+    url: `https://${sourceDomain}/suns-beat-lakers`,
+    publishedAt: '2025-01-15T12:00:00.000Z',
+    sourceName: sourceDomain,
+    sourceDomain,
+    ...extra,
+  };
+}
+
+describe('pickStoryLead', () => {
+  it('keeps the thumbnail and byline of a promoted trusted outlet', () => {
+    const { items } = clusterArticles([
+      summary('a', 'aggregator.example'),
+      summary('b', 'azcentral.com', { author: 'Duane Rankin', thumbnail: 'https://cdn.example/b.jpg' }),
+    ]);
+    expect(items).toHaveLength(1);
+
+    const lead = pickStoryLead(items[0], ['azcentral.com']);
+    expect(lead.id).toBe('b');
+    expect(lead.author).toBe('Duane Rankin');
+    expect(lead.thumbnail).toBe('https://cdn.example/b.jpg');
+    expect(lead.related?.map(r => r.id)).toEqual(['a']);
+  });
+
+  it('leaves a trusted lead in place', () => {
+    const { items } = clusterArticles([summary('a', 'azcentral.com'), summary('b', 'other.example')]);
+    expect(pickStoryLead(items[0], ['azcentral.com']).id).toBe('a');
+  });
+});
@@ -0,0 +1,199 @@
+import { ArticleSummary, RelatedArticle } from '../types/article';
+import { normalizeTitle } from './utils';
+
+/**
+ * Cross-source deduplication and story clustering for the article feed.
+ *
+ * Items are grouped when they share a canonical URL or their normalized
+ * titles are similar enough. Within a story, a second copy from the same
+ * outlet (e.g. Google News wrapper + direct publisher feed) is dropped;
+ * copies from other outlets are kept on the lead item as `related`.
+ */
+
+// Minimum Jaccard similarity between title token sets to treat as one story
+const TITLE_SIMILARITY_THRESHOLD = 0.6;
+
+// Titles with fewer tokens than this only cluster on an exact token match
+const MIN_TOKENS_FOR_FUZZY_MATCH = 4;
+
+// Query params that never change which article a URL points to
+const TRACKING_PARAM_PATTERN = /^(utm_|fbclid$|gclid$|mc_|ocid$|cmpid$|taid$|ref$|src$|smid$)/i;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have',
+  'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was',
+  'were', 'will', 'with', 'after', 'vs', 'v',
+]);
+
+interface ClusterMember {
+  item: ArticleSummary;
+  urlKey: string;
+  tokens: Set<string>;
+}
+
+interface StoryCluster {
+  lead: ArticleSummary;
+  members: ClusterMember[];
+  // Every URL/title seen for the story, including dropped copies
+  seen: ClusterMember[];
+}
+
+/**
+ * Canonical identity for a URL: host (no www), path without trailing slash,
+ * and non-tracking query params in sorted order. Fragments are ignored.
+ */
+export function canonicalUrlKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    const path = parsed.pathname.replace(/\/+$/, '') || '/';
+    const params = [...parsed.searchParams.entries()]
+      .filter(([key]) => !TRACKING_PARAM_PATTERN.test(key))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, value]) => `${key}=${value}`)
+      .join('&');
+    return `${host}${path}${params ? `?${params}` : ''}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+/**
+ * Tokenize a title for similarity comparison: strip the trailing outlet
+ * suffix, fold case and diacritics, drop punctuation and stopwords.
+ */
+function titleTokens(title: string, sourceName: string): Set<string> {
+  const cleaned = normalizeTitle(title, sourceName)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['\u2018\u2019`]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ');
+
+  return new Set(
+    cleaned.split(' ').filter(token => token.length > 1 && !STOPWORDS.has(token))
+  );
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function titlesMatch(a: Set<string>, b: Set<string>): boolean {
+  if (a.size === 0 || b.size === 0) return false;
+  if (Math.min(a.size, b.size) < MIN_TOKENS_FOR_FUZZY_MATCH) {
+    return a.size === b.size && jaccard(a, b) === 1;
+  }
+  return jaccard(a, b) >= TITLE_SIMILARITY_THRESHOLD;
+}
+
+function isGoogleNewsUrl(url: string): boolean {
+  try {
+    return new URL(url).hostname.toLowerCase() === 'news.google.com';
+  } catch {
+    return false;
+  }
+}
+
+function toRelated(item: ArticleSummary): RelatedArticle {
+  return {
+    id: item.id,
+    title: item.title,
+    url: item.url,
+    publishedAt: item.publishedAt,
+    sourceName: item.sourceName,
+    sourceDomain: item.sourceDomain,
+    author: item.author,
+    thumbnail: item.thumbnail,
+  };
+}
+
+/**
+ * Group items into stories. Input order is preserved for leads, so pass
+ * items already sorted newest first.
+ *
+ * Returns the lead items (with `related` set when other outlets carried the
+ * story) and how many input items were folded away.
+ */
+export function clusterArticles(items: ArticleSummary[]): {
+  items: ArticleSummary[];
+  duplicatesRemoved: number;
+} {
+  const clusters: StoryCluster[] = [];
+
+  for (const item of items) {
+    const candidate: ClusterMember = {
+      item,
+      urlKey: canonicalUrlKey(item.url),
+      tokens: titleTokens(item.title, item.sourceName),
+    };
+
+    const cluster = clusters.find(c =>
+      c.seen.some(m => m.urlKey === candidate.urlKey || titlesMatch(m.tokens, candidate.tokens))
+    );
+
+    if (!cluster) {
+      clusters.push({ lead: item, members: [candidate], seen: [candidate] });
+      continue;
+    }
+
+    cluster.seen.push(candidate);
+
+    // Same article (same URL, or same outlet with a matching title): keep one
+    // copy, preferring the canonical publisher URL over a Google News wrapper
+    const sameIndex = cluster.members.findIndex(m =>
+      m.urlKey === candidate.urlKey ||
+      (m.item.sourceDomain === item.sourceDomain && titlesMatch(m.tokens, candidate.tokens))
+    );
+    if (sameIndex !== -1) {
+      const existing = cluster.members[sameIndex].item;
+      if (isGoogleNewsUrl(existing.url) && !isGoogleNewsUrl(item.url)) {
+        cluster.members[sameIndex] = candidate;
+        if (cluster.lead === existing) cluster.lead = item;
+      }
+      continue;
+    }
+
+    cluster.members.push(candidate);
+  }
+
+  const result = clusters.map(({ lead, members }) => {
+    const others = members.filter(m => m.item !== lead).map(m => toRelated(m.item));
+    if (others.length === 0) return lead;
+    return { ...lead, related: others };
+  });
+
+  return {
+    items: result,
+    duplicatesRemoved: items.length - result.length,
+  };
+}
+
+/**
+ * Choose which member of a story leads it in the feed. When the lead's
+ * outlet is not trusted but another outlet in the story is, that outlet is
+ * promoted so the story lands on the Trusted tab.
+ */
+export function pickStoryLead(item: ArticleSummary, trustedDomains: string[]): ArticleSummary {
+  if (!item.related?.length) return item;
+  if (trustedDomains.includes(item.sourceDomain.toLowerCase())) return item;
+
+  const trustedIndex = item.related.findIndex(r =>
+    trustedDomains.includes(r.sourceDomain.toLowerCase())
+  );
+  if (trustedIndex === -1) return item;
+
+  const promoted = item.related[trustedIndex];
+  const { related, ...formerLead } = item;
+  const rest = related.filter((_, i) => i !== trustedIndex);
+
+  return {
+    ...promoted,
+    related: [toRelated(formerLead), ...rest],
+  };
+}
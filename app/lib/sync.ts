@@ -0,0 +1,451 @@
+/**
+ * Client side of the optional cross-device sync (/api/sync).
+ *
+ * Local modules stay the source of truth on each device. A sync pushes the
+ * entries that changed since the last sync (diffed against a snapshot),
+ * receives the merged account document, and applies remote changes through
+ * the same functions the UI uses, so change events and dirty flags fire.
+ *
+ * Before a device's first sync its settings are sent with updatedAt 0, so an
+ * existing account's values win and the new device only fills gaps.
+ */
+
+import type { SyncCredentials, SyncDocument, SyncEntries, SyncPairingCode } from '../types/sync';
+import { getTrustedDomains, addTrustedDomain, removeTrustedDomain } from './trustedDomains';
+import {
+  getTrustedVideoSources,
+  trustedVideoSourcesExist,
+  addTrustedVideoSource,
+  removeTrustedVideoSource,
+} from './trustedVideoSources';
+import { getStoredThemePreference, setStoredThemePreference, applyTheme } from './theme';
+import { getStoredTextSize, setStoredTextSize } from './textSize';
+import { getStoredTeamId, setStoredTeamId } from './teams';
+import { getStoredTimeWindow, setStoredTimeWindow, getTimeWindowHours, parseTimeWindow } from './timeWindow';
+import { getReadStateEntries, applyReadStateEntries } from './readState';
+import { getWatchedStateEntries, applyWatchedStateEntries } from './videoWatchedState';
+
+const CREDENTIALS_KEY = 'sr:sync:credentials:v1';
+const SNAPSHOT_KEY = 'sr:sync:snapshot:v1';
+const LAST_SYNCED_KEY = 'sr:sync:lastSyncedAt';
+
+const SYNC_TIMEOUT_MS = 10_000;
+const SYNC_DEBOUNCE_MS = 3_000;
+
+// Local change events that should trigger a (debounced) sync
+const CHANGE_EVENTS = [
+  'trustedDomainsChanged',
+  'trustedVideoSourcesChanged',
+  'readStateChanged',
+  'videoWatchedStateChanged',
+  'themeChanged',
+  'textSizeChanged',
+  'teamChanged',
+  'timeWindowChanged',
+];
+
+type LocalValues = Record<string, unknown>;
+
+let inFlight: Promise<boolean> | null = null;
+let applyingRemote = false;
+let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+
+// ---------------------------------------------------------------------------
+// Credentials and bookkeeping
+// ---------------------------------------------------------------------------
+
+/**
+ * Get this device's sync credentials, or null if sync is off
+ */
+export function getSyncCredentials(): SyncCredentials | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = localStorage.getItem(CREDENTIALS_KEY);
+    if (!stored) return null;
+    const parsed = JSON.parse(stored);
+    if (typeof parsed?.accountId === 'string' && typeof parsed?.token === 'string') {
+      return parsed;
+    }
+    return null;
+  } catch (error) {
+    console.error('Failed to get sync credentials:', error);
+    return null;
+  }
+}
+
+/**
+ * Check whether sync is turned on for this device
+ */
+export function isSyncEnabled(): boolean {
+  return getSyncCredentials() !== null;
+}
+
+/**
+ * Get the time of the last successful sync (unix ms), or null
+ */
+export function getLastSyncedAt(): number | null {
+  if (typeof window === 'undefined') return null;
+  const stored = Number(localStorage.getItem(LAST_SYNCED_KEY));
+  return stored > 0 ? stored : null;
+}
+
+function saveCredentials(credentials: SyncCredentials): void {
+  localStorage.setItem(CREDENTIALS_KEY, JSON.stringify(credentials));
+  // New account membership: start from scratch so the first sync only fills gaps
+  localStorage.removeItem(SNAPSHOT_KEY);
+  localStorage.removeItem(LAST_SYNCED_KEY);
+}
+
+function loadSnapshot(): LocalValues | null {
+  try {
+    const stored = localStorage.getItem(SNAPSHOT_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Turn sync off on this device. Local data is kept; the account is untouched.
+ */
+export function disableSync(): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.removeItem(CREDENTIALS_KEY);
+    localStorage.removeItem(SNAPSHOT_KEY);
+    localStorage.removeItem(LAST_SYNCED_KEY);
+    console.log('[Sync] Turned off on this device');
+  } catch (error) {
+    console.error('Failed to disable sync:', error);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Local state <-> entries
+// ---------------------------------------------------------------------------
+
+function isItemKey(key: string): boolean {
+  return key.startsWith('read:') || key.startsWith('watched:');
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Collect everything that syncs into a flat key → value map.
+ */
+function collectLocalValues(): LocalValues {
+  const values: LocalValues = {
+    trustedDomains: getTrustedDomains(),
+    theme: getStoredThemePreference(),
+    textSize: getStoredTextSize(),
+    team: getStoredTeamId(),
+    timeWindow: getStoredTimeWindow(),
+  };
+
+  // Video sources are seeded from the first videos fetch; don't sync an unseeded list
+  if (trustedVideoSourcesExist()) {
+    values.trustedVideoSources = getTrustedVideoSources();
+  }
+
+  for (const [id, readAt] of Object.entries(getReadStateEntries())) {
+    values[`read:${id}`] = readAt;
+  }
+  for (const [id, watchedAt] of Object.entries(getWatchedStateEntries())) {
+    values[`watched:${id}`] = watchedAt;
+  }
+
+  return values;
+}
+
+/**
+ * Entries that changed locally since the last sync snapshot.
+ */
+function diffLocalChanges(local: LocalValues, snapshot: LocalValues | null, now: number): SyncEntries {
+  const entries: SyncEntries = {};
+
+  for (const [key, value] of Object.entries(local)) {
+    if (snapshot && key in snapshot && sameValue(snapshot[key], value)) continue;
+
+    // Read/watched entries carry their own timestamp. Settings changed since
+    // the last sync are written at `now`; before the first sync they use 0.
+    const updatedAt = isItemKey(key) ? (value as number) : snapshot ? now : 0;
+    entries[key] = { value, updatedAt };
+  }
+
+  if (snapshot) {
+    const cutoff = now - getTimeWindowHours(getStoredTimeWindow()) * 60 * 60 * 1000;
+    for (const [key, value] of Object.entries(snapshot)) {
+      if (key in local) continue;
+      // Entries that aged out of the time window were purged, not unmarked
+      if (isItemKey(key) && typeof value === 'number' && value < cutoff) continue;
+      entries[key] = { value: null, updatedAt: now };
+    }
+  }
+
+  return entries;
+}
+
+function applyTrustedDomains(next: string[]): void {
+  const current = getTrustedDomains();
+  for (const domain of next) {
+    if (!current.includes(domain)) addTrustedDomain(domain);
+  }
+  for (const domain of current) {
+    if (!next.includes(domain)) removeTrustedDomain(domain);
+  }
+}
+
+function applyTrustedVideoSources(next: { channelId: string; channelTitle: string }[]): void {
+  const current = getTrustedVideoSources();
+  const nextIds = new Set(next.map(s => s.channelId));
+  const currentIds = new Set(current.map(s => s.channelId));
+  for (const source of next) {
+    if (!currentIds.has(source.channelId)) addTrustedVideoSource(source.channelId, source.channelTitle);
+  }
+  for (const source of current) {
+    if (!nextIds.has(source.channelId)) removeTrustedVideoSource(source.channelId);
+  }
+}
+
+/**
+ * Apply a merged document's values that differ from local state.
+ */
+function applyDocument(doc: SyncDocument, local: LocalValues): void {
+  const readUpdates: Record<string, number | null> = {};
+  const watchedUpdates: Record<string, number | null> = {};
+
+  for (const [key, { value }] of Object.entries(doc.entries)) {
+    if (sameValue(local[key] ?? null, value)) continue;
+
+    if (key.startsWith('read:')) {
+      readUpdates[key.slice('read:'.length)] = typeof value === 'number' ? value : null;
+      continue;
+    }
+    if (key.startsWith('watched:')) {
+      watchedUpdates[key.slice('watched:'.length)] = typeof value === 'number' ? value : null;
+      continue;
+    }
+
+    switch (key) {
+      case 'trustedDomains':
+        if (Array.isArray(value)) {
+          applyTrustedDomains(value.filter((d): d is string => typeof d === 'string'));
+        }
+        break;
+      case 'trustedVideoSources':
+        if (Array.isArray(value)) {
+          applyTrustedVideoSources(
+            value.filter(s => typeof s?.channelId === 'string' && typeof s?.channelTitle === 'string')
+          );
+        }
+        break;
+      case 'theme':
+        if (value === 'system' || value === 'light' || value === 'dark') {
+          setStoredThemePreference(value);
+          applyTheme(value);
+        }
+        break;
+      case 'textSize':
+        if (value === 'default' || value === 'large' || value === 'larger') {
+          setStoredTextSize(value);
+        }
+        break;
+      case 'team':
+        if (typeof value === 'string') setStoredTeamId(value);
+        break;
+      case 'timeWindow':
+        if (typeof value === 'string') setStoredTimeWindow(parseTimeWindow(value));
+        break;
+    }
+  }
+
+  // Local entries missing from the document (pruned server-side) are left alone
+  for (const key of Object.keys(readUpdates)) {
+    if (readUpdates[key] === null && !(`read:${key}` in local)) delete readUpdates[key];
+  }
+  for (const key of Object.keys(watchedUpdates)) {
+    if (watchedUpdates[key] === null && !(`watched:${key}` in local)) delete watchedUpdates[key];
+  }
+
+  if (Object.keys(readUpdates).length > 0) applyReadStateEntries(readUpdates);
+  if (Object.keys(watchedUpdates).length > 0) applyWatchedStateEntries(watchedUpdates);
+}
+
+// ---------------------------------------------------------------------------
+// Network
+// ---------------------------------------------------------------------------
+
+async function postSync(body: Record<string, unknown>, credentials?: SyncCredentials | null): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), SYNC_TIMEOUT_MS);
+  try {
+    return await fetch('/api/sync', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(credentials ? { Authorization: `Bearer ${credentials.token}` } : {}),
+      },
+      body: JSON.stringify(body),
+      cache: 'no-store',
+      signal: controller.signal,
+    });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function runSync(): Promise<boolean> {
+  const credentials = getSyncCredentials();
+  if (!credentials) return false;
+
+  try {
+    const local = collectLocalValues();
+    const entries = diffLocalChanges(local, loadSnapshot(), Date.now());
+
+    const res = await postSync({ action: 'push', entries }, credentials);
+    if (res.status === 401) {
+      console.warn('[Sync] Credentials rejected, turning sync off');
+      disableSync();
+      return false;
+    }
+    if (!res.ok) {
+      throw new Error(`Sync push failed: ${res.status}`);
+    }
+
+    const { document } = await res.json() as { document: SyncDocument };
+
+    applyingRemote = true;
+    try {
+      applyDocument(document, local);
+    } finally {
+      applyingRemote = false;
+    }
+
+    localStorage.setItem(SNAPSHOT_KEY, JSON.stringify(collectLocalValues()));
+    localStorage.setItem(LAST_SYNCED_KEY, String(Date.now()));
+    console.log(`[Sync] Pushed ${Object.keys(entries).length} entries, document has ${Object.keys(document.entries).length}`);
+
+    window.dispatchEvent(new Event('syncCompleted'));
+    return true;
+  } catch (error) {
+    console.error('Failed to sync:', error);
+    return false;
+  }
+}
+
+/**
+ * Sync now. Concurrent calls share the in-flight sync.
+ * Resolves to true on success, false if sync is off or failed.
+ */
+export function syncNow(): Promise<boolean> {
+  if (typeof window === 'undefined') return Promise.resolve(false);
+  if (!inFlight) {
+    inFlight = runSync().finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+}
+
+/**
+ * Schedule a debounced sync (no-op if sync is off or a remote apply is running)
+ */
+export function requestSync(): void {
+  if (typeof window === 'undefined') return;
+  if (applyingRemote || !isSyncEnabled()) return;
+
+  if (debounceTimer) clearTimeout(debounceTimer);
+  debounceTimer = setTimeout(() => {
+    debounceTimer = null;
+    void syncNow();
+  }, SYNC_DEBOUNCE_MS);
+}
+
+/**
+ * Create a new sync account with this device as its first member.
+ */
+export async function enableSync(): Promise<boolean> {
+  try {
+    const res = await postSync({ action: 'register' });
+    if (!res.ok) throw new Error(`Sync register failed: ${res.status}`);
+    const { credentials } = await res.json() as { credentials: SyncCredentials };
+    saveCredentials(credentials);
+    console.log('[Sync] Turned on (new account)');
+    return syncNow();
+  } catch (error) {
+    console.error('Failed to enable sync:', error);
+    return false;
+  }
+}
+
+/**
+ * Join an existing sync account using a pairing code from another device.
+ * Returns false if the code is invalid or expired.
+ */
+export async function pairWithCode(code: string): Promise<boolean> {
+  try {
+    const res = await postSync({ action: 'redeem', code });
+    if (!res.ok) return false;
+    const { credentials } = await res.json() as { credentials: SyncCredentials };
+    saveCredentials(credentials);
+    console.log('[Sync] Paired with existing account');
+    return syncNow();
+  } catch (error) {
+    console.error('Failed to pair device:', error);
+    return false;
+  }
+}
+
+/**
+ * Create a pairing code for adding another device to this account.
+ */
+export async function createPairingCode(): Promise<SyncPairingCode | null> {
+  const credentials = getSyncCredentials();
+  if (!credentials) return null;
+
+  try {
+    const res = await postSync({ action: 'pair' }, credentials);
+    if (!res.ok) throw new Error(`Sync pair failed: ${res.status}`);
+    const { pairing } = await res.json() as { pairing: SyncPairingCode };
+    return pairing;
+  } catch (error) {
+    console.error('Failed to create pairing code:', error);
+    return null;
+  }
+}
+
+/**
+ * Start background sync: once now, on local changes, and when the app
+ * becomes visible. Returns a cleanup function.
+ */
+export function initAutoSync(): () => void {
+  if (typeof window === 'undefined') return () => {};
+
+  const handleVisibilityChange = () => {
+    if (!document.hidden) requestSync();
+  };
+
+  for (const name of CHANGE_EVENTS) {
+    window.addEventListener(name, requestSync);
+  }
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+
+  if (isSyncEnabled()) {
+    void syncNow();
+  }
+
+  return () => {
+    for (const name of CHANGE_EVENTS) {
+      window.removeEventListener(name, requestSync);
+    }
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+      debounceTimer = null;
+    }
+  };
+}
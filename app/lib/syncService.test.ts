@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { checkRateLimit, mergeSyncEntries, parseSyncEntries } from './syncService';
+import { createMemorySyncStore } from './syncStore';
+import type { SyncEntries } from '../types/sync';
+
+const NOW = Date.UTC(2025, 0, 15, 12);
+
+describe('parseSyncEntries', () => {
+  it('accepts setting keys and read/watched item keys', () => {
+    const entries = parseSyncEntries({
+      theme: { value: 'dark', updatedAt: NOW },
+      trustedDomains: { value: ['espn.com'], updatedAt: NOW },
+      'read:abc': { value: NOW, updatedAt: NOW },
+      'watched:xyz': { value: null, updatedAt: NOW },
+    });
+    expect(entries && Object.keys(entries)).toEqual(['theme', 'trustedDomains', 'read:abc', 'watched:xyz']);
+  });
+
+  it('rejects unknown keys', () => {
+    expect(parseSyncEntries({ junk: { value: 1, updatedAt: NOW } })).toBeNull();
+    expect(parseSyncEntries({ 'readx:abc': { value: NOW, updatedAt: NOW } })).toBeNull();
+  });
+
+  it('rejects item values other than a timestamp or null', () => {
+    expect(parseSyncEntries({ 'read:abc': { value: 'x'.repeat(100), updatedAt: NOW } })).toBeNull();
+    expect(parseSyncEntries({ 'watched:abc': { value: { a: 1 }, updatedAt: NOW } })).toBeNull();
+  });
+
+  it('rejects oversized setting values', () => {
+    const domains = Array.from({ length: 10000 }, (_, i) => `publisher-${i}.example`);
+    expect(parseSyncEntries({ trustedDomains: { value: domains, updatedAt: NOW } })).toBeNull();
+  });
+});
+
+describe('mergeSyncEntries', () => {
+  it('keeps the later write per key', () => {
+    const base: SyncEntries = { theme: { value: 'dark', updatedAt: NOW - 10 } };
+    const merged = mergeSyncEntries(base, { theme: { value: 'light', updatedAt: NOW - 5 } }, NOW);
+    expect(merged.theme).toEqual({ value: 'light', updatedAt: NOW - 5 });
+  });
+
+  it('drops the oldest item entries past the entry cap, never settings', () => {
+    const base: SyncEntries = { theme: { value: 'dark', updatedAt: 0 } };
+    for (let i = 0; i < 5000; i++) {
+      base[`read:${i}`] = { value: NOW - 60000 + i, updatedAt: NOW - 60000 + i };
+    }
+    const merged = mergeSyncEntries(base, { 'read:new': { value: NOW, updatedAt: NOW } }, NOW);
+    expect(Object.keys(merged)).toHaveLength(5000);
+    expect(merged.theme).toBeDefined();
+    expect(merged['read:new']).toBeDefined();
+    expect(merged['read:0']).toBeUndefined();
+    expect(merged['read:1']).toBeUndefined();
+    expect(merged['read:2']).toBeDefined();
+  });
+
+  it('drops the oldest item entries past the byte cap', () => {
+    const base: SyncEntries = {};
+    for (let i = 0; i < 4000; i++) {
+      const key = `read:${String(i).padStart(150, '0')}`;
+      base[key] = { value: NOW - 60000 + i, updatedAt: NOW - 60000 + i };
+    }
+    const merged = mergeSyncEntries(base, {}, NOW);
+    expect(Buffer.byteLength(JSON.stringify(merged))).toBeLessThanOrEqual(512 * 1024);
+    expect(merged[`read:${'3999'.padStart(150, '0')}`]).toBeDefined();
+    expect(merged[`read:${'0'.padStart(150, '0')}`]).toBeUndefined();
+  });
+});
+
+describe('checkRateLimit', () => {
+  it('allows register up to the limit per client, then asks to retry later', async () => {
+    const store = createMemorySyncStore();
+    for (let i = 0; i < 5; i++) {
+      expect((await checkRateLimit(store, 'register', '203.0.113.7')).allowed).toBe(true);
+    }
+    const blocked = await checkRateLimit(store, 'register', '203.0.113.7');
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.retryAfterSec).toBeGreaterThan(0);
+    expect((await checkRateLimit(store, 'register', '203.0.113.8')).allowed).toBe(true);
+    expect((await checkRateLimit(store, 'redeem', '203.0.113.7')).allowed).toBe(true);
+  });
+});
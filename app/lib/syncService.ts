@@ -0,0 +1,309 @@
+/**
+ * Server-side logic for the optional cross-device sync API.
+ *
+ * Accounts are anonymous: registering creates an account id plus a random
+ * per-device secret. Further devices join through a short-lived, single-use
+ * pairing code and get their own secret. Only SHA-256 hashes of secrets are
+ * stored.
+ *
+ * Each account has one SyncDocument; pushes are merged last-writer-wins per
+ * entry key (see mergeSyncEntries). All functions take the store explicitly
+ * so they work against either backend.
+ */
+
+import { createHash, randomBytes, randomInt, randomUUID, timingSafeEqual } from 'crypto';
+import type { SyncStore } from './syncStore';
+import type { SyncCredentials, SyncDocument, SyncEntries, SyncEntry, SyncPairingCode } from '../types/sync';
+import { TIME_WINDOW_OPTIONS, getTimeWindowHours } from './timeWindow';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const KEY_PREFIX = 'sr:sync:v1:';
+const ACCOUNT_TTL_SEC = 180 * 24 * 60 * 60; // refreshed on every push
+const PAIRING_CODE_TTL_SEC = 10 * 60;
+const PAIRING_CODE_LENGTH = 8;
+const PAIRING_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'; // no 0/O, 1/I/L
+const MAX_DEVICES_PER_ACCOUNT = 10;
+const MAX_ENTRIES = 5000;
+const MAX_KEY_LENGTH = 200;
+const MAX_SETTING_BYTES = 64 * 1024;    // one setting value, as JSON
+const MAX_DOCUMENT_BYTES = 512 * 1024;  // all entries of a merged document, as JSON
+
+// Keys other than these and read:/watched: item keys are rejected
+const SETTING_KEYS = new Set(['trustedDomains', 'trustedVideoSources', 'theme', 'textSize', 'team', 'timeWindow']);
+
+// Per-client fixed windows for the unauthenticated actions
+const RATE_LIMITS: Record<RateLimitedAction, { limit: number; windowSec: number }> = {
+  register: { limit: 5, windowSec: 60 * 60 },
+  redeem: { limit: 10, windowSec: 10 * 60 },
+};
+
+// read:/watched: entries and tombstones older than the longest time window are pruned
+const ITEM_ENTRY_MAX_AGE_MS =
+  Math.max(...TIME_WINDOW_OPTIONS.map(option => getTimeWindowHours(option.value))) * 60 * 60 * 1000;
+
+export type RateLimitedAction = 'register' | 'redeem';
+
+interface SyncAccount {
+  v: 1;
+  secretHashes: string[]; // one per paired device, oldest first
+  createdAt: number;
+}
+
+function accountKey(accountId: string): string {
+  return `${KEY_PREFIX}acct:${accountId}`;
+}
+
+function documentKey(accountId: string): string {
+  return `${KEY_PREFIX}doc:${accountId}`;
+}
+
+function pairingKey(code: string): string {
+  return `${KEY_PREFIX}pair:${code}`;
+}
+
+function rateLimitKey(action: RateLimitedAction, clientId: string, window: number): string {
+  return `${KEY_PREFIX}rl:${action}:${clientId}:${window}`;
+}
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function isItemKey(key: string): boolean {
+  return key.startsWith('read:') || key.startsWith('watched:');
+}
+
+function entryBytes(key: string, entry: SyncEntry): number {
+  return Buffer.byteLength(JSON.stringify(key)) + Buffer.byteLength(JSON.stringify(entry)) + 2;
+}
+
+// ---------------------------------------------------------------------------
+// Accounts and devices
+// ---------------------------------------------------------------------------
+
+/**
+ * Add a device secret to an account and return that device's credentials.
+ */
+async function issueDeviceCredentials(
+  store: SyncStore,
+  accountId: string,
+  account: SyncAccount
+): Promise<SyncCredentials> {
+  const secret = randomBytes(24).toString('base64url');
+  const secretHashes = [...account.secretHashes, hashSecret(secret)].slice(-MAX_DEVICES_PER_ACCOUNT);
+  await store.set(accountKey(accountId), { ...account, secretHashes }, ACCOUNT_TTL_SEC);
+  return { accountId, token: `${accountId}.${secret}` };
+}
+
+/**
+ * Create a new anonymous account with this device as its first member.
+ */
+export async function registerAccount(store: SyncStore): Promise<SyncCredentials> {
+  const accountId = randomUUID();
+  const account: SyncAccount = { v: 1, secretHashes: [], createdAt: Date.now() };
+  return issueDeviceCredentials(store, accountId, account);
+}
+
+/**
+ * Resolve a bearer token to its account id. Returns null if invalid.
+ */
+export async function authenticate(store: SyncStore, token: string | null): Promise<string | null> {
+  if (!token) return null;
+
+  const dot = token.indexOf('.');
+  if (dot <= 0) return null;
+  const accountId = token.slice(0, dot);
+  const secret = token.slice(dot + 1);
+  if (!secret) return null;
+
+  const account = await store.get<SyncAccount>(accountKey(accountId));
+  if (!account || account.v !== 1) return null;
+
+  const candidate = Buffer.from(hashSecret(secret), 'hex');
+  const match = account.secretHashes.some(stored => {
+    const storedBuf = Buffer.from(stored, 'hex');
+    return storedBuf.length === candidate.length && timingSafeEqual(storedBuf, candidate);
+  });
+
+  return match ? accountId : null;
+}
+
+/**
+ * Create a single-use pairing code another device can redeem to join the account.
+ */
+export async function createPairingCode(store: SyncStore, accountId: string): Promise<SyncPairingCode> {
+  let code = '';
+  for (let i = 0; i < PAIRING_CODE_LENGTH; i++) {
+    code += PAIRING_CODE_ALPHABET[randomInt(PAIRING_CODE_ALPHABET.length)];
+  }
+
+  await store.set(pairingKey(code), { accountId }, PAIRING_CODE_TTL_SEC);
+  return { code, expiresAt: Date.now() + PAIRING_CODE_TTL_SEC * 1000 };
+}
+
+/**
+ * Redeem a pairing code. Returns new device credentials, or null if the
+ * code is unknown, expired or already used.
+ */
+export async function redeemPairingCode(store: SyncStore, rawCode: string): Promise<SyncCredentials | null> {
+  const code = rawCode.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  if (code.length !== PAIRING_CODE_LENGTH) return null;
+
+  const pairing = await store.get<{ accountId: string }>(pairingKey(code));
+  if (!pairing) return null;
+  await store.del(pairingKey(code));
+
+  const account = await store.get<SyncAccount>(accountKey(pairing.accountId));
+  if (!account || account.v !== 1) return null;
+
+  return issueDeviceCredentials(store, pairing.accountId, account);
+}
+
+/**
+ * Count a register/redeem request from a client (by IP) against its fixed
+ * window. Returns how long to wait when over the limit. Like pushEntries,
+ * the read-modify-write is not atomic; a few extra requests may slip
+ * through under concurrency.
+ */
+export async function checkRateLimit(
+  store: SyncStore,
+  action: RateLimitedAction,
+  clientId: string
+): Promise<{ allowed: boolean; retryAfterSec: number }> {
+  const { limit, windowSec } = RATE_LIMITS[action];
+  const nowSec = Math.floor(Date.now() / 1000);
+  const window = Math.floor(nowSec / windowSec);
+  const retryAfterSec = (window + 1) * windowSec - nowSec;
+
+  const key = rateLimitKey(action, clientId, window);
+  const count = (await store.get<number>(key)) ?? 0;
+  if (count >= limit) return { allowed: false, retryAfterSec };
+
+  await store.set(key, count + 1, retryAfterSec);
+  return { allowed: true, retryAfterSec: 0 };
+}
+
+// ---------------------------------------------------------------------------
+// Documents
+// ---------------------------------------------------------------------------
+
+/**
+ * Validate an untrusted entries payload. Returns null if malformed: unknown
+ * keys, item values other than a timestamp or null, or an oversized setting.
+ */
+export function parseSyncEntries(input: unknown): SyncEntries | null {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return null;
+
+  const keys = Object.keys(input);
+  if (keys.length > MAX_ENTRIES) return null;
+
+  const entries: SyncEntries = {};
+  for (const key of keys) {
+    const entry = (input as Record<string, unknown>)[key];
+    if (key.length === 0 || key.length > MAX_KEY_LENGTH) return null;
+    if (!isItemKey(key) && !SETTING_KEYS.has(key)) return null;
+    if (!entry || typeof entry !== 'object') return null;
+    const { value = null, updatedAt } = entry as { value?: unknown; updatedAt?: unknown };
+    if (typeof updatedAt !== 'number' || !Number.isFinite(updatedAt) || updatedAt < 0) return null;
+    if (isItemKey(key)) {
+      if (value !== null && (typeof value !== 'number' || !Number.isFinite(value))) return null;
+    } else if (Buffer.byteLength(JSON.stringify(value)) > MAX_SETTING_BYTES) {
+      return null;
+    }
+    entries[key] = { value, updatedAt };
+  }
+  return entries;
+}
+
+/**
+ * Merge incoming entries into base, last-writer-wins per key.
+ * Ties keep the base entry. Incoming timestamps in the future are clamped
+ * to `now` so a skewed device clock cannot pin a value forever.
+ * Stale read/watched entries and tombstones are pruned, then the oldest
+ * ones go until the document fits MAX_ENTRIES and MAX_DOCUMENT_BYTES.
+ */
+export function mergeSyncEntries(base: SyncEntries, incoming: SyncEntries, now: number): SyncEntries {
+  const merged: SyncEntries = { ...base };
+
+  for (const [key, entry] of Object.entries(incoming)) {
+    const updatedAt = Math.min(entry.updatedAt, now);
+    const existing = merged[key];
+    if (!existing || updatedAt > existing.updatedAt) {
+      merged[key] = { value: entry.value, updatedAt };
+    }
+  }
+
+  for (const [key, entry] of Object.entries(merged)) {
+    if (isItemKey(key) && now - entry.updatedAt > ITEM_ENTRY_MAX_AGE_MS) {
+      delete merged[key];
+    }
+  }
+
+  return capEntries(merged);
+}
+
+/**
+ * Drop the oldest read/watched entries until the document fits its caps.
+ * Settings are never dropped; parseSyncEntries bounds each one.
+ */
+function capEntries(entries: SyncEntries): SyncEntries {
+  let count = Object.keys(entries).length;
+  let bytes = 0;
+  for (const [key, entry] of Object.entries(entries)) bytes += entryBytes(key, entry);
+  if (count <= MAX_ENTRIES && bytes <= MAX_DOCUMENT_BYTES) return entries;
+
+  const oldestFirst = Object.keys(entries)
+    .filter(isItemKey)
+    .sort((a, b) => entries[a].updatedAt - entries[b].updatedAt);
+  for (const key of oldestFirst) {
+    if (count <= MAX_ENTRIES && bytes <= MAX_DOCUMENT_BYTES) break;
+    bytes -= entryBytes(key, entries[key]);
+    count--;
+    delete entries[key];
+  }
+  return entries;
+}
+
+function emptyDocument(): SyncDocument {
+  return { v: 1, entries: {}, updatedAt: 0 };
+}
+
+/**
+ * Load an account's document (empty if none yet).
+ */
+export async function pullDocument(store: SyncStore, accountId: string): Promise<SyncDocument> {
+  const doc = await store.get<SyncDocument>(documentKey(accountId));
+  return doc && doc.v === 1 ? doc : emptyDocument();
+}
+
+/**
+ * Merge a device's changed entries into the account document and return
+ * the merged result. Concurrent pushes race read-modify-write (no
+ * transaction); with a handful of personal devices that is acceptable.
+ */
+export async function pushEntries(
+  store: SyncStore,
+  accountId: string,
+  entries: SyncEntries
+): Promise<SyncDocument> {
+  const now = Date.now();
+  const current = await pullDocument(store, accountId);
+  const doc: SyncDocument = {
+    v: 1,
+    entries: mergeSyncEntries(current.entries, entries, now),
+    updatedAt: now,
+  };
+
+  await store.set(documentKey(accountId), doc, ACCOUNT_TTL_SEC);
+
+  // Keep the account alive as long as its document is in use
+  const account = await store.get<SyncAccount>(accountKey(accountId));
+  if (account) {
+    await store.set(accountKey(accountId), account, ACCOUNT_TTL_SEC);
+  }
+
+  return doc;
+}
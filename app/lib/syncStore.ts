@@ -0,0 +1,90 @@
+/**
+ * Key-value storage backend for the sync API.
+ *
+ * Uses the Upstash Redis client from extractKvCache when KV is configured,
+ * otherwise an in-memory stand-in (per serverless instance, lost on recycle)
+ * so sync works in local development and tests without Redis.
+ *
+ * Unlike the extraction cache, operations here are NOT best-effort: errors
+ * propagate so the sync route can report them to the client.
+ */
+
+import { getRedis } from './extractKvCache';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SyncStoreBackend = 'redis' | 'memory';
+
+export interface SyncStore {
+  readonly backend: SyncStoreBackend;
+  get<T>(key: string): Promise<T | null>;
+  set(key: string, value: unknown, ttlSec: number): Promise<void>;
+  del(key: string): Promise<void>;
+}
+
+// ---------------------------------------------------------------------------
+// Backends
+// ---------------------------------------------------------------------------
+
+/**
+ * In-memory store. Values are JSON round-tripped so callers see the same
+ * copy semantics as with Redis.
+ */
+export function createMemorySyncStore(): SyncStore {
+  const data = new Map<string, { json: string; expires: number }>();
+
+  return {
+    backend: 'memory',
+    async get<T>(key: string): Promise<T | null> {
+      const entry = data.get(key);
+      if (!entry) return null;
+      if (Date.now() >= entry.expires) {
+        data.delete(key);
+        return null;
+      }
+      return JSON.parse(entry.json) as T;
+    },
+    async set(key: string, value: unknown, ttlSec: number): Promise<void> {
+      data.set(key, { json: JSON.stringify(value), expires: Date.now() + ttlSec * 1000 });
+    },
+    async del(key: string): Promise<void> {
+      data.delete(key);
+    },
+  };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function createRedisSyncStore(redis: any): SyncStore {
+  return {
+    backend: 'redis',
+    async get<T>(key: string): Promise<T | null> {
+      return ((await redis.get(key)) as T | null) ?? null;
+    },
+    async set(key: string, value: unknown, ttlSec: number): Promise<void> {
+      await redis.set(key, value, { ex: ttlSec });
+    },
+    async del(key: string): Promise<void> {
+      await redis.del(key);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+let _store: SyncStore | undefined;
+
+/**
+ * Get the process-wide sync store (Redis if configured, else in-memory).
+ */
+export function getSyncStore(): SyncStore {
+  if (_store) return _store;
+
+  const redis = getRedis();
+  _store = redis ? createRedisSyncStore(redis) : createMemorySyncStore();
+  console.log(`[Sync] store backend: ${_store.backend}`);
+  return _store;
+}
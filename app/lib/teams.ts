@@ -0,0 +1,269 @@
+/**
+ * Team profile registry.
+ *
+ * Everything team-specific lives here: search queries, video relevance
+ * rules, and the default trusted article domains / video channels.
+ * Routes take a `team` query param; the client stores the user's pick.
+ */
+
+export interface TeamVideoSource {
+  channelId: string;
+  channelTitle: string;
+}
+
+export interface TeamProfile {
+  id: string;                     // stable id, used in storage and query params
+  name: string;                   // full name, e.g. "Phoenix Suns"
+  shortName: string;              // nickname, e.g. "Suns"
+  newsQuery: string;              // Google News search query
+  videoPrimaryQuery: string;      // YouTube primary query (paginated)
+  videoSecondaryQuery: string;    // YouTube secondary query (first page only)
+  // Phrases that make a video relevant on their own (title + desc + channel)
+  relevanceKeywords: string[];
+  // Ambiguous names that only count with basketball qualifiers
+  ambiguousKeywords: string[];
+  // Non-basketball meanings of the ambiguous names (checked on ambiguous matches only)
+  negativeKeywords: string[];
+  defaultTrustedDomains: string[];
+  defaultVideoSources: TeamVideoSource[];
+}
+
+// League-wide outlets shared by every team's default trusted list
+const NATIONAL_DOMAINS = [
+  'nba.com',
+  'espn.com',
+  'sports.yahoo.com',
+  'nbcsports.com',
+  'hoopsrumors.com',
+  'sportingnews.com',
+  'si.com',
+];
+
+// League-wide channels shared by every team's default video sources
+const NATIONAL_VIDEO_SOURCES: TeamVideoSource[] = [
+  { channelId: 'UCWJ2lWNubArHWmf3FIHbfcQ', channelTitle: 'NBA' },
+  { channelId: 'UCPAt6z5uX_c5Eo_cSNROzYw', channelTitle: 'Sports Illustrated' },
+  { channelId: 'UCiWLfSweyRNmLpgEHekhoAg', channelTitle: 'ESPN' },
+  { channelId: 'UC0LrZO9wORIqn_aRJtKdgfA', channelTitle: 'GAMETIME HIGHLIGHTS' },
+  { channelId: 'UCFw3-5NBx1XJTaF0TPcK8iQ', channelTitle: 'NBA on NBC' },
+];
+
+export const TEAM_PROFILES: TeamProfile[] = [
+  {
+    id: 'suns',
+    name: 'Phoenix Suns',
+    shortName: 'Suns',
+    newsQuery: 'Phoenix Suns',
+    videoPrimaryQuery: 'Phoenix Suns',
+    videoSecondaryQuery: 'Suns',
+    relevanceKeywords: ['phoenix suns'],
+    ambiguousKeywords: ['suns'],
+    negativeKeywords: [
+      // Space / astronomy / science
+      'astronomy',
+      'solar system',
+      'solar eclipse',
+      'solar flare',
+      'nasa',
+      'planet',
+      'orbit',
+      'telescope',
+      'cosmos',
+      'astrophysic',
+
+      // Astrology / horoscope / zodiac
+      'astrology',
+      'horoscope',
+      'zodiac',
+      'tarot',
+      'birth chart',
+
+      // Solar energy
+      'solar panel',
+      'solar energy',
+      'solar power',
+      'photovoltaic',
+      'inverter',
+      'kilowatt',
+
+      // Sunscreen / skincare / UV
+      'sunscreen',
+      'sunblock',
+      'spf',
+      'tanning',
+      'uv protection',
+      'skincare',
+
+      // Other sports "Suns" teams
+      'brisbane suns',
+      'gold coast suns',
+      'sunderland',
+
+      // Weather / generic sun
+      'sunrise yoga',
+      'sunset timelapse',
+      'sun exposure',
+
+      // Games named after suns
+      'fading suns',
+    ],
+    defaultTrustedDomains: [
+      'arizonasports.com',
+      'brightsideofthesun.com',
+      'valleyofthesuns.com',
+      ...NATIONAL_DOMAINS,
+      'abc15.com',
+      'azcentral.com',
+    ],
+    defaultVideoSources: [
+      { channelId: 'UCJlZfS5D-i4r_LlR-m7LPUA', channelTitle: 'Arizona Sports' },
+      { channelId: 'UCLxlWVVHz2a8SdCfxzVXzQw', channelTitle: 'Phoenix Suns' },
+      { channelId: 'UC8hoXLfuV6IEFRcgp94-zJg', channelTitle: "KDUS AM 1060- Arizona's Sports Alternative" },
+      { channelId: 'UCKaPEqS_Mc6eGNNBQN1QgQw', channelTitle: 'PHNX Sports' },
+      { channelId: 'UCBzL8XS_08NDMTlDwwVWEWA', channelTitle: 'Locked On Suns' },
+      { channelId: 'UCNBkf-jAT-w2_fPYB8w7AFw', channelTitle: 'Suns Valley Podcast' },
+      { channelId: 'UCj5cTz2c5ItOD9pWUThM_Cg', channelTitle: 'Suns Digest' },
+      { channelId: 'UCMEoavphn3GBkUbSWrQ-CNA', channelTitle: 'The Timeline: A Phoenix Suns Channel' },
+      ...NATIONAL_VIDEO_SOURCES,
+    ],
+  },
+  {
+    id: 'lakers',
+    name: 'Los Angeles Lakers',
+    shortName: 'Lakers',
+    newsQuery: 'Los Angeles Lakers',
+    videoPrimaryQuery: 'Los Angeles Lakers',
+    videoSecondaryQuery: 'Lakers',
+    relevanceKeywords: ['los angeles lakers', 'la lakers'],
+    ambiguousKeywords: ['lakers'],
+    negativeKeywords: [
+      // Other "Lakers" teams
+      'hockey',
+      'high school',
+      'lacrosse',
+    ],
+    defaultTrustedDomains: [
+      'silverscreenandroll.com',
+      'lakersnation.com',
+      'latimes.com',
+      ...NATIONAL_DOMAINS,
+    ],
+    defaultVideoSources: [...NATIONAL_VIDEO_SOURCES],
+  },
+  {
+    id: 'celtics',
+    name: 'Boston Celtics',
+    shortName: 'Celtics',
+    newsQuery: 'Boston Celtics',
+    videoPrimaryQuery: 'Boston Celtics',
+    videoSecondaryQuery: 'Celtics',
+    relevanceKeywords: ['boston celtics'],
+    ambiguousKeywords: ['celtics'],
+    negativeKeywords: [
+      // Celtic FC and Scottish football
+      'celtic fc',
+      'glasgow',
+      'scottish premiership',
+      'old firm',
+      'rangers',
+      'parkhead',
+    ],
+    defaultTrustedDomains: [
+      'celticsblog.com',
+      'masslive.com',
+      'bostonglobe.com',
+      ...NATIONAL_DOMAINS,
+    ],
+    defaultVideoSources: [...NATIONAL_VIDEO_SOURCES],
+  },
+  {
+    id: 'warriors',
+    name: 'Golden State Warriors',
+    shortName: 'Warriors',
+    newsQuery: 'Golden State Warriors',
+    videoPrimaryQuery: 'Golden State Warriors',
+    videoSecondaryQuery: 'Warriors NBA',
+    relevanceKeywords: ['golden state warriors'],
+    ambiguousKeywords: ['warriors'],
+    negativeKeywords: [
+      // Rugby / other leagues
+      'new zealand warriors',
+      'nrl',
+      'rugby',
+      'glasgow warriors',
+      // Books / games / films
+      'warrior cats',
+      'warriors orochi',
+      'dynasty warriors',
+      'the warriors movie',
+      'ninja warrior',
+    ],
+    defaultTrustedDomains: [
+      'goldenstateofmind.com',
+      'mercurynews.com',
+      'sfchronicle.com',
+      ...NATIONAL_DOMAINS,
+    ],
+    defaultVideoSources: [...NATIONAL_VIDEO_SOURCES],
+  },
+  {
+    id: 'knicks',
+    name: 'New York Knicks',
+    shortName: 'Knicks',
+    newsQuery: 'New York Knicks',
+    videoPrimaryQuery: 'New York Knicks',
+    videoSecondaryQuery: 'Knicks',
+    relevanceKeywords: ['new york knicks', 'ny knicks'],
+    ambiguousKeywords: ['knicks'],
+    negativeKeywords: [],
+    defaultTrustedDomains: [
+      'postingandtoasting.com',
+      'nypost.com',
+      'sny.tv',
+      ...NATIONAL_DOMAINS,
+    ],
+    defaultVideoSources: [...NATIONAL_VIDEO_SOURCES],
+  },
+];
+
+export const DEFAULT_TEAM_ID = 'suns';
+
+const TEAM_KEY = 'suns-reader-team';
+
+/**
+ * Look up a team profile by id, falling back to the default team
+ */
+export function getTeamProfile(teamId: string | null | undefined): TeamProfile {
+  return (
+    TEAM_PROFILES.find(team => team.id === teamId) ??
+    TEAM_PROFILES.find(team => team.id === DEFAULT_TEAM_ID)!
+  );
+}
+
+/**
+ * Get the stored team id from localStorage (validated against the registry)
+ */
+export function getStoredTeamId(): string {
+  if (typeof window === 'undefined') return DEFAULT_TEAM_ID;
+  return getTeamProfile(localStorage.getItem(TEAM_KEY)).id;
+}
+
+/**
+ * Get the stored team's profile
+ */
+export function getStoredTeamProfile(): TeamProfile {
+  return getTeamProfile(getStoredTeamId());
+}
+
+/**
+ * Save team preference to localStorage
+ */
+export function setStoredTeamId(teamId: string): void {
+  if (typeof window === 'undefined') return;
+  if (teamId === DEFAULT_TEAM_ID) {
+    localStorage.removeItem(TEAM_KEY);
+  } else {
+    localStorage.setItem(TEAM_KEY, getTeamProfile(teamId).id);
+  }
+  window.dispatchEvent(new Event('teamChanged'));
+}
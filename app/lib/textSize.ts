@@ -24,6 +24,7 @@ export function setStoredTextSize(size: TextSizePreference): void {
   } else {
     localStorage.setItem(TEXT_SIZE_KEY, size);
   }
+  window.dispatchEvent(new Event('textSizeChanged'));
 }
 
 /**
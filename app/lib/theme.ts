@@ -20,6 +20,7 @@ export function getStoredThemePreference(): ThemePreference {
 export function setStoredThemePreference(preference: ThemePreference): void {
   if (typeof window === 'undefined') return;
   localStorage.setItem(THEME_KEY, preference);
+  window.dispatchEvent(new Event('themeChanged'));
 }
 
 /**
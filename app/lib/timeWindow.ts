@@ -0,0 +1,55 @@
+export type TimeWindow = '24h' | '3d' | '7d';
+
+const TIME_WINDOW_KEY = 'suns-reader-time-window';
+
+export const DEFAULT_TIME_WINDOW: TimeWindow = '24h';
+
+const TIME_WINDOW_HOURS: Record<TimeWindow, number> = {
+  '24h': 24,
+  '3d': 72,
+  '7d': 168,
+};
+
+export const TIME_WINDOW_OPTIONS: { value: TimeWindow; label: string }[] = [
+  { value: '24h', label: 'Last 24 hours' },
+  { value: '3d', label: 'Last 3 days' },
+  { value: '7d', label: 'Last 7 days' },
+];
+
+/**
+ * Parse a time window value (e.g. a `window` query param), falling back to the default
+ */
+export function parseTimeWindow(value: string | null | undefined): TimeWindow {
+  if (value === '24h' || value === '3d' || value === '7d') {
+    return value;
+  }
+  return DEFAULT_TIME_WINDOW;
+}
+
+/**
+ * Get the length of a time window in hours
+ */
+export function getTimeWindowHours(timeWindow: TimeWindow): number {
+  return TIME_WINDOW_HOURS[timeWindow];
+}
+
+/**
+ * Get the stored time window preference from localStorage
+ */
+export function getStoredTimeWindow(): TimeWindow {
+  if (typeof window === 'undefined') return DEFAULT_TIME_WINDOW;
+  return parseTimeWindow(localStorage.getItem(TIME_WINDOW_KEY));
+}
+
+/**
+ * Save time window preference to localStorage
+ */
+export function setStoredTimeWindow(timeWindow: TimeWindow): void {
+  if (typeof window === 'undefined') return;
+  if (timeWindow === DEFAULT_TIME_WINDOW) {
+    localStorage.removeItem(TIME_WINDOW_KEY);
+  } else {
+    localStorage.setItem(TIME_WINDOW_KEY, timeWindow);
+  }
+  window.dispatchEvent(new Event('timeWindowChanged'));
+}
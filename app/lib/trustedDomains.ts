@@ -2,29 +2,22 @@
  * Local storage utilities for managing trusted domains
  */
 
+import { getStoredTeamProfile } from './teams';
+
 const STORAGE_KEY = 'suns-reader-trusted-domains';
 const DIRTY_FLAG_KEY = 'trustedDomainsDirty';
 
-// Default starter list of trusted domains
-export const DEFAULT_TRUSTED_DOMAINS = [
-  'arizonasports.com',
-  'brightsideofthesun.com',
-  'valleyofthesuns.com',
-  'nba.com',
-  'espn.com',
-  'sports.yahoo.com',
-  'nbcsports.com',
-  'hoopsrumors.com',
-  'sportingnews.com',
-  'si.com',
-  'abc15.com',
-  'azcentral.com',
-];
+/**
+ * Default starter list of trusted domains for the selected team
+ */
+export function getDefaultTrustedDomains(): string[] {
+  return [...getStoredTeamProfile().defaultTrustedDomains];
+}
 
 /**
  * Normalize domain: lowercase and strip www.
  */
-function normalizeDomain(domain: string): string {
+export function normalizeDomain(domain: string): string {
   return domain.toLowerCase().trim().replace(/^www\./, '');
 }
 
@@ -40,17 +33,18 @@ export function getTrustedDomains(): string[] {
       const domains = JSON.parse(stored);
       // If empty array, don't leave user stuck - return defaults
       if (Array.isArray(domains) && domains.length === 0) {
-        return DEFAULT_TRUSTED_DOMAINS;
+        return getDefaultTrustedDomains();
       }
       return domains;
     }
 
     // First run - seed with defaults
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(DEFAULT_TRUSTED_DOMAINS));
-    return DEFAULT_TRUSTED_DOMAINS;
+    const defaults = getDefaultTrustedDomains();
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(defaults));
+    return defaults;
   } catch (error) {
     console.error('Failed to get trusted domains:', error);
-    return DEFAULT_TRUSTED_DOMAINS;
+    return getDefaultTrustedDomains();
   }
 }
 
@@ -106,13 +100,13 @@ export function isTrusted(domain: string): boolean {
 }
 
 /**
- * Reset to default trusted domains
+ * Reset to the selected team's default trusted domains
  */
 export function resetToDefaults(): void {
   if (typeof window === 'undefined') return;
 
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(DEFAULT_TRUSTED_DOMAINS));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(getDefaultTrustedDomains()));
     sessionStorage.setItem(DIRTY_FLAG_KEY, '1');
     window.dispatchEvent(new Event('trustedDomainsChanged'));
   } catch (error) {
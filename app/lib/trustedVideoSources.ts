@@ -3,6 +3,8 @@
  * Membership is based on channelId (stable), not channelTitle (display-only).
  */
 
+import { getStoredTeamProfile } from './teams';
+
 const STORAGE_KEY = 'sr:trustedVideoSources:v1';
 const DIRTY_FLAG_KEY = 'trustedVideoSourcesDirty';
 
@@ -12,26 +14,15 @@ export interface TrustedVideoSource {
 }
 
 /**
- * Canonical default video sources with pre-resolved YouTube channelIds.
+ * Canonical default video sources for the selected team, with pre-resolved
+ * YouTube channelIds (see teams.ts).
  * Used by resetVideoSourcesToDefaults() so Settings can reset without
  * needing access to the video feed.
  * channelIds are stable and permanent for YouTube channels.
  */
-export const DEFAULT_VIDEO_SOURCES: TrustedVideoSource[] = [
-  { channelId: 'UCJlZfS5D-i4r_LlR-m7LPUA', channelTitle: 'Arizona Sports' },
-  { channelId: 'UCLxlWVVHz2a8SdCfxzVXzQw', channelTitle: 'Phoenix Suns' },
-  { channelId: 'UC8hoXLfuV6IEFRcgp94-zJg', channelTitle: "KDUS AM 1060- Arizona's Sports Alternative" },
-  { channelId: 'UCKaPEqS_Mc6eGNNBQN1QgQw', channelTitle: 'PHNX Sports' },
-  { channelId: 'UCBzL8XS_08NDMTlDwwVWEWA', channelTitle: 'Locked On Suns' },
-  { channelId: 'UCWJ2lWNubArHWmf3FIHbfcQ', channelTitle: 'NBA' },
-  { channelId: 'UCPAt6z5uX_c5Eo_cSNROzYw', channelTitle: 'Sports Illustrated' },
-  { channelId: 'UCiWLfSweyRNmLpgEHekhoAg', channelTitle: 'ESPN' },
-  { channelId: 'UCNBkf-jAT-w2_fPYB8w7AFw', channelTitle: 'Suns Valley Podcast' },
-  { channelId: 'UCj5cTz2c5ItOD9pWUThM_Cg', channelTitle: 'Suns Digest' },
-  { channelId: 'UC0LrZO9wORIqn_aRJtKdgfA', channelTitle: 'GAMETIME HIGHLIGHTS' },
-  { channelId: 'UCMEoavphn3GBkUbSWrQ-CNA', channelTitle: 'The Timeline: A Phoenix Suns Channel' },
-  { channelId: 'UCFw3-5NBx1XJTaF0TPcK8iQ', channelTitle: 'NBA on NBC' },
-];
+export function getDefaultVideoSources(): TrustedVideoSource[] {
+  return getStoredTeamProfile().defaultVideoSources.map(source => ({ ...source }));
+}
 
 /**
  * Get trusted video sources from localStorage.
@@ -63,9 +54,9 @@ export function trustedVideoSourcesExist(): boolean {
 
 /**
  * Seed trusted video sources on first run.
- * Starts with all DEFAULT_VIDEO_SOURCES (hardcoded channelIds), then
- * updates display names for any channels that appeared in fetched results
- * (API titles are fresher). This guarantees all 13 defaults are always
+ * Starts with all of the team's default video sources (hardcoded channelIds),
+ * then updates display names for any channels that appeared in fetched
+ * results (API titles are fresher). This guarantees all defaults are always
  * present regardless of how many pages were fetched.
  * Only call this when the storage key does not exist yet.
  */
@@ -81,7 +72,7 @@ export function seedTrustedVideoSources(
   }
 
   // Start from the full canonical list, updating titles where we have fresher data
-  const sources: TrustedVideoSource[] = DEFAULT_VIDEO_SOURCES.map(def => ({
+  const sources: TrustedVideoSource[] = getDefaultVideoSources().map(def => ({
     channelId: def.channelId,
     channelTitle: fetchedTitles.get(def.channelId) ?? def.channelTitle,
   }));
@@ -139,13 +130,13 @@ export function getTrustedChannelIdSet(): Set<string> {
 }
 
 /**
- * Reset trusted video sources to the canonical defaults.
+ * Reset trusted video sources to the selected team's canonical defaults.
  */
 export function resetVideoSourcesToDefaults(): void {
   if (typeof window === 'undefined') return;
 
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(DEFAULT_VIDEO_SOURCES));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(getDefaultVideoSources()));
     sessionStorage.setItem(DIRTY_FLAG_KEY, '1');
     window.dispatchEvent(new Event('trustedVideoSourcesChanged'));
   } catch (error) {
@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest';
+import { checkResolvedHost, isPrivateIP, validateUrl } from './urlSafety';
+
+vi.mock('node:dns/promises', () => ({
+  lookup: vi.fn(async (host: string) => {
+    const records: Record<string, string[]> = {
+      'public.example': ['93.184.216.34', '2606:2800:220:1::1'],
+      'metadata.example': ['169.254.169.254'],
+      'mixed.example': ['93.184.216.34', '10.0.0.5'],
+      'mapped.example': ['::ffff:192.168.0.1'],
+    };
+    if (!records[host]) throw Object.assign(new Error('getaddrinfo ENOTFOUND'), { code: 'ENOTFOUND' });
+    return records[host].map(address => ({ address, family: address.includes(':') ? 6 : 4 }));
+  }),
+}));
+
+describe('isPrivateIP', () => {
+  it.each([
+    'localhost', 'LOCALHOST', 'localhost.', 'api.localhost',
+    '127.0.0.1', '127.1.2.3', '0.0.0.0', '0.1.2.3',
+    '10.0.0.1', '172.16.0.1', '172.31.255.255', '192.168.1.1',
+    '169.254.169.254', '100.64.0.1', '100.127.255.255',
+    '192.0.0.1', '198.18.0.1', '224.0.0.1', '255.255.255.255',
+    '[::1]', '::1', '[::]', '[fe80::1]', '[febf::1]', '[fc00::1]', '[fd12:3456::1]', '[ff02::1]',
+    '[::ffff:127.0.0.1]', '[::ffff:7f00:1]', '[::ffff:169.254.169.254]', '[::ffff:a9fe:a9fe]',
+    '[64:ff9b::a00:1]', '[2002:c0a8:101::1]',
+  ])('blocks %s', host => {
+    expect(isPrivateIP(host)).toBe(true);
+  });
+
+  it.each([
+    'example.com', '8.8.8.8', '1.1.1.1', '172.32.0.1', '100.128.0.1', '169.253.0.1',
+    '[2606:4700:4700::1111]', '[::ffff:8.8.8.8]', '[2002:808:808::1]',
+  ])('allows %s', host => {
+    expect(isPrivateIP(host)).toBe(false);
+  });
+});
+
+describe('validateUrl', () => {
+  it.each([
+    'http://169.254.169.254/latest/meta-data/',
+    'http://[::1]:3000/',
+    'http://[::ffff:127.0.0.1]/',
+    'http://2130706433/',       // 127.0.0.1 as a single number
+    'http://0x7f.0.0.1/',       // hex octet
+    'http://0177.0.0.1/',       // octal octet
+    'http://0/',
+  ])('rejects %s', url => {
+    expect(validateUrl(url).valid).toBe(false);
+  });
+
+  it('rejects non-HTTP protocols', () => {
+    expect(validateUrl('file:///etc/passwd').valid).toBe(false);
+    expect(validateUrl('ftp://example.com/').valid).toBe(false);
+  });
+
+  it('accepts public HTTP(S) URLs', () => {
+    expect(validateUrl('https://www.example.com/story').valid).toBe(true);
+  });
+});
+
+describe('checkResolvedHost', () => {
+  it('allows hosts that resolve only to public addresses', async () => {
+    expect(await checkResolvedHost('public.example')).toEqual({ valid: true });
+  });
+
+  it.each(['metadata.example', 'mixed.example', 'mapped.example'])('rejects %s', async host => {
+    expect((await checkResolvedHost(host)).valid).toBe(false);
+  });
+
+  it('leaves lookup failures to the fetch', async () => {
+    expect((await checkResolvedHost('missing.example')).valid).toBe(true);
+  });
+
+  it('skips the lookup for IP literals', async () => {
+    expect((await checkResolvedHost('[2606:4700:4700::1111]')).valid).toBe(true);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * SSRF checks for server-side fetches of user-supplied URLs
+ * (/api/extract, /api/image).
+ */
+
+import { lookup } from 'node:dns/promises';
+import { isIP, isIPv4, isIPv6 } from 'node:net';
+
+// IPv4 ranges that are not publicly routable: [first octets, prefix length]
+const PRIVATE_IPV4_RANGES: [number[], number][] = [
+  [[0], 8],             // "this network" (0.0.0.0 reaches localhost)
+  [[10], 8],            // private
+  [[100, 64], 10],      // carrier-grade NAT
+  [[127], 8],           // loopback
+  [[169, 254], 16],     // link-local, cloud metadata (169.254.169.254)
+  [[172, 16], 12],      // private
+  [[192, 0, 0], 24],    // IETF protocol assignments
+  [[192, 0, 2], 24],    // documentation
+  [[192, 168], 16],     // private
+  [[198, 18], 15],      // benchmarking
+  [[198, 51, 100], 24], // documentation
+  [[203, 0, 113], 24],  // documentation
+  [[224], 4],           // multicast
+  [[240], 4],           // reserved, broadcast
+];
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function parseIPv4(address: string): number | null {
+  if (!isIPv4(address)) return null;
+  return address.split('.').reduce((n, octet) => n * 256 + Number(octet), 0);
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const ip = parseIPv4(address);
+  if (ip === null) return false;
+  return PRIVATE_IPV4_RANGES.some(([octets, prefix]) => {
+    const base = [0, 1, 2, 3].reduce((n, i) => n * 256 + (octets[i] ?? 0), 0);
+    const size = 2 ** (32 - prefix);
+    return ip >= base && ip < base + size;
+  });
+}
+
+/**
+ * The eight 16-bit groups of an IPv6 address (with any dotted IPv4 tail)
+ */
+function parseIPv6(address: string): number[] | null {
+  if (!isIPv6(address)) return null;
+  let text = address.toLowerCase().split('%')[0];
+
+  const tail = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (tail) {
+    const ip = parseIPv4(tail[1]);
+    if (ip === null) return null;
+    text = text.slice(0, -tail[1].length) + `${(ip >>> 16).toString(16)}:${(ip & 0xffff).toString(16)}`;
+  }
+
+  const [head, rest] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const restGroups = rest !== undefined && rest ? rest.split(':') : [];
+  const missing = 8 - headGroups.length - restGroups.length;
+  const groups = rest !== undefined
+    ? [...headGroups, ...Array(missing).fill('0'), ...restGroups]
+    : headGroups;
+  return groups.length === 8 ? groups.map(group => parseInt(group, 16)) : null;
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const groups = parseIPv6(address);
+  if (!groups) return false;
+
+  const embeddedIPv4 = (high: number, low: number) =>
+    isPrivateIPv4([high >> 8, high & 0xff, low >> 8, low & 0xff].join('.'));
+
+  // :: and ::1
+  if (groups.slice(0, 7).every(g => g === 0) && groups[7] <= 1) return true;
+  // IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible (::a.b.c.d)
+  if (groups.slice(0, 5).every(g => g === 0) && (groups[5] === 0xffff || groups[5] === 0)) {
+    return embeddedIPv4(groups[6], groups[7]);
+  }
+  // NAT64 (64:ff9b::a.b.c.d)
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(g => g === 0)) {
+    return embeddedIPv4(groups[6], groups[7]);
+  }
+  // 6to4 (2002:aabb:ccdd::)
+  if (groups[0] === 0x2002) return embeddedIPv4(groups[1], groups[2]);
+
+  return (groups[0] & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (groups[0] & 0xffc0) === 0xfe80 ||       // link-local fe80::/10
+    (groups[0] & 0xff00) === 0xff00;         // multicast ff00::/8
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Localhost names and non-public IPv4 / IPv6 addresses.
+ * Accepts URL hostnames, so IPv6 may be bracketed ("[::1]").
+ */
+export function isPrivateIP(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return true;
+  }
+
+  return isPrivateIPv4(host) || isPrivateIPv6(host);
+}
+
+/**
+ * Check that a hostname's DNS records point only at public addresses, so a
+ * public-looking name can't reach internal services. Lookup failures pass:
+ * the fetch that follows fails on its own.
+ */
+export async function checkResolvedHost(hostname: string): Promise<{ valid: boolean; error?: string }> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host)) return { valid: true }; // literal, already checked by validateUrl
+
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    return { valid: true };
+  }
+
+  const privateAddress = addresses.find(({ address }) => isPrivateIP(address));
+  if (privateAddress) {
+    console.log('[URLSafety] Host resolves to a private address:', host, privateAddress.address);
+    return { valid: false, error: 'Host resolves to a private address' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Parse a URL, allowing only public HTTP(S) targets
+ */
+export function validateUrl(urlString: string): { valid: boolean; error?: string; url?: URL } {
+  try {
+    const url = new URL(urlString);
+
+    // Check protocol
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return { valid: false, error: 'Only HTTP and HTTPS protocols are supported' };
+    }
+
+    // Check for private IPs
+    if (isPrivateIP(url.hostname)) {
+      return { valid: false, error: 'Private IP addresses are not allowed' };
+    }
+
+    return { valid: true, url };
+  } catch (error) {
+    return { valid: false, error: 'Invalid URL format' };
+  }
+}
@@ -62,20 +62,29 @@ export function formatDate(isoDate: string): string {
 }
 
 /**
- * Check if date is within last 24 hours
+ * Check if date is within the last `hours` hours
  */
-export function isWithin24Hours(isoDate: string): boolean {
+export function isWithinHours(isoDate: string, hours: number): boolean {
   try {
     const date = new Date(isoDate);
     const now = new Date();
     const diffMs = now.getTime() - date.getTime();
     const diffHours = diffMs / (1000 * 60 * 60);
-    return diffHours <= 24;
+    return diffHours <= hours;
   } catch {
     return false;
   }
 }
 
+/**
+ * Format a byte count for display, e.g. "840 KB", "1.4 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 /**
  * Normalize title by removing trailing site name suffix (display-only).
  * Removes patterns like " - SiteName", " – SiteName", " | SiteName", " : SiteName"
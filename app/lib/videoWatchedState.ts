@@ -2,8 +2,9 @@
  * Local storage utilities for managing video watched state
  */
 
+import { getStoredTimeWindow, getTimeWindowHours } from './timeWindow';
+
 const STORAGE_KEY = 'suns-reader-video-watched-state';
-const WATCHED_STATE_EXPIRY_HOURS = 24;
 
 interface WatchedStateMap {
   [videoId: string]: number; // Unix timestamp when watched
@@ -41,7 +42,7 @@ function saveWatchedStateMap(watchedState: WatchedStateMap): void {
 }
 
 /**
- * Purge watched entries older than expiry window
+ * Purge watched entries older than the feed time window
  */
 export function purgeExpiredVideoWatchedState(): void {
   if (typeof window === 'undefined') return;
@@ -49,7 +50,7 @@ export function purgeExpiredVideoWatchedState(): void {
   try {
     const watchedState = getWatchedStateMap();
     const now = Date.now();
-    const expiryMs = WATCHED_STATE_EXPIRY_HOURS * 60 * 60 * 1000;
+    const expiryMs = getTimeWindowHours(getStoredTimeWindow()) * 60 * 60 * 1000;
 
     const filtered: WatchedStateMap = {};
     let purgedCount = 0;
@@ -109,3 +110,37 @@ export function getWatchedStateForVideos(videoIds: string[]): Record<string, boo
     return {};
   }
 }
+
+/**
+ * Get all watched entries (videoId → watched timestamp). Used by sync/backup.
+ */
+export function getWatchedStateEntries(): Record<string, number> {
+  return { ...getWatchedStateMap() };
+}
+
+/**
+ * Apply watched entries from another device or a backup:
+ * a timestamp marks the video watched, null marks it unwatched.
+ */
+export function applyWatchedStateEntries(entries: Record<string, number | null>): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    const watchedState = getWatchedStateMap();
+
+    for (const [id, timestamp] of Object.entries(entries)) {
+      if (timestamp === null) {
+        delete watchedState[id];
+      } else {
+        watchedState[id] = timestamp;
+      }
+    }
+
+    saveWatchedStateMap(watchedState);
+
+    // Dispatch event so UI updates immediately
+    window.dispatchEvent(new Event('videoWatchedStateChanged'));
+  } catch (error) {
+    console.error('Failed to apply video watched state:', error);
+  }
+}
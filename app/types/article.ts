@@ -10,6 +10,8 @@ export interface Article {
   url?: string; // For real articles
   publishedAt?: string; // ISO date for real articles
   sourceDomain?: string; // Domain extracted from URL
+  thumbnail?: string; // Feed-provided image URL
+  related?: RelatedArticle[]; // Other outlets covering the same story
 }
 
 export interface ArticleSummary {
@@ -19,4 +21,22 @@ export interface ArticleSummary {
   publishedAt: string;
   sourceName: string;
   sourceDomain: string;
+  author?: string; // dc:creator / atom author / JSON Feed authors
+  thumbnail?: string; // media:thumbnail, image enclosure, or first content image
+  related?: RelatedArticle[]; // Other outlets covering the same story (see storyClustering)
+}
+
+/**
+ * Another outlet's copy of a clustered story. Author and thumbnail are kept
+ * so the copy can be promoted to lead (see pickStoryLead).
+ */
+export interface RelatedArticle {
+  id: string;
+  title: string;
+  url: string;
+  publishedAt: string;
+  sourceName: string;
+  sourceDomain: string;
+  author?: string;
+  thumbnail?: string;
 }
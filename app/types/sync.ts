@@ -0,0 +1,31 @@
+/**
+ * Shared types for the optional cross-device sync API (/api/sync).
+ *
+ * Sync state is a flat map of entries merged last-writer-wins per key.
+ * Setting keys: trustedDomains, trustedVideoSources, theme, textSize, team,
+ * timeWindow. Per-item keys: `read:<articleId>`, `watched:<videoId>`
+ * (value = timestamp), so read/watched state unions across devices.
+ */
+
+export interface SyncEntry {
+  value: unknown;      // JSON value; null = deleted (tombstone)
+  updatedAt: number;   // unix ms of the write that produced this value
+}
+
+export type SyncEntries = Record<string, SyncEntry>;
+
+export interface SyncDocument {
+  v: 1;
+  entries: SyncEntries;
+  updatedAt: number;   // unix ms of the last push
+}
+
+export interface SyncCredentials {
+  accountId: string;
+  token: string;       // "<accountId>.<deviceSecret>", sent as a Bearer token
+}
+
+export interface SyncPairingCode {
+  code: string;
+  expiresAt: number;   // unix ms
+}
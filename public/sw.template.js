@@ -4,6 +4,9 @@ const CACHE_NAME = `suns-reader-${BUILD_ID}`;
 
 const PRECACHE_URLS = [
   '/manifest.webmanifest',
+  '/app/saved', // Saved screen shell, so saved articles open offline
+  '/app',        // Feed and reader shells, so downloaded articles open offline
+  '/app/reader',
 ];
 
 // Positive allowlist: only these patterns get cache-first treatment.
@@ -122,7 +125,10 @@ self.addEventListener('fetch', (event) => {
           return response;
         })
         .catch(() => {
-          return caches.match(request);
+          // Reader URLs differ only by query string and render client-side,
+          // so any cached copy of the page shell will do
+          return caches.match(request)
+            .then((cached) => cached || caches.match(request, { ignoreSearch: true }));
         })
     );
     return;